@@ -13,6 +13,7 @@ export interface RequestUrlParam {
 
 export interface RequestUrlResponse {
 	status: number;
+	headers: Record<string, string>;
 	json: unknown;
 	text: string;
 }
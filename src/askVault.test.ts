@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import {
+	answerNoteTitle,
+	answerSources,
+	buildAskPrompt,
+	citationLink,
+	renderAnswerNote,
+	renderAnswerSection,
+} from "./askVault";
+import type { SemanticMatch } from "./semanticIndex";
+
+const matches: SemanticMatch[] = [
+	{
+		path: "Projects/Alpha.md",
+		heading: "Timeline",
+		text: "Alpha launches in March.",
+		score: 0.9,
+	},
+	{ path: "Launch.md", heading: "", text: "Launch party on March 30.", score: 0.7 },
+	{ path: "Projects/Alpha.md", heading: "Timeline", text: "Beta ends in February.", score: 0.6 },
+];
+
+describe("citationLink", () => {
+	it("links the note and heading of a chunk", () => {
+		expect(citationLink(matches[0]!)).toBe("[[Projects/Alpha#Timeline]]");
+	});
+
+	it("links the note alone for text before the first heading", () => {
+		expect(citationLink(matches[1]!)).toBe("[[Launch]]");
+	});
+
+	it("leaves out characters that break links", () => {
+		expect(citationLink({ path: "Log.md", heading: "Q1 | Q2 [draft] #work" })).toBe(
+			"[[Log#Q1 Q2 draft work]]"
+		);
+	});
+});
+
+describe("buildAskPrompt", () => {
+	it("lists each source with the link to cite it", () => {
+		const prompt = buildAskPrompt("  When does Alpha launch? ", matches);
+
+		expect(prompt.user).toContain("## Question\nWhen does Alpha launch?");
+		expect(prompt.user).toContain(
+			"### Source 1: [[Projects/Alpha#Timeline]]\nAlpha launches in March."
+		);
+		expect(prompt.user).toContain("### Source 2: [[Launch]]\nLaunch party on March 30.");
+	});
+
+	it("asks for cited answers from the sources only", () => {
+		const prompt = buildAskPrompt("When does Alpha launch?", matches);
+
+		expect(prompt.system).toMatch(/using only the note excerpts/);
+		expect(prompt.system).toMatch(/Cite the source of every statement/);
+		expect(prompt.system).not.toContain("Alpha launches");
+	});
+
+	it("says when no notes matched", () => {
+		expect(buildAskPrompt("Anything?", []).user).toContain("No notes matched the question.");
+	});
+});
+
+describe("answerSources", () => {
+	it("lists the cited sources once", () => {
+		const answer = "March [[Projects/Alpha#Timeline]], then [[Projects/Alpha#Timeline]].";
+
+		expect(answerSources(answer, matches)).toEqual(["[[Projects/Alpha#Timeline]]"]);
+	});
+
+	it("lists every retrieved source when none is cited", () => {
+		expect(answerSources("In March.", matches)).toEqual([
+			"[[Projects/Alpha#Timeline]]",
+			"[[Launch]]",
+		]);
+	});
+});
+
+describe("renderAnswerSection", () => {
+	it("puts the question in a heading above the answer and its sources", () => {
+		expect(
+			renderAnswerSection(
+				"When does Alpha launch?",
+				"In March [[Projects/Alpha#Timeline]].\n",
+				matches
+			)
+		).toBe(
+			"## When does Alpha launch?\n\nIn March [[Projects/Alpha#Timeline]].\n\nSources: [[Projects/Alpha#Timeline]]"
+		);
+	});
+});
+
+describe("renderAnswerNote", () => {
+	it("adds frontmatter with the question, model and source notes", () => {
+		const note = renderAnswerNote('Is "Alpha" late?', "No [[Launch]].", matches, {
+			generatedAt: "2025-01-19T15:00:00.000Z",
+			provider: "ollama",
+			model: "llama3.1",
+		});
+
+		expect(note).toBe(`---
+question: "Is \\"Alpha\\" late?"
+generated_at: 2025-01-19T15:00:00.000Z
+provider: ollama
+model: llama3.1
+sources:
+  - Projects/Alpha.md
+  - Launch.md
+---
+# Is "Alpha" late?
+
+No [[Launch]].
+
+Sources: [[Launch]]
+`);
+	});
+
+	it("quotes source paths and models that YAML would misread", () => {
+		const note = renderAnswerNote(
+			"When?",
+			"Soon.",
+			[{ path: "Ideas/#1: launch.md", heading: "", text: "Soon.", score: 0.8 }],
+			{ generatedAt: "2025-01-19T15:00:00.000Z", provider: "ollama", model: "qwen3:8b" }
+		);
+
+		expect(note).toContain('model: "qwen3:8b"\nsources:\n  - "Ideas/#1: launch.md"\n---');
+	});
+});
+
+describe("answerNoteTitle", () => {
+	it("removes characters not allowed in filenames", () => {
+		expect(answerNoteTitle("What's next for Alpha/Beta?")).toBe("What's next for Alpha Beta");
+	});
+
+	it("shortens long questions at a word boundary", () => {
+		const title = answerNoteTitle(
+			"What did I decide about the launch date and the budget of the Alpha project last year"
+		);
+
+		expect(title).toBe("What did I decide about the launch date and the budget of");
+	});
+
+	it("falls back to a default title", () => {
+		expect(answerNoteTitle("???")).toBe("Answer");
+	});
+});
@@ -0,0 +1,139 @@
+import { yamlString } from "./render";
+import type { SemanticMatch } from "./semanticIndex";
+import type { LLMPrompt, LLMProvider } from "./types";
+
+/**
+ * Longest question used in the filename of an answer note.
+ */
+const MAX_TITLE_CHARS = 60;
+
+/**
+ * Metadata for a saved answer note.
+ */
+export interface AnswerNoteMetadata {
+	generatedAt: string; // ISO
+	provider: LLMProvider;
+	model: string;
+}
+
+/**
+ * Builds the wikilink that cites a chunk: the note path without extension,
+ * followed by the heading of the chunk if it has one.
+ */
+export function citationLink(match: Pick<SemanticMatch, "path" | "heading">): string {
+	const target = match.path.replace(/\.md$/, "");
+	// Characters with a meaning in links cannot appear in the heading part
+	const heading = match.heading
+		.replace(/[[\]|#^]/g, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+	return heading ? `[[${target}#${heading}]]` : `[[${target}]]`;
+}
+
+/**
+ * Builds the prompt for answering a question from the chunks retrieved for it.
+ *
+ * @param question - The user's question
+ * @param matches - Retrieved chunks, most relevant first
+ * @returns The prompt to send to the LLM
+ */
+export function buildAskPrompt(question: string, matches: SemanticMatch[]): LLMPrompt {
+	const system = `You are a helpful assistant that answers questions about the user's notes.
+
+## Task
+Answer the user's question using only the note excerpts provided as sources.
+
+## Instructions
+- Output markdown only - no code blocks, no explanations, no preamble
+- Be concise and direct
+- Cite the source of every statement with its wikilink exactly as given (e.g. [[Projects/Alpha#Timeline]]), right after the statement
+- Do not cite anything that is not listed as a source
+- If the sources do not answer the question, say so instead of guessing`;
+
+	const sources =
+		matches.length > 0
+			? matches
+					.map(
+						(match, i) =>
+							`### Source ${i + 1}: ${citationLink(match)}\n${match.text.trim()}`
+					)
+					.join("\n\n")
+			: "No notes matched the question.";
+
+	const user = `## Question
+${question.trim()}
+
+## Sources
+${sources}`;
+
+	return { system, user };
+}
+
+/**
+ * Lists the sources of an answer: the retrieved chunks the answer cites, or
+ * every retrieved chunk if it cites none. Each link is listed once.
+ */
+export function answerSources(answer: string, matches: SemanticMatch[]): string[] {
+	const links = [...new Set(matches.map((match) => citationLink(match)))];
+	const cited = links.filter((link) => answer.includes(link));
+	return cited.length > 0 ? cited : links;
+}
+
+/**
+ * Formats an answer as a section to insert into a note: the question as a
+ * heading, the answer and its sources.
+ */
+export function renderAnswerSection(
+	question: string,
+	answer: string,
+	matches: SemanticMatch[],
+	headingLevel = 2
+): string {
+	const sources = answerSources(answer, matches);
+	const lines = [`${"#".repeat(headingLevel)} ${question.trim()}`, "", answer.trim()];
+	if (sources.length > 0) {
+		lines.push("", `Sources: ${sources.join(", ")}`);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Renders a standalone answer note with frontmatter.
+ */
+export function renderAnswerNote(
+	question: string,
+	answer: string,
+	matches: SemanticMatch[],
+	metadata: AnswerNoteMetadata
+): string {
+	const paths = [...new Set(matches.map((match) => match.path))];
+	const frontmatter = [
+		"---",
+		`question: ${JSON.stringify(question.trim())}`,
+		`generated_at: ${metadata.generatedAt}`,
+		`provider: ${yamlString(metadata.provider)}`,
+		`model: ${yamlString(metadata.model)}`,
+		paths.length > 0
+			? `sources:\n${paths.map((path) => `  - ${yamlString(path)}`).join("\n")}`
+			: "sources: []",
+		"---",
+	].join("\n");
+	return `${frontmatter}\n${renderAnswerSection(question, answer, matches, 1)}\n`;
+}
+
+/**
+ * Title of an answer note: the question, without characters that are not
+ * allowed in filenames and shortened at a word boundary.
+ */
+export function answerNoteTitle(question: string): string {
+	const title = question
+		.replace(/[\\/:*?"<>|#^[\]]/g, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+	if (title.length <= MAX_TITLE_CHARS) {
+		return title || "Answer";
+	}
+	const cut = title.slice(0, MAX_TITLE_CHARS);
+	const lastSpace = cut.lastIndexOf(" ");
+	return (lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trim();
+}
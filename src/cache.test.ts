@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { hashString, ResponseCache, type ResponseCacheOptions } from "./cache";
+import { memoryStore, slowFirstSaveStore } from "./testUtils";
+
+const options: ResponseCacheOptions = { ttlMs: 1000, maxSizeBytes: 1000 };
+
+/**
+ * Clock whose time is set by the test.
+ */
+function manualClock() {
+	const clock = { time: 0, now: () => clock.time };
+	return clock;
+}
+
+describe("ResponseCache", () => {
+	it("returns stored responses and null for unknown keys", async () => {
+		const cache = new ResponseCache(memoryStore(), options);
+
+		await cache.set("a", "Response A");
+
+		expect(await cache.get("a")).toBe("Response A");
+		expect(await cache.get("b")).toBeNull();
+	});
+
+	it("expires entries after the time to live", async () => {
+		const clock = manualClock();
+		const cache = new ResponseCache(memoryStore(), options, clock.now);
+
+		await cache.set("a", "Response A");
+		clock.time = 1000;
+		expect(await cache.get("a")).toBe("Response A");
+		clock.time = 1001;
+		expect(await cache.get("a")).toBeNull();
+		expect(await cache.size()).toBe(0);
+	});
+
+	it("evicts the least recently used entries beyond the size cap", async () => {
+		const cache = new ResponseCache(memoryStore(), { ttlMs: 1000, maxSizeBytes: 25 });
+
+		await cache.set("a", "x".repeat(9));
+		await cache.set("b", "x".repeat(9));
+		await cache.get("a");
+		await cache.set("c", "x".repeat(9));
+
+		expect(await cache.get("a")).not.toBeNull();
+		expect(await cache.get("b")).toBeNull();
+		expect(await cache.get("c")).not.toBeNull();
+	});
+
+	it("applies new limits on the next write", async () => {
+		const cache = new ResponseCache(memoryStore(), options);
+		await cache.set("a", "x".repeat(100));
+
+		cache.setOptions({ ttlMs: 1000, maxSizeBytes: 10 });
+		await cache.set("b", "x");
+
+		expect(await cache.get("a")).toBeNull();
+		expect(await cache.get("b")).toBe("x");
+	});
+
+	it("persists entries across instances", async () => {
+		const store = memoryStore();
+		await new ResponseCache(store, options).set("a", "Response A");
+
+		const reloaded = new ResponseCache(store, options);
+
+		expect(await reloaded.get("a")).toBe("Response A");
+	});
+
+	it("keeps every entry when responses are stored at the same time", async () => {
+		const store = slowFirstSaveStore();
+		const cache = new ResponseCache(store, options);
+
+		await Promise.all([cache.set("a", "Response A"), cache.set("b", "Response B")]);
+
+		const reloaded = new ResponseCache(store, options);
+		expect(await reloaded.get("a")).toBe("Response A");
+		expect(await reloaded.get("b")).toBe("Response B");
+	});
+
+	it("clears every entry and the stored data", async () => {
+		const store = memoryStore();
+		const cache = new ResponseCache(store, options);
+		await cache.set("a", "Response A");
+
+		await cache.clear();
+
+		expect(await cache.get("a")).toBeNull();
+		expect(store.data).toBeNull();
+	});
+});
+
+describe("hashString", () => {
+	it("returns a stable 14-character hex hash", () => {
+		expect(hashString("hello")).toBe(hashString("hello"));
+		expect(hashString("hello")).toMatch(/^[0-9a-f]{14}$/);
+		expect(hashString("")).toMatch(/^[0-9a-f]{14}$/);
+	});
+
+	it("distinguishes similar inputs", () => {
+		expect(hashString("hello")).not.toBe(hashString("hellp"));
+		expect(hashString("ab")).not.toBe(hashString("ba"));
+	});
+});
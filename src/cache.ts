@@ -0,0 +1,159 @@
+import { JsonStore } from "./jsonStore";
+import type { FileStore } from "./types";
+
+/**
+ * Limits for the response cache.
+ */
+export interface ResponseCacheOptions {
+	ttlMs: number;
+	maxSizeBytes: number;
+}
+
+interface CacheEntry {
+	response: string;
+	createdAt: number;
+}
+
+interface SerializedCache {
+	version: 1;
+	entries: [string, CacheEntry][];
+}
+
+/**
+ * Least-recently-used cache of LLM responses with a time-to-live and a size cap.
+ *
+ * Entries are kept in a JSON store and written back after every change. A
+ * broken store only costs a fresh request.
+ */
+export class ResponseCache {
+	private options: ResponseCacheOptions;
+	private now: () => number;
+	/** Entries in least-recently-used order (Map preserves insertion order) */
+	private entries: JsonStore<Map<string, CacheEntry>>;
+
+	constructor(store: FileStore, options: ResponseCacheOptions, now: () => number = Date.now) {
+		this.options = options;
+		this.now = now;
+		this.entries = new JsonStore<Map<string, CacheEntry>>(store, "the response cache", {
+			empty: () => new Map(),
+			serialize: (entries): SerializedCache => ({ version: 1, entries: [...entries] }),
+			deserialize,
+		});
+	}
+
+	/**
+	 * Updates the limits; they are applied on the next write.
+	 */
+	setOptions(options: ResponseCacheOptions): void {
+		this.options = options;
+	}
+
+	/**
+	 * Returns the cached response for a key, or null if missing or expired.
+	 */
+	get(key: string): Promise<string | null> {
+		return this.entries.run(async (entries) => {
+			const entry = entries.get(key);
+			if (!entry) {
+				return null;
+			}
+			if (this.isExpired(entry)) {
+				entries.delete(key);
+				await this.entries.save(entries);
+				return null;
+			}
+			// Mark as most recently used
+			entries.delete(key);
+			entries.set(key, entry);
+			return entry.response;
+		});
+	}
+
+	/**
+	 * Stores a response, evicting expired and least recently used entries
+	 * to stay within the size cap.
+	 */
+	set(key: string, response: string): Promise<void> {
+		return this.entries.run(async (entries) => {
+			entries.delete(key);
+			entries.set(key, { response, createdAt: this.now() });
+			this.prune(entries);
+			await this.entries.save(entries);
+		});
+	}
+
+	/**
+	 * Removes every entry, including the stored file.
+	 */
+	clear(): Promise<void> {
+		return this.entries.clear();
+	}
+
+	/**
+	 * Number of entries currently cached (including expired ones not yet pruned).
+	 */
+	size(): Promise<number> {
+		return this.entries.run((entries) => entries.size);
+	}
+
+	private isExpired(entry: CacheEntry): boolean {
+		return this.now() - entry.createdAt > this.options.ttlMs;
+	}
+
+	private prune(entries: Map<string, CacheEntry>): void {
+		let size = 0;
+		for (const [key, entry] of entries) {
+			if (this.isExpired(entry)) {
+				entries.delete(key);
+			} else {
+				size += entrySize(key, entry);
+			}
+		}
+
+		// Evict least recently used entries first
+		for (const [key, entry] of entries) {
+			if (size <= this.options.maxSizeBytes) {
+				break;
+			}
+			entries.delete(key);
+			size -= entrySize(key, entry);
+		}
+	}
+}
+
+/**
+ * Approximate storage size of an entry in bytes (UTF-16 code units).
+ */
+function entrySize(key: string, entry: CacheEntry): number {
+	return key.length + entry.response.length;
+}
+
+/**
+ * Reads stored cache data, or null if it has another format.
+ */
+function deserialize(json: unknown): Map<string, CacheEntry> | null {
+	const data = json as Partial<SerializedCache>;
+	return data.version === 1 && Array.isArray(data.entries) ? new Map(data.entries) : null;
+}
+
+/**
+ * Hashes a string into a short hex key (cyrb53, a fast non-cryptographic hash).
+ *
+ * @param text - The text to hash
+ * @returns 14-character hex string
+ */
+export function hashString(text: string): string {
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < text.length; i++) {
+		const ch = text.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+	h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+	h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+	return hash.toString(16).padStart(14, "0");
+}
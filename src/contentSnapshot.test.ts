@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { ContentSnapshot } from "./contentSnapshot";
+import { memoryStore, mockVault } from "./testUtils";
+
+const monday = new Date("2025-01-13T09:00:00Z");
+const friday = new Date("2025-01-17T09:00:00Z");
+
+describe("ContentSnapshot", () => {
+	it("keeps the change time of content saved again unchanged", async () => {
+		const snapshot = new ContentSnapshot(memoryStore());
+
+		expect(await snapshot.changedAt("Note.md", "Draft", monday)).toEqual(monday);
+		expect(await snapshot.changedAt("Note.md", "Draft", friday)).toEqual(monday);
+		expect(await snapshot.changedAt("Note.md", "Final", friday)).toEqual(friday);
+	});
+
+	it("saves recorded notes for the next instance", async () => {
+		const store = memoryStore();
+		const snapshot = new ContentSnapshot(store);
+		await snapshot.changedAt("Note.md", "Draft", monday);
+
+		await snapshot.save();
+
+		const reloaded = new ContentSnapshot(store);
+		expect(await reloaded.changedAt("Note.md", "Draft", friday)).toEqual(monday);
+	});
+
+	it("records modified content as changed at the time of the event", async () => {
+		const store = memoryStore();
+		const snapshot = new ContentSnapshot(store);
+		await snapshot.changedAt("Note.md", "Draft", monday);
+		const vault = mockVault({ "Note.md": "Draft" });
+
+		await snapshot.update(vault, { type: "modify", path: "Note.md" }, friday);
+		expect(store.data).toBeNull();
+
+		await snapshot.update(
+			mockVault({ "Note.md": "Final" }),
+			{ type: "modify", path: "Note.md" },
+			friday
+		);
+		expect(await snapshot.changedAt("Note.md", "Final", new Date())).toEqual(friday);
+		expect(store.data).not.toBeNull();
+	});
+
+	it("moves renamed notes and forgets deleted ones", async () => {
+		const snapshot = new ContentSnapshot(memoryStore());
+		const vault = mockVault({});
+		await snapshot.changedAt("Old.md", "Draft", monday);
+		await snapshot.changedAt("Gone.md", "Draft", monday);
+
+		await snapshot.update(vault, { type: "rename", path: "New.md", oldPath: "Old.md" });
+		await snapshot.update(vault, { type: "delete", path: "Gone.md" });
+
+		expect(await snapshot.changedAt("New.md", "Draft", friday)).toEqual(monday);
+		expect(await snapshot.changedAt("Gone.md", "Draft", friday)).toEqual(friday);
+	});
+
+	it("clears the stored file", async () => {
+		const store = memoryStore();
+		const snapshot = new ContentSnapshot(store);
+		await snapshot.changedAt("Note.md", "Draft", monday);
+		await snapshot.save();
+
+		await snapshot.clear();
+
+		expect(store.data).toBeNull();
+		expect(await snapshot.changedAt("Note.md", "Draft", friday)).toEqual(friday);
+	});
+});
@@ -0,0 +1,135 @@
+import { hashString } from "./cache";
+import { JsonStore } from "./jsonStore";
+import type { FileStore, NoteChange, VaultAdapter } from "./types";
+
+interface TrackedNote {
+	hash: string;
+	changedAt: number; // when the content last changed, in ms
+}
+
+interface SerializedSnapshot {
+	version: 1;
+	notes: Record<string, TrackedNote>;
+}
+
+/**
+ * Content hashes of the notes of the vault, with the time each note's
+ * content last changed.
+ *
+ * A note saved without new content, as sync tools and bulk edits do, keeps
+ * its change time, so reviews can tell real edits from modification time
+ * bumps. Notes are recorded when a review scans them and when they are
+ * modified; a note seen for the first time counts as changed at its
+ * modification time. The snapshot is kept in a JSON store.
+ */
+export class ContentSnapshot {
+	private notes: JsonStore<Map<string, TrackedNote>>;
+	/** Whether notes were recorded since the last save */
+	private dirty = false;
+
+	constructor(store: FileStore) {
+		this.notes = new JsonStore<Map<string, TrackedNote>>(store, "the content snapshot", {
+			empty: () => new Map(),
+			serialize,
+			deserialize,
+		});
+	}
+
+	/**
+	 * Finds when the content of a note last changed, recording it if it
+	 * differs from the snapshot. Call `save` to persist what was recorded.
+	 *
+	 * @param content - Current content of the note
+	 * @param mtime - Modification time of the note, the change time of new content
+	 */
+	changedAt(path: string, content: string, mtime: Date): Promise<Date> {
+		return this.notes.run((notes) => {
+			const hash = hashString(content);
+			const tracked = notes.get(path);
+			if (tracked?.hash === hash) {
+				return new Date(tracked.changedAt);
+			}
+			notes.set(path, { hash, changedAt: mtime.getTime() });
+			this.dirty = true;
+			return mtime;
+		});
+	}
+
+	/**
+	 * Saves the notes recorded since the last save.
+	 */
+	save(): Promise<void> {
+		return this.notes.run(async (notes) => {
+			if (this.dirty) {
+				await this.persist(notes);
+			}
+		});
+	}
+
+	/**
+	 * Applies a change to a note: records new content of modified notes as
+	 * changed now, drops deleted notes and moves renamed ones.
+	 */
+	update(vault: VaultAdapter, change: NoteChange, now: Date = new Date()): Promise<void> {
+		return this.notes.run(async (notes) => {
+			switch (change.type) {
+				case "modify": {
+					const hash = hashString(await vault.readFile(change.path));
+					if (notes.get(change.path)?.hash === hash) {
+						return;
+					}
+					notes.set(change.path, { hash, changedAt: now.getTime() });
+					break;
+				}
+				case "delete":
+					if (!notes.delete(change.path)) {
+						return;
+					}
+					break;
+				case "rename": {
+					const tracked = notes.get(change.oldPath);
+					if (!tracked) {
+						return;
+					}
+					notes.delete(change.oldPath);
+					notes.set(change.path, tracked);
+					break;
+				}
+			}
+			await this.persist(notes);
+		});
+	}
+
+	/**
+	 * Forgets every note, including the stored file.
+	 */
+	clear(): Promise<void> {
+		this.dirty = false;
+		return this.notes.clear();
+	}
+
+	private async persist(notes: Map<string, TrackedNote>): Promise<void> {
+		this.dirty = false;
+		await this.notes.save(notes);
+	}
+}
+
+function serialize(notes: Map<string, TrackedNote>): SerializedSnapshot {
+	const data: SerializedSnapshot = { version: 1, notes: {} };
+	for (const [path, note] of notes) {
+		data.notes[path] = note;
+	}
+	return data;
+}
+
+function deserialize(json: unknown): Map<string, TrackedNote> | null {
+	const data = json as Partial<SerializedSnapshot>;
+	if (data.version !== 1 || !data.notes) {
+		return null;
+	}
+	const notes = new Map<string, TrackedNote>();
+	for (const [path, note] of Object.entries(data.notes)) {
+		notes.set(path, { hash: note.hash, changedAt: note.changedAt });
+	}
+	return notes;
+}
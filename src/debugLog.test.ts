@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from "vitest";
+import { DebugLog, type DebugLogEntry, type LogFileStore } from "./debugLog";
+import type { LLMExchange } from "./llmClient";
+
+/**
+ * In-memory log file store that exposes the files.
+ */
+function memoryStore(initial: Record<string, string> = {}): LogFileStore & {
+	files: Map<string, string>;
+} {
+	const files = new Map(Object.entries(initial));
+	return {
+		files,
+		append: async (path, data) => {
+			files.set(path, (files.get(path) ?? "") + data);
+		},
+		list: async (folder) => [...files.keys()].filter((path) => path.startsWith(`${folder}/`)),
+		remove: async (path) => {
+			files.delete(path);
+		},
+	};
+}
+
+const exchange: LLMExchange = {
+	provider: "openai",
+	model: "gpt-5-mini",
+	url: "https://api.openai.com/v1/chat/completions",
+	headers: { Authorization: "[REDACTED]" },
+	requestBody: { messages: [{ role: "user", content: "Hi" }] },
+	status: 200,
+	response: '{"choices":[]}',
+	startedAt: "2025-06-15T09:59:59.000Z",
+	durationMs: 1000,
+};
+
+const options = { folder: "Debug", retentionDays: 7 };
+
+function entries(data: string | undefined): DebugLogEntry[] {
+	return (data ?? "")
+		.trim()
+		.split("\n")
+		.map((line) => JSON.parse(line) as DebugLogEntry);
+}
+
+describe("DebugLog", () => {
+	const now = new Date(2025, 5, 15, 12, 0, 0);
+
+	it("appends each exchange as a JSON line to the file of the day", async () => {
+		const store = memoryStore();
+		const log = new DebugLog(store, options, () => now);
+
+		await log.write("review", exchange);
+		await log.write("summarize", { ...exchange, status: 500 });
+
+		const written = entries(store.files.get("Debug/smart-nib-debug-2025-06-15.jsonl"));
+		expect(written).toHaveLength(2);
+		expect(written[0]).toEqual({
+			timestamp: now.toISOString(),
+			command: "review",
+			...exchange,
+		});
+		expect(written[1]).toMatchObject({ command: "summarize", status: 500 });
+	});
+
+	it("keeps entries in the order they were written", async () => {
+		const store = memoryStore();
+		const log = new DebugLog(store, options, () => now);
+
+		void log.write("review", { ...exchange, durationMs: 1 });
+		await log.write("review", { ...exchange, durationMs: 2 });
+
+		const written = entries(store.files.get("Debug/smart-nib-debug-2025-06-15.jsonl"));
+		expect(written.map((entry) => entry.durationMs)).toEqual([1, 2]);
+	});
+
+	it("deletes log files older than the retention period", async () => {
+		const store = memoryStore({
+			"Debug/smart-nib-debug-2025-06-08.jsonl": "",
+			"Debug/smart-nib-debug-2025-06-09.jsonl": "",
+			"Debug/notes.md": "",
+		});
+		const log = new DebugLog(store, options, () => now);
+
+		await log.write("review", exchange);
+
+		expect([...store.files.keys()].sort()).toEqual([
+			"Debug/notes.md",
+			"Debug/smart-nib-debug-2025-06-09.jsonl",
+			"Debug/smart-nib-debug-2025-06-15.jsonl",
+		]);
+	});
+
+	it("writes to the new folder after the options change", async () => {
+		const store = memoryStore();
+		const log = new DebugLog(store, options, () => now);
+
+		log.setOptions({ folder: "Logs/", retentionDays: 1 });
+		await log.write("review", exchange);
+
+		expect(store.files.has("Logs/smart-nib-debug-2025-06-15.jsonl")).toBe(true);
+	});
+
+	it("logs write failures without throwing", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const store: LogFileStore = {
+			append: () => Promise.reject(new Error("disk full")),
+			list: async () => [],
+			remove: async () => {},
+		};
+		const log = new DebugLog(store, options, () => now);
+
+		await expect(log.write("review", exchange)).resolves.toBeUndefined();
+		expect(warn).toHaveBeenCalledWith("Failed to write the debug log:", expect.any(Error));
+		warn.mockRestore();
+	});
+
+	it("dates entries with the current time by default", async () => {
+		vi.useFakeTimers({ now });
+		const store = memoryStore();
+		const log = new DebugLog(store, options);
+
+		await log.write("review", exchange);
+
+		expect(entries(store.files.get("Debug/smart-nib-debug-2025-06-15.jsonl"))).toEqual([
+			{ timestamp: now.toISOString(), command: "review", ...exchange },
+		]);
+		vi.useRealTimers();
+	});
+});
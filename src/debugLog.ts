@@ -0,0 +1,120 @@
+import type { LLMExchange } from "./llmClient";
+import type { LLMCommand } from "./types";
+
+/**
+ * Files in a vault folder that log entries are appended to.
+ */
+export interface LogFileStore {
+	append(path: string, data: string): Promise<void>;
+	/** Paths of the files directly in the folder (empty if it does not exist) */
+	list(folder: string): Promise<string[]>;
+	remove(path: string): Promise<void>;
+}
+
+/**
+ * Where the debug log is written and how long it is kept.
+ */
+export interface DebugLogOptions {
+	folder: string;
+	retentionDays: number;
+}
+
+/**
+ * A line of the debug log: one HTTP exchange with the LLM server.
+ */
+export interface DebugLogEntry extends LLMExchange {
+	timestamp: string; // ISO, when the entry was written
+	command: LLMCommand;
+}
+
+const LOG_FILE_PATTERN = /^smart-nib-debug-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+/**
+ * Writes LLM exchanges to one JSONL file per day and deletes the files that
+ * are older than the retention period.
+ *
+ * Writes are queued so entries are never interleaved. Failures are logged
+ * and otherwise ignored: debugging must not break the command being debugged.
+ */
+export class DebugLog {
+	private store: LogFileStore;
+	private options: DebugLogOptions;
+	private now: () => Date;
+	private queue: Promise<void> = Promise.resolve();
+	/** The day the old files were last deleted, so it happens once a day */
+	private prunedOn: string | null = null;
+
+	constructor(store: LogFileStore, options: DebugLogOptions, now: () => Date = () => new Date()) {
+		this.store = store;
+		this.options = options;
+		this.now = now;
+	}
+
+	/**
+	 * Updates the folder and retention period; they apply from the next write.
+	 */
+	setOptions(options: DebugLogOptions): void {
+		if (options.folder !== this.options.folder) {
+			this.prunedOn = null;
+		}
+		this.options = options;
+	}
+
+	/**
+	 * Appends an entry for an exchange to today's log file.
+	 *
+	 * @returns A promise that resolves once the entry has been written
+	 */
+	write(command: LLMCommand, exchange: LLMExchange): Promise<void> {
+		const now = this.now();
+		const entry: DebugLogEntry = { timestamp: now.toISOString(), command, ...exchange };
+		this.queue = this.queue.then(async () => {
+			try {
+				const day = dayKey(now);
+				await this.store.append(this.filePath(day), `${JSON.stringify(entry)}\n`);
+				if (this.prunedOn !== day) {
+					this.prunedOn = day;
+					await this.prune(now);
+				}
+			} catch (error) {
+				console.warn("Failed to write the debug log:", error);
+			}
+		});
+		return this.queue;
+	}
+
+	private filePath(day: string): string {
+		const folder = this.options.folder.replace(/\/+$/, "");
+		const name = `smart-nib-debug-${day}.jsonl`;
+		return folder ? `${folder}/${name}` : name;
+	}
+
+	/**
+	 * Deletes the log files of days before the retention period.
+	 */
+	private async prune(now: Date): Promise<void> {
+		const oldestKept = dayKey(
+			new Date(
+				now.getFullYear(),
+				now.getMonth(),
+				now.getDate() - (this.options.retentionDays - 1)
+			)
+		);
+		for (const path of await this.store.list(this.options.folder)) {
+			const day = LOG_FILE_PATTERN.exec(path.split("/").pop() ?? "")?.[1];
+			if (day && day < oldestKept) {
+				await this.store.remove(path);
+			}
+		}
+	}
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in local time.
+ */
+function dayKey(date: Date): string {
+	const y = date.getFullYear();
+	const m = String(date.getMonth() + 1).padStart(2, "0");
+	const d = String(date.getDate()).padStart(2, "0");
+	return `${y}-${m}-${d}`;
+}
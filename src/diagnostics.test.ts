@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { RequestUrlResponse } from "obsidian";
+import { classifyFailure, testConnection } from "./diagnostics";
+import { LLMError, resetRequestUrlImpl, setRequestUrlImpl, type RequestUrlFn } from "./llmClient";
+import { DEFAULT_LLM_CONFIG, type LLMConfig } from "./types";
+
+const mockRequestUrl = vi.fn<RequestUrlFn>();
+
+const ollamaConfig: LLMConfig = { ...DEFAULT_LLM_CONFIG, model: "llama3.1" };
+
+const openaiConfig: LLMConfig = {
+	...DEFAULT_LLM_CONFIG,
+	provider: "openai",
+	baseUrl: "https://api.openai.com",
+	endpointPath: "/v1/chat/completions",
+	model: "gpt-5-mini",
+	apiKeyHeaderName: "Authorization",
+	apiKeyHeaderValue: "sk-test",
+};
+
+/**
+ * Clock that advances by the given step on every call.
+ */
+function steppingClock(stepMs: number): () => number {
+	let time = 0;
+	return () => {
+		time += stepMs;
+		return time;
+	};
+}
+
+function errorResponse(status: number, json: unknown): RequestUrlResponse {
+	return { status, headers: {}, json, text: JSON.stringify(json) } as RequestUrlResponse;
+}
+
+describe("testConnection", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		setRequestUrlImpl(mockRequestUrl);
+	});
+
+	afterEach(() => {
+		resetRequestUrlImpl();
+	});
+
+	it("reports the URL, status, latency and response on success", async () => {
+		mockRequestUrl.mockResolvedValueOnce({
+			status: 200,
+			json: { message: { content: "OK" } },
+		} as RequestUrlResponse);
+
+		const result = await testConnection(ollamaConfig, steppingClock(120));
+
+		expect(result).toEqual({
+			ok: true,
+			url: "http://localhost:11434/api/chat",
+			status: 200,
+			latencyMs: 120,
+			response: "OK",
+			hints: [],
+		});
+	});
+
+	it("sends a single request without retrying", async () => {
+		mockRequestUrl.mockResolvedValueOnce(errorResponse(503, { error: "overloaded" }));
+
+		const result = await testConnection(ollamaConfig);
+
+		expect(result.ok).toBe(false);
+		expect(result.status).toBe(503);
+		expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+	});
+
+	it("explains how to start Ollama when the connection is refused", async () => {
+		mockRequestUrl.mockRejectedValueOnce(new Error("net::ERR_CONNECTION_REFUSED"));
+
+		const result = await testConnection(ollamaConfig);
+
+		expect(result.failure).toBe("network");
+		expect(result.status).toBeUndefined();
+		expect(result.error).toMatch(/ERR_CONNECTION_REFUSED/);
+		expect(result.hints.join(" ")).toMatch(/ollama serve/);
+	});
+
+	it("suggests checking the base URL when a cloud server is unreachable", async () => {
+		mockRequestUrl.mockRejectedValueOnce(new Error("net::ERR_NAME_NOT_RESOLVED"));
+
+		const result = await testConnection({ ...openaiConfig, baseUrl: "https://api.opnai.com" });
+
+		expect(result.failure).toBe("network");
+		expect(result.hints[0]).toMatch(/https:\/\/api\.openai\.com/);
+	});
+
+	it("suggests a longer timeout when the server is too slow", async () => {
+		vi.useFakeTimers();
+		mockRequestUrl.mockReturnValueOnce(new Promise(() => {}));
+
+		const pending = testConnection({ ...ollamaConfig, timeoutSeconds: 3 });
+		await vi.advanceTimersByTimeAsync(3000);
+		const result = await pending;
+		vi.useRealTimers();
+
+		expect(result.failure).toBe("timeout");
+		expect(result.hints[0]).toMatch(/within 3s/);
+	});
+
+	it("names the expected API key header on auth failures", async () => {
+		mockRequestUrl.mockResolvedValueOnce(
+			errorResponse(401, { error: { message: "Incorrect API key provided" } })
+		);
+
+		const result = await testConnection(openaiConfig);
+
+		expect(result.failure).toBe("auth");
+		expect(result.status).toBe(401);
+		expect(result.hints.join(" ")).toMatch(/"Authorization" header/);
+	});
+
+	it("suggests pulling a missing Ollama model", async () => {
+		mockRequestUrl.mockResolvedValueOnce(
+			errorResponse(404, { error: 'model "llama9" not found, try pulling it first' })
+		);
+
+		const result = await testConnection({ ...ollamaConfig, model: "llama9" });
+
+		expect(result.failure).toBe("model_not_found");
+		expect(result.hints.join(" ")).toMatch(/ollama pull llama9/);
+	});
+
+	it("suggests checking the model name for cloud providers", async () => {
+		mockRequestUrl.mockResolvedValueOnce(
+			errorResponse(404, { error: { message: "The model `gpt-9` does not exist" } })
+		);
+
+		const result = await testConnection({ ...openaiConfig, model: "gpt-9" });
+
+		expect(result.failure).toBe("model_not_found");
+		expect(result.hints[0]).toMatch(/"gpt-9" for typos/);
+	});
+
+	it("points at the usual endpoint path on a plain 404", async () => {
+		mockRequestUrl.mockResolvedValueOnce({
+			status: 404,
+			headers: {},
+			get json(): unknown {
+				throw new SyntaxError("Unexpected token p");
+			},
+			text: "404 page not found",
+		} as unknown as RequestUrlResponse);
+
+		const result = await testConnection({ ...ollamaConfig, endpointPath: "/api/generate" });
+
+		expect(result.failure).toBe("wrong_endpoint");
+		expect(result.url).toBe("http://localhost:11434/api/generate");
+		expect(result.hints.join(" ")).toMatch(
+			/usual endpoint path for this provider is \/api\/chat/
+		);
+	});
+
+	it("flags a response in another provider's format", async () => {
+		mockRequestUrl.mockResolvedValueOnce({
+			status: 200,
+			json: { choices: [{ message: { content: "OK" } }] },
+		} as RequestUrlResponse);
+
+		const result = await testConnection(ollamaConfig);
+
+		expect(result.failure).toBe("response_shape");
+		expect(result.status).toBe(200);
+		expect(result.hints.join(" ")).toMatch(/provider setting/);
+	});
+
+	it("reports configuration errors without sending a request", async () => {
+		const result = await testConnection({
+			...openaiConfig,
+			provider: "azure",
+			endpointPath: "/openai/deployments/{deployment}/chat/completions",
+		});
+
+		expect(result.failure).toBe("wrong_endpoint");
+		expect(result.url).toBe("");
+		expect(result.hints).toContain("Set the deployment name.");
+		expect(mockRequestUrl).not.toHaveBeenCalled();
+	});
+});
+
+describe("classifyFailure", () => {
+	it("classifies timeouts", () => {
+		expect(classifyFailure(new LLMError("timed out", { isTimeout: true }))).toBe("timeout");
+	});
+
+	it("treats 403 as an auth failure", () => {
+		expect(classifyFailure(new LLMError("forbidden", { status: 403 }))).toBe("auth");
+	});
+
+	it("recognizes Azure's missing deployment error", () => {
+		const error = new LLMError(
+			"LLM request failed (404): DeploymentNotFound: The API deployment for this resource does not exist.",
+			{ status: 404 }
+		);
+		expect(classifyFailure(error)).toBe("model_not_found");
+	});
+
+	it("recognizes unknown models reported as 400", () => {
+		const error = new LLMError("LLM request failed (400): The model `gpt-9` does not exist", {
+			status: 400,
+		});
+		expect(classifyFailure(error)).toBe("model_not_found");
+	});
+
+	it("does not treat other 400s mentioning the model as missing models", () => {
+		const error = new LLMError(
+			"LLM request failed (400): Unsupported parameter: 'max_tokens' is not supported with this model.",
+			{ status: 400 }
+		);
+		expect(classifyFailure(error)).toBe("other");
+	});
+
+	it("treats 405 as a wrong endpoint", () => {
+		expect(classifyFailure(new LLMError("method not allowed", { status: 405 }))).toBe(
+			"wrong_endpoint"
+		);
+	});
+
+	it("classifies non-LLM errors as other", () => {
+		expect(classifyFailure(new Error("boom"))).toBe("other");
+	});
+});
@@ -0,0 +1,206 @@
+import { buildRequestUrl, callLLM, LLMError } from "./llmClient";
+import { PROVIDER_DEFAULTS } from "./profiles";
+import type { LLMConfig, LLMPrompt } from "./types";
+
+/**
+ * Why a connection test failed.
+ */
+export type ConnectionFailure =
+	| "network" // DNS failure, connection refused, server not running
+	| "timeout"
+	| "auth"
+	| "model_not_found"
+	| "wrong_endpoint" // the URL does not point at the provider's chat endpoint
+	| "response_shape" // the server answered, but not in the provider's format
+	| "other";
+
+/**
+ * The outcome of a connection test.
+ */
+export interface ConnectionTestResult {
+	ok: boolean;
+	/** The request URL resolved from the config (empty if it could not be built) */
+	url: string;
+	/** HTTP status of the last response, if the server answered */
+	status?: number;
+	latencyMs: number;
+	/** The parsed response text, on success */
+	response?: string;
+	failure?: ConnectionFailure;
+	/** The error message, on failure */
+	error?: string;
+	/** Concrete steps to fix the failure */
+	hints: string[];
+}
+
+/**
+ * Matches 400 errors that are really about an unknown model (some
+ * OpenAI-compatible servers answer 400 instead of 404).
+ */
+const MODEL_NOT_FOUND_PATTERN =
+	/model_not_found|(model|deployment)\b.*\b(not found|does not exist|not available)/i;
+
+const PROBE_PROMPT: LLMPrompt = {
+	system: "",
+	user: "Reply with the single word OK.",
+};
+
+/**
+ * Sends a tiny probe prompt through callLLM and reports what happened.
+ *
+ * The probe is not retried or answered from the cache, so the result
+ * reflects a single real request.
+ *
+ * @param config - LLM configuration to test
+ * @param now - Clock in milliseconds, injectable for tests
+ * @returns The test result; never throws
+ */
+export async function testConnection(
+	config: LLMConfig,
+	now: () => number = Date.now
+): Promise<ConnectionTestResult> {
+	let url: string;
+	try {
+		url = buildRequestUrl(config);
+	} catch (error) {
+		return {
+			ok: false,
+			url: "",
+			latencyMs: 0,
+			failure: "wrong_endpoint",
+			error: error instanceof Error ? error.message : String(error),
+			hints: endpointHints(config),
+		};
+	}
+
+	let status: number | undefined;
+	const start = now();
+	try {
+		const response = await callLLM(config, PROBE_PROMPT, {
+			retryPolicy: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, retryableStatuses: [] },
+			bypassCache: true,
+			onResponse: (info) => {
+				status = info.status;
+			},
+		});
+		return { ok: true, url, status, latencyMs: now() - start, response, hints: [] };
+	} catch (error) {
+		const failure = classifyFailure(error);
+		return {
+			ok: false,
+			url,
+			status,
+			latencyMs: now() - start,
+			failure,
+			error: error instanceof Error ? error.message : String(error),
+			hints: failureHints(config, failure),
+		};
+	}
+}
+
+/**
+ * Classifies an error from callLLM into a connection failure.
+ */
+export function classifyFailure(error: unknown): ConnectionFailure {
+	if (!(error instanceof LLMError)) {
+		return "other";
+	}
+	if (error.isTimeout) {
+		return "timeout";
+	}
+	if (error.isNetworkError) {
+		return "network";
+	}
+	if (error.status === 401 || error.status === 403) {
+		return "auth";
+	}
+	if (error.status === 404) {
+		// Ollama, OpenAI, Anthropic and Gemini name the model in their 404s, and
+		// Azure reports DeploymentNotFound; any other 404 means the path is wrong
+		return /model|deployment/i.test(error.message) ? "model_not_found" : "wrong_endpoint";
+	}
+	if (error.status === 400 && MODEL_NOT_FOUND_PATTERN.test(error.message)) {
+		return "model_not_found";
+	}
+	if (error.status === 405) {
+		return "wrong_endpoint";
+	}
+	if (error.status === undefined && error.message.startsWith("Unexpected response format")) {
+		return "response_shape";
+	}
+	return "other";
+}
+
+/**
+ * Builds fix hints for a failure, tailored to the provider.
+ */
+function failureHints(config: LLMConfig, failure: ConnectionFailure): string[] {
+	const defaults = PROVIDER_DEFAULTS[config.provider];
+	switch (failure) {
+		case "network":
+			return config.provider === "ollama"
+				? [
+						"Make sure Ollama is running (run `ollama serve` or open the Ollama app).",
+						`Check the base URL and port (Ollama listens on ${defaults.baseUrl} by default).`,
+					]
+				: [
+						`Check that the base URL is spelled correctly (expected something like ${defaults.baseUrl}).`,
+						"Check your internet connection, VPN or proxy.",
+					];
+		case "timeout":
+			return [
+				`The server did not answer within ${config.timeoutSeconds}s. Increase the timeout or use a smaller model.`,
+				"If the model is loading for the first time, wait for it to load and try again.",
+			];
+		case "auth":
+			return [
+				"Check that the API key is correct, active, and has access to this model.",
+				defaults.apiKeyHeaderName
+					? `This provider expects the key in the "${defaults.apiKeyHeaderName}" header.`
+					: "This provider does not normally need an API key; remove it if the server rejects it.",
+			];
+		case "model_not_found":
+			if (config.provider === "ollama") {
+				return [
+					`Pull the model first: \`ollama pull ${config.model}\`.`,
+					"Pick an installed model from the model list.",
+				];
+			}
+			if (config.provider === "azure") {
+				return [
+					"Check the deployment name in the Azure portal (it is not the model name).",
+				];
+			}
+			return [
+				`Check the model name "${config.model}" for typos, or pick one from the model list.`,
+			];
+		case "wrong_endpoint":
+			return endpointHints(config);
+		case "response_shape":
+			return [
+				"The server answered in a different format than the selected provider uses. Check the provider setting.",
+				"For servers with an OpenAI-compatible API (LM Studio, vLLM, llama.cpp), choose the Open AI provider.",
+				...endpointHints(config),
+			];
+		default:
+			return ["Check the error message above and the server logs."];
+	}
+}
+
+/**
+ * Hints for a URL that does not point at the provider's chat endpoint.
+ */
+function endpointHints(config: LLMConfig): string[] {
+	const defaults = PROVIDER_DEFAULTS[config.provider];
+	const hints: string[] = [];
+	if (config.endpointPath !== defaults.endpointPath) {
+		hints.push(`The usual endpoint path for this provider is ${defaults.endpointPath}.`);
+	}
+	if (config.provider === "azure" && !config.azureDeployment) {
+		hints.push("Set the deployment name.");
+	}
+	hints.push(
+		`Check that the base URL is only the server address (e.g. ${defaults.baseUrl}) and the rest of the path is in the endpoint path.`
+	);
+	return hints;
+}
@@ -147,4 +147,65 @@ describe("buildEvidencePack", () => {
 			expect(result.notes[0]!.excerpt).toContain("Actual content here");
 		});
 	});
+
+	describe("token budget", () => {
+		function note(i: number, content: string): NoteMetadata {
+			return {
+				path: `n${i}.md`,
+				title: `N${i}`,
+				mtime: new Date(Date.UTC(2025, 0, 15 - i)),
+				content,
+			};
+		}
+
+		it("leaves notes untouched when they fit", () => {
+			const notes = [note(0, "Short note"), note(1, "Another short note")];
+
+			const result = buildEvidencePack(notes, 50, 6000, 1000);
+
+			expect(result.notes.map((n) => n.excerpt)).toEqual(["Short note", "Another short note"]);
+			expect(result.tokensDropped).toBe(0);
+		});
+
+		it("truncates long notes to an equal share while keeping short ones whole", () => {
+			const notes = [note(0, "word ".repeat(400)), note(1, "Short note"), note(2, "word ".repeat(400))];
+
+			const result = buildEvidencePack(notes, 50, 6000, 400);
+
+			expect(result.notes).toHaveLength(3);
+			expect(result.notes[1]!.excerpt).toBe("Short note");
+			expect(result.notes[0]!.excerpt).toMatch(/\.\.\.$/);
+			expect(result.notes[2]!.excerpt).toMatch(/\.\.\.$/);
+			// Equal shares, give or take the word boundary
+			expect(
+				Math.abs(result.notes[0]!.excerpt.length - result.notes[2]!.excerpt.length)
+			).toBeLessThan(10);
+			expect(result.estimatedTokens).toBeLessThanOrEqual(400);
+		});
+
+		it("drops the oldest notes when the budget cannot fit them all", () => {
+			const notes = Array.from({ length: 5 }, (_, i) => note(i, "word ".repeat(200)));
+
+			const result = buildEvidencePack(notes, 50, 6000, 300);
+
+			expect(result.notes.map((n) => n.path)).toEqual(["n0.md", "n1.md"]);
+			expect(result.notesIncluded).toBe(2);
+			expect(result.totalNotesScanned).toBe(5);
+		});
+
+		it("reports the estimated tokens left out", () => {
+			const notes = [note(0, "A".repeat(4000)), note(1, "B".repeat(4000))];
+
+			const result = buildEvidencePack(notes, 1, 6000, 2000);
+
+			expect(result.estimatedTokens).toBe(1000);
+			expect(result.tokensDropped).toBe(1000);
+		});
+
+		it("includes nothing when the budget is exhausted", () => {
+			const result = buildEvidencePack([note(0, "Some content")], 50, 6000, 0);
+
+			expect(result.notes).toHaveLength(0);
+		});
+	});
 });
@@ -1,39 +1,123 @@
+import { estimateTokens } from "./tokens";
 import type { EvidenceNote, EvidencePack, NoteMetadata } from "./types";
 
+/**
+ * Estimated tokens for the heading, path and date the prompt adds to each note.
+ */
+const NOTE_HEADER_TOKENS = 20;
+
+/**
+ * Smallest excerpt worth sending; notes that can't get this much are dropped.
+ */
+const MIN_EXCERPT_TOKENS = 100;
+
 /**
  * Builds an evidence pack from a list of notes for LLM consumption.
  *
+ * When a token budget is given, the oldest notes are dropped until every
+ * remaining note can get a useful share, and the budget is then split so that
+ * short notes are kept whole while long ones are truncated to an equal share.
+ *
  * @param notes - The notes to include (already sorted by mtime desc)
  * @param maxNotes - Maximum number of notes to include
  * @param maxCharsPerNote - Maximum characters per note excerpt
+ * @param tokenBudget - Maximum estimated tokens for all notes (unlimited if omitted)
  * @returns Evidence pack with truncated excerpts
  */
 export function buildEvidencePack(
 	notes: NoteMetadata[],
 	maxNotes: number,
-	maxCharsPerNote: number
+	maxCharsPerNote: number,
+	tokenBudget?: number
 ): EvidencePack {
 	const totalNotesScanned = notes.length;
 	const limitedNotes = notes.slice(0, maxNotes);
 
-	const evidenceNotes: EvidenceNote[] = limitedNotes.map((note) => ({
+	let evidenceNotes: EvidenceNote[] = limitedNotes.map((note) => ({
 		path: note.path,
 		title: note.title,
 		modified: note.mtime.toISOString(),
 		excerpt: truncateContent(stripFrontmatter(note.content), maxCharsPerNote),
 	}));
 
+	if (tokenBudget !== undefined) {
+		evidenceNotes = fitToBudget(evidenceNotes, tokenBudget);
+	}
+
+	const fullTokens = notes.reduce(
+		(sum, note) => sum + estimateTokens(stripFrontmatter(note.content)),
+		0
+	);
+	const estimatedTokens = evidenceNotes.reduce(
+		(sum, note) => sum + estimateTokens(note.excerpt),
+		0
+	);
+
 	return {
 		notes: evidenceNotes,
 		totalNotesScanned,
 		notesIncluded: evidenceNotes.length,
+		estimatedTokens,
+		tokensDropped: Math.max(0, fullTokens - estimatedTokens),
 	};
 }
 
+/**
+ * Fits notes into a token budget, dropping the oldest notes first and then
+ * truncating the longest excerpts.
+ */
+function fitToBudget(notes: EvidenceNote[], budget: number): EvidenceNote[] {
+	const headerTokens = notes.map(
+		(note) => NOTE_HEADER_TOKENS + estimateTokens(note.title + note.path)
+	);
+	const excerptTokens = notes.map((note) => estimateTokens(note.excerpt));
+
+	// Drop the oldest notes until each remaining one can get a useful share
+	let count = notes.length;
+	const minimumFor = (n: number) =>
+		headerTokens
+			.slice(0, n)
+			.reduce(
+				(sum, tokens, i) => sum + tokens + Math.min(excerptTokens[i]!, MIN_EXCERPT_TOKENS),
+				0
+			);
+	while (count > 0 && minimumFor(count) > budget) {
+		count--;
+	}
+
+	// Split what's left equally, letting short excerpts keep their full length
+	let available = budget - headerTokens.slice(0, count).reduce((sum, tokens) => sum + tokens, 0);
+	const allocations: number[] = [];
+	const byLength = Array.from({ length: count }, (_, i) => i).sort(
+		(a, b) => excerptTokens[a]! - excerptTokens[b]!
+	);
+	byLength.forEach((index, position) => {
+		const share = Math.floor(available / (count - position));
+		const allocation = Math.min(excerptTokens[index]!, share);
+		allocations[index] = allocation;
+		available -= allocation;
+	});
+
+	return notes.slice(0, count).map((note, i) => ({
+		...note,
+		excerpt: truncateToTokens(note.excerpt, excerptTokens[i]!, allocations[i]!),
+	}));
+}
+
+/**
+ * Truncates an excerpt to roughly the given number of tokens.
+ */
+function truncateToTokens(excerpt: string, tokens: number, maxTokens: number): string {
+	if (tokens <= maxTokens) {
+		return excerpt;
+	}
+	return truncateContent(excerpt, Math.floor((excerpt.length * maxTokens) / tokens));
+}
+
 /**
  * Strips YAML frontmatter from content.
  */
-function stripFrontmatter(content: string): string {
+export function stripFrontmatter(content: string): string {
 	const frontmatterMatch = content.match(/^---\n[\s\S]*?\n---\n?/);
 	if (frontmatterMatch) {
 		return content.slice(frontmatterMatch[0].length).trim();
@@ -44,7 +128,7 @@ function stripFrontmatter(content: string): string {
 /**
  * Truncates content to a maximum length, preserving word boundaries.
  */
-function truncateContent(content: string, maxChars: number): string {
+export function truncateContent(content: string, maxChars: number): string {
 	if (content.length <= maxChars) {
 		return content;
 	}
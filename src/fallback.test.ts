@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from "vitest";
+import { callWithFallback, shouldFallback } from "./fallback";
+import { LLMCancelledError, LLMError } from "./llmClient";
+import { DEFAULT_LLM_CONFIG, type LLMConfig } from "./types";
+
+const primary: LLMConfig = { ...DEFAULT_LLM_CONFIG, model: "llama3.1" };
+const secondary: LLMConfig = {
+	...DEFAULT_LLM_CONFIG,
+	provider: "openai",
+	model: "gpt-5-mini",
+};
+const tertiary: LLMConfig = { ...DEFAULT_LLM_CONFIG, provider: "anthropic", model: "claude" };
+
+const STATUSES = [429, 500, 502, 503, 504];
+
+describe("shouldFallback", () => {
+	it("falls back on network errors", () => {
+		expect(shouldFallback(new LLMError("down", { isNetworkError: true }), STATUSES)).toBe(true);
+	});
+
+	it("falls back on timeouts", () => {
+		expect(shouldFallback(new LLMError("slow", { isTimeout: true }), STATUSES)).toBe(true);
+	});
+
+	it("does not fall back when the request was cancelled", () => {
+		expect(shouldFallback(new LLMCancelledError(), STATUSES)).toBe(false);
+	});
+
+	it("falls back on configured HTTP statuses", () => {
+		expect(shouldFallback(new LLMError("busy", { status: 429 }), STATUSES)).toBe(true);
+		expect(shouldFallback(new LLMError("oops", { status: 503 }), STATUSES)).toBe(true);
+	});
+
+	it("does not fall back on other HTTP statuses", () => {
+		expect(shouldFallback(new LLMError("bad", { status: 400 }), STATUSES)).toBe(false);
+		expect(shouldFallback(new LLMError("busy", { status: 429 }), [])).toBe(false);
+	});
+
+	it("does not fall back on parse errors or non-LLM errors", () => {
+		expect(shouldFallback(new LLMError("Unexpected response format"), STATUSES)).toBe(false);
+		expect(shouldFallback(new Error("boom"), STATUSES)).toBe(false);
+	});
+});
+
+describe("callWithFallback", () => {
+	it("returns the primary result when it succeeds", async () => {
+		const call = vi.fn().mockResolvedValueOnce("primary answer");
+
+		const answer = await callWithFallback([primary, secondary], STATUSES, call);
+
+		expect(answer.result).toBe("primary answer");
+		expect(answer.config).toBe(primary);
+		expect(answer.skipped).toEqual([]);
+		expect(call).toHaveBeenCalledTimes(1);
+	});
+
+	it("moves to the next config on a network error", async () => {
+		const call = vi
+			.fn()
+			.mockRejectedValueOnce(
+				new LLMError("Network error after retry", { isNetworkError: true })
+			)
+			.mockResolvedValueOnce("secondary answer");
+
+		const answer = await callWithFallback([primary, secondary], STATUSES, call);
+
+		expect(answer.result).toBe("secondary answer");
+		expect(answer.config).toBe(secondary);
+		expect(answer.skipped).toHaveLength(1);
+		expect(call).toHaveBeenNthCalledWith(2, secondary);
+	});
+
+	it("walks the whole chain in order", async () => {
+		const call = vi
+			.fn()
+			.mockRejectedValueOnce(new LLMError("busy", { status: 429 }))
+			.mockRejectedValueOnce(new LLMError("down", { status: 503 }))
+			.mockResolvedValueOnce("third answer");
+
+		const answer = await callWithFallback([primary, secondary, tertiary], STATUSES, call);
+
+		expect(answer.config).toBe(tertiary);
+		expect(answer.skipped.map((e) => e.status)).toEqual([429, 503]);
+	});
+
+	it("rethrows errors that should not fall back", async () => {
+		const call = vi.fn().mockRejectedValueOnce(new LLMError("bad request", { status: 400 }));
+
+		await expect(callWithFallback([primary, secondary], STATUSES, call)).rejects.toThrow(
+			/bad request/
+		);
+		expect(call).toHaveBeenCalledTimes(1);
+	});
+
+	it("throws the last error when every config fails", async () => {
+		const call = vi
+			.fn()
+			.mockRejectedValueOnce(new LLMError("first", { isNetworkError: true }))
+			.mockRejectedValueOnce(new LLMError("second", { isNetworkError: true }));
+
+		await expect(callWithFallback([primary, secondary], STATUSES, call)).rejects.toThrow(
+			/second/
+		);
+	});
+
+	it("throws when no configs are given", async () => {
+		await expect(callWithFallback([], STATUSES, vi.fn())).rejects.toThrow(LLMError);
+	});
+});
@@ -0,0 +1,68 @@
+import { LLMCancelledError, LLMError } from "./llmClient";
+import type { LLMConfig } from "./types";
+
+/**
+ * The outcome of a call made through a fallback chain.
+ */
+export interface FallbackResult<C extends LLMConfig, T> {
+	result: T;
+	/** The config that actually answered */
+	config: C;
+	/** Errors from the configs that were tried and skipped, in order */
+	skipped: LLMError[];
+}
+
+/**
+ * Decides whether an error should move the call on to the next config.
+ *
+ * Network errors and timeouts always fall back; HTTP errors fall back only
+ * for the configured statuses. Cancellation stops the whole chain. Everything
+ * else (bad requests, parse errors) is considered a problem with the request
+ * itself and is rethrown.
+ */
+export function shouldFallback(error: unknown, fallbackStatuses: number[]): boolean {
+	if (!(error instanceof LLMError) || error instanceof LLMCancelledError) {
+		return false;
+	}
+	if (error.isNetworkError || error.isTimeout) {
+		return true;
+	}
+	return error.status !== undefined && fallbackStatuses.includes(error.status);
+}
+
+/**
+ * Runs a call against each config in order until one succeeds.
+ *
+ * @param configs - Ordered list of configs to try (primary first)
+ * @param fallbackStatuses - HTTP statuses that move on to the next config
+ * @param call - The call to make with each config
+ * @returns The first successful result and the config that produced it
+ * @throws The last error if every config fails, or the first non-fallback error
+ */
+export async function callWithFallback<C extends LLMConfig, T>(
+	configs: C[],
+	fallbackStatuses: number[],
+	call: (config: C) => Promise<T>
+): Promise<FallbackResult<C, T>> {
+	if (configs.length === 0) {
+		throw new LLMError("No model configured");
+	}
+
+	const skipped: LLMError[] = [];
+	for (let i = 0; i < configs.length; i++) {
+		const config = configs[i]!;
+		try {
+			const result = await call(config);
+			return { result, config, skipped };
+		} catch (error) {
+			const isLast = i === configs.length - 1;
+			if (isLast || !shouldFallback(error, fallbackStatuses)) {
+				throw error;
+			}
+			skipped.push(error as LLMError);
+		}
+	}
+
+	// Unreachable: the loop either returns or throws on the last config
+	throw new LLMError("No model configured");
+}
@@ -29,6 +29,14 @@ describe("resolveFilename", () => {
 
 			expect(result).toBe("Weekly Reviews/2025-01-15 Weekly Review.md");
 		});
+
+		it("uses the given title after the date", () => {
+			const date = new Date("2025-01-15T12:00:00Z");
+
+			const result = resolveFilename("Answers", date, [], "UTC", "When is the launch");
+
+			expect(result).toBe("Answers/2025-01-15 When is the launch.md");
+		});
 	});
 
 	describe("collision handling", () => {
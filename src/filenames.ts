@@ -1,16 +1,18 @@
 /**
- * Resolves a collision-safe filename for a review note.
+ * Resolves a collision-safe filename for a generated note.
  *
  * @param outputFolder - The folder to create the file in
  * @param date - The date to use for the filename (local)
  * @param existingFiles - List of existing file paths in the vault
+ * @param title - Text after the date in the filename
  * @returns The full path for the new file
  */
 export function resolveFilename(
 	outputFolder: string,
 	date: Date,
 	existingFiles: string[],
-	timezone: string
+	timezone: string,
+	title = "Weekly Review"
 ): string {
 	// Format date as YYYY-MM-DD in the local timezone
 	const formatter = new Intl.DateTimeFormat("en-CA", {
@@ -25,7 +27,7 @@ export function resolveFilename(
 	const folder = outputFolder.replace(/\/$/, "");
 
 	// Base filename without extension
-	const baseName = `${dateStr} Weekly Review`;
+	const baseName = `${dateStr} ${title}`;
 
 	// Build the set of existing filenames in this folder for quick lookup
 	const existingSet = new Set(existingFiles);
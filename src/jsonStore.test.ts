@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from "vitest";
+import { JsonStore, type JsonCodec } from "./jsonStore";
+import { failingStore, memoryStore, slowFirstSaveStore } from "./testUtils";
+
+/**
+ * Stores a list of strings in a versioned object.
+ */
+const listCodec: JsonCodec<string[]> = {
+	empty: () => [],
+	serialize: (items) => ({ version: 1, items }),
+	deserialize: (json) => {
+		const data = json as { version?: number; items?: string[] };
+		return data.version === 1 && data.items ? data.items : null;
+	},
+};
+
+function listStore(data: string | null = null) {
+	const store = memoryStore(data);
+	return { store, list: new JsonStore(store, "the list", listCodec) };
+}
+
+describe("JsonStore", () => {
+	it("loads the stored data on first use", async () => {
+		const { store, list } = listStore('{"version":1,"items":["a"]}');
+		const load = vi.spyOn(store, "load");
+
+		expect(await list.run((items) => [...items])).toEqual(["a"]);
+		expect(await list.run((items) => items.length)).toBe(1);
+		expect(load).toHaveBeenCalledTimes(1);
+	});
+
+	it("starts empty from missing, unreadable or rejected data", async () => {
+		for (const data of [null, "{not json", '{"version":2,"items":["a"]}']) {
+			const { list } = listStore(data);
+
+			expect(await list.run((items) => items)).toEqual([]);
+		}
+	});
+
+	it("saves the data as JSON", async () => {
+		const { store, list } = listStore();
+
+		await list.run(async (items) => {
+			items.push("a");
+			await list.save(items);
+		});
+
+		expect(store.data).toBe('{"version":1,"items":["a"]}');
+	});
+
+	it("saves in the order tasks were queued", async () => {
+		const store = slowFirstSaveStore();
+		const list = new JsonStore(store, "the list", listCodec);
+		const add = (item: string) =>
+			list.run(async (items) => {
+				items.push(item);
+				await list.save(items);
+			});
+
+		await Promise.all([add("a"), add("b")]);
+
+		expect(store.data).toBe('{"version":1,"items":["a","b"]}');
+	});
+
+	it("reads the data without waiting for queued tasks", async () => {
+		const { list } = listStore('{"version":1,"items":["a"]}');
+		let finish = () => {};
+		const finished = new Promise<void>((resolve) => (finish = resolve));
+		const task = list.run(() => finished);
+
+		expect(await list.read()).toEqual(["a"]);
+		finish();
+		await task;
+	});
+
+	it("runs the next tasks after one fails", async () => {
+		const { list } = listStore();
+
+		await expect(
+			list.run(() => {
+				throw new Error("Task failed");
+			})
+		).rejects.toThrow("Task failed");
+
+		expect(await list.run((items) => items)).toEqual([]);
+	});
+
+	it("does not save data that was replaced", async () => {
+		const { store, list } = listStore();
+
+		await list.run(async (items) => {
+			list.replace(["b"]);
+			await list.save(items);
+		});
+
+		expect(store.data).toBeNull();
+		expect(await list.run((items) => items)).toEqual(["b"]);
+	});
+
+	it("clears the data and the stored file", async () => {
+		const { store, list } = listStore('{"version":1,"items":["a"]}');
+
+		await list.clear();
+
+		expect(store.data).toBeNull();
+		expect(await list.run((items) => items)).toEqual([]);
+	});
+
+	it("keeps working in memory when the store fails", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const list = new JsonStore(failingStore(), "the list", listCodec);
+
+		await list.run(async (items) => {
+			items.push("a");
+			await list.save(items);
+		});
+
+		expect(await list.run((items) => items)).toEqual(["a"]);
+		await list.clear();
+		expect(warn.mock.calls).toEqual([
+			["Failed to load the list:", expect.any(Error)],
+			["Failed to save the list:", expect.any(Error)],
+			["Failed to remove the list:", expect.any(Error)],
+		]);
+		warn.mockRestore();
+	});
+});
@@ -0,0 +1,117 @@
+import type { FileStore } from "./types";
+
+/**
+ * How the data of a JsonStore is converted to and from JSON.
+ */
+export interface JsonCodec<T> {
+	/** Data to start with when nothing usable is stored */
+	empty(): T;
+	serialize(data: T): unknown;
+	/** Reads parsed JSON, or returns null to start empty (e.g. for an unknown version) */
+	deserialize(json: unknown): T | null;
+}
+
+/**
+ * Data kept in a file store as JSON.
+ *
+ * The data is loaded on first use; missing or unreadable data starts empty.
+ * Tasks run one at a time in the order they were queued, so saves never
+ * overtake each other, and a failed task does not stop the ones after it.
+ * Storage failures are logged and otherwise ignored: the data keeps working
+ * in memory.
+ */
+export class JsonStore<T> {
+	private store: FileStore;
+	private name: string;
+	private codec: JsonCodec<T>;
+	private data: Promise<T> | null = null;
+	private queue: Promise<unknown> = Promise.resolve();
+
+	/**
+	 * @param name - What the data is, for log messages (e.g. "the usage ledger")
+	 */
+	constructor(store: FileStore, name: string, codec: JsonCodec<T>) {
+		this.store = store;
+		this.name = name;
+		this.codec = codec;
+	}
+
+	/**
+	 * Runs a task on the data once the tasks queued before it have finished.
+	 */
+	run<R>(task: (data: T) => R | Promise<R>): Promise<R> {
+		const result = this.queue.then(async () => task(await this.load()));
+		this.queue = result.catch(() => {});
+		return result;
+	}
+
+	/**
+	 * Returns the data without waiting for queued tasks, so reads are not held
+	 * up by long updates. The data may be in the middle of a task's changes.
+	 */
+	read(): Promise<T> {
+		return this.load();
+	}
+
+	/**
+	 * Saves the data, unless it has been replaced since it was read. Call it
+	 * from a task so saves stay in order.
+	 */
+	async save(data: T): Promise<void> {
+		if (data !== (await this.data)) {
+			return;
+		}
+		try {
+			await this.store.save(JSON.stringify(this.codec.serialize(data)));
+		} catch (error) {
+			console.warn(`Failed to save ${this.name}:`, error);
+		}
+	}
+
+	/**
+	 * Replaces the data right away, without waiting for queued tasks. Tasks
+	 * still working on the old data can no longer save it.
+	 */
+	replace(data: T): void {
+		this.data = Promise.resolve(data);
+	}
+
+	/**
+	 * Empties the data and removes the stored file.
+	 */
+	clear(): Promise<void> {
+		return this.run(async () => {
+			this.replace(this.codec.empty());
+			try {
+				await this.store.remove();
+			} catch (error) {
+				console.warn(`Failed to remove ${this.name}:`, error);
+			}
+		});
+	}
+
+	private load(): Promise<T> {
+		this.data ??= this.store.load().then(
+			(text) => this.parse(text),
+			(error: unknown) => {
+				console.warn(`Failed to load ${this.name}:`, error);
+				return this.codec.empty();
+			}
+		);
+		return this.data;
+	}
+
+	private parse(text: string | null): T {
+		if (text) {
+			try {
+				const data = this.codec.deserialize(JSON.parse(text));
+				if (data !== null) {
+					return data;
+				}
+			} catch {
+				// Unreadable data - start empty
+			}
+		}
+		return this.codec.empty();
+	}
+}
@@ -1,11 +1,38 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import type { LLMConfig } from "./types";
-import { buildRequestBody, callLLM, LLMError, parseResponseContent, setRequestUrlImpl, resetRequestUrlImpl, type RequestUrlFn } from "./llmClient";
+import type { LLMConfig, LLMPrompt, RetryPolicy, ToolDefinition } from "./types";
+import { buildRequestBody, buildRequestUrl, callLLM, callLLMWithTools, embedTexts, LLMCancelledError, LLMError, listModels, parseErrorMessage, parseExtraRequestJson, parseResponseContent, parseStreamLine, parseStreamThinking, parseStreamUsage, parseUsage, redactHeaders, redactUrl, resetFetchImpl, resetSleepImpl, setFetchImpl, setRequestUrlImpl, setSleepImpl, resetRequestUrlImpl, setResponseCache, streamLLM, supportsToolCalling, type CallUsage, type LLMExchange, type RequestUrlFn, type SleepFn } from "./llmClient";
 import type { RequestUrlParam, RequestUrlResponse } from "obsidian";
+import { ResponseCache } from "./cache";
+import type { FetchFn } from "./streamingFetch";
+import { memoryStore } from "./testUtils";
+
+const testPrompt: LLMPrompt = { system: "You are a test assistant.", user: "Test prompt" };
 
 // Mock requestUrl function
 const mockRequestUrl = vi.fn<RequestUrlFn>();
 
+// Mock sleep function (retry delays resolve immediately)
+const mockSleep = vi.fn<SleepFn>(async () => {});
+
+// Mock fetch function (streaming)
+const mockFetch = vi.fn<FetchFn>();
+
+/**
+ * Builds a streaming Response that emits the given chunks in order.
+ */
+function streamingResponse(chunks: string[], contentType: string): Response {
+	const encoder = new TextEncoder();
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(encoder.encode(chunk));
+			}
+			controller.close();
+		},
+	});
+	return new Response(body, { status: 200, headers: { "Content-Type": contentType } });
+}
+
 describe("callLLM", () => {
 	const baseConfig: LLMConfig = {
 		provider: "ollama",
@@ -15,15 +42,18 @@ describe("callLLM", () => {
 		temperature: 0.2,
 		maxTokens: 1000,
 		timeoutSeconds: 60,
+		stream: false,
 	};
 
 	beforeEach(() => {
 		vi.clearAllMocks();
 		setRequestUrlImpl(mockRequestUrl);
+		setSleepImpl(mockSleep);
 	});
 
 	afterEach(() => {
 		resetRequestUrlImpl();
+		resetSleepImpl();
 	});
 
 	describe("successful requests", () => {
@@ -38,7 +68,7 @@ describe("callLLM", () => {
 				json: mockResponse,
 			} as RequestUrlResponse);
 
-			const result = await callLLM(baseConfig, "Test prompt");
+			const result = await callLLM(baseConfig, testPrompt);
 
 			expect(result).toBe("## Weekly summary\nThis was a productive week.");
 		});
@@ -49,7 +79,7 @@ describe("callLLM", () => {
 				json: { message: { content: "Response" } },
 			} as RequestUrlResponse);
 
-			await callLLM(baseConfig, "Test prompt");
+			await callLLM(baseConfig, testPrompt);
 
 			expect(mockRequestUrl).toHaveBeenCalledWith(
 				expect.objectContaining({
@@ -84,7 +114,7 @@ describe("callLLM", () => {
 				json: { message: { content: "Response" } },
 			} as RequestUrlResponse);
 
-			await callLLM(configWithApiKey, "Test prompt");
+			await callLLM(configWithApiKey, testPrompt);
 
 			expect(mockRequestUrl).toHaveBeenCalledWith(
 				expect.objectContaining({
@@ -105,13 +135,27 @@ describe("callLLM", () => {
 				text: "",
 			} as unknown as RequestUrlResponse);
 
-			await expect(callLLM(baseConfig, "Test prompt")).rejects.toThrow(LLMError);
+			await expect(callLLM(baseConfig, testPrompt)).rejects.toThrow(LLMError);
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 500,
+				json: {},
+				text: "",
+			} as unknown as RequestUrlResponse);
+			await expect(callLLM(baseConfig, testPrompt)).rejects.toThrow(/500/);
+		});
+
+		it("records the HTTP status on the error", async () => {
 			mockRequestUrl.mockResolvedValueOnce({
 				status: 500,
 				json: {},
 				text: "",
 			} as unknown as RequestUrlResponse);
-			await expect(callLLM(baseConfig, "Test prompt")).rejects.toThrow(/500/);
+
+			const error = await callLLM(baseConfig, testPrompt).catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(LLMError);
+			expect((error as LLMError).status).toBe(500);
+			expect((error as LLMError).isNetworkError).toBe(false);
 		});
 
 		it("includes response body in error message for HTTP errors", async () => {
@@ -121,7 +165,7 @@ describe("callLLM", () => {
 				text: '{"error":{"message":"The model `llama3.1` does not exist"}}',
 			} as unknown as RequestUrlResponse);
 
-			await expect(callLLM(baseConfig, "Test prompt")).rejects.toThrow(
+			await expect(callLLM(baseConfig, testPrompt)).rejects.toThrow(
 				/The model `llama3.1` does not exist/
 			);
 		});
@@ -132,12 +176,12 @@ describe("callLLM", () => {
 				json: { unexpected: "format" },
 			} as RequestUrlResponse);
 
-			await expect(callLLM(baseConfig, "Test prompt")).rejects.toThrow(LLMError);
+			await expect(callLLM(baseConfig, testPrompt)).rejects.toThrow(LLMError);
 			mockRequestUrl.mockResolvedValueOnce({
 				status: 200,
 				json: { unexpected: "format" },
 			} as RequestUrlResponse);
-			await expect(callLLM(baseConfig, "Test prompt")).rejects.toThrow(/unexpected response/i);
+			await expect(callLLM(baseConfig, testPrompt)).rejects.toThrow(/unexpected response/i);
 		});
 	});
 
@@ -152,6 +196,7 @@ describe("callLLM", () => {
 			temperature: 0.5,
 			maxTokens: 2000,
 			timeoutSeconds: 60,
+			stream: false,
 		};
 
 		it("sends OpenAI request body format", async () => {
@@ -160,13 +205,13 @@ describe("callLLM", () => {
 				json: { choices: [{ message: { content: "Response" } }] },
 			} as RequestUrlResponse);
 
-			await callLLM(openaiConfig, "Test prompt");
+			await callLLM(openaiConfig, testPrompt);
 
 			const calls = mockRequestUrl.mock.calls as [RequestUrlParam][];
 			const callArgs = calls[0]![0];
 			const body = JSON.parse(callArgs.body as string) as Record<string, unknown>;
 			expect(body.max_completion_tokens).toBe(2000);
-			expect(body).not.toHaveProperty("temperature");
+			expect(body.temperature).toBe(0.5);
 			expect(body).not.toHaveProperty("max_tokens");
 			expect(body).not.toHaveProperty("options");
 			expect(body.stream).toBe(false);
@@ -178,7 +223,7 @@ describe("callLLM", () => {
 				json: { choices: [{ message: { content: "OpenAI response" } }] },
 			} as RequestUrlResponse);
 
-			const result = await callLLM(openaiConfig, "Test prompt");
+			const result = await callLLM(openaiConfig, testPrompt);
 
 			expect(result).toBe("OpenAI response");
 		});
@@ -193,7 +238,7 @@ describe("callLLM", () => {
 				json: { choices: [{ message: { content: "Response" } }] },
 			} as RequestUrlResponse);
 
-			await callLLM(configWithRawKey, "Test prompt");
+			await callLLM(configWithRawKey, testPrompt);
 
 			expect(mockRequestUrl).toHaveBeenCalledWith(
 				expect.objectContaining({
@@ -211,7 +256,7 @@ describe("callLLM", () => {
 				json: { choices: [{ message: { content: "Response" } }] },
 			} as RequestUrlResponse);
 
-			await callLLM(openaiConfig, "Test prompt");
+			await callLLM(openaiConfig, testPrompt);
 
 			expect(mockRequestUrl).toHaveBeenCalledWith(
 				expect.objectContaining({
@@ -229,30 +274,582 @@ describe("callLLM", () => {
 				json: { message: { content: "wrong format" } },
 			} as RequestUrlResponse);
 
-			await expect(callLLM(openaiConfig, "Test prompt")).rejects.toThrow(
+			await expect(callLLM(openaiConfig, testPrompt)).rejects.toThrow(
 				/choices\[0\]\.message\.content/
 			);
 		});
 	});
 
+	describe("Anthropic provider", () => {
+		const anthropicConfig: LLMConfig = {
+			provider: "anthropic",
+			baseUrl: "https://api.anthropic.com",
+			endpointPath: "/v1/messages",
+			model: "claude-sonnet-4-5",
+			apiKeyHeaderName: "x-api-key",
+			apiKeyHeaderValue: "sk-ant-test",
+			temperature: 0.3,
+			maxTokens: 1500,
+			timeoutSeconds: 60,
+			stream: false,
+		};
+
+		it("sends Messages API request body format", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { content: [{ type: "text", text: "Response" }] },
+			} as RequestUrlResponse);
+
+			await callLLM(anthropicConfig, testPrompt);
+
+			const calls = mockRequestUrl.mock.calls as [RequestUrlParam][];
+			const callArgs = calls[0]![0];
+			expect(callArgs.url).toBe("https://api.anthropic.com/v1/messages");
+			const body = JSON.parse(callArgs.body as string) as Record<string, unknown>;
+			expect(body.model).toBe("claude-sonnet-4-5");
+			expect(body.max_tokens).toBe(1500);
+			expect(body.temperature).toBe(0.3);
+			expect(body.system).toBe("You are a test assistant.");
+			expect(body.messages).toEqual([{ role: "user", content: "Test prompt" }]);
+			expect(body).not.toHaveProperty("options");
+			expect(body).not.toHaveProperty("max_completion_tokens");
+		});
+
+		it("sends x-api-key and anthropic-version headers", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { content: [{ type: "text", text: "Response" }] },
+			} as RequestUrlResponse);
+
+			await callLLM(anthropicConfig, testPrompt);
+
+			expect(mockRequestUrl).toHaveBeenCalledWith(
+				expect.objectContaining({
+					// eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+					headers: expect.objectContaining({
+						"x-api-key": "sk-ant-test",
+						"anthropic-version": "2023-06-01",
+					}),
+				})
+			);
+		});
+
+		it("joins text content blocks in the response", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: {
+					content: [
+						{ type: "text", text: "Part one. " },
+						{ type: "tool_use", id: "x" },
+						{ type: "text", text: "Part two." },
+					],
+				},
+			} as RequestUrlResponse);
+
+			const result = await callLLM(anthropicConfig, testPrompt);
+
+			expect(result).toBe("Part one. Part two.");
+		});
+
+		it("surfaces Anthropic error messages", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 401,
+				json: { type: "error", error: { type: "authentication_error", message: "invalid x-api-key" } },
+				text: "",
+			} as unknown as RequestUrlResponse);
+
+			await expect(callLLM(anthropicConfig, testPrompt)).rejects.toThrow(/401.*invalid x-api-key/);
+		});
+	});
+
+	describe("Gemini provider", () => {
+		const geminiConfig: LLMConfig = {
+			provider: "gemini",
+			baseUrl: "https://generativelanguage.googleapis.com",
+			endpointPath: "/v1beta/models/{model}:generateContent",
+			model: "gemini-2.5-flash",
+			apiKeyHeaderName: "x-goog-api-key",
+			apiKeyHeaderValue: "goog-key",
+			temperature: 0.4,
+			maxTokens: 800,
+			timeoutSeconds: 60,
+			stream: false,
+		};
+
+		it("sends generateContent request body format", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { candidates: [{ content: { parts: [{ text: "Response" }] } }] },
+			} as RequestUrlResponse);
+
+			await callLLM(geminiConfig, testPrompt);
+
+			const calls = mockRequestUrl.mock.calls as [RequestUrlParam][];
+			const callArgs = calls[0]![0];
+			expect(callArgs.url).toBe(
+				"https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent"
+			);
+			const body = JSON.parse(callArgs.body as string) as Record<string, unknown>;
+			expect(body.systemInstruction).toEqual({ parts: [{ text: "You are a test assistant." }] });
+			expect(body.contents).toEqual([{ role: "user", parts: [{ text: "Test prompt" }] }]);
+			expect(body.generationConfig).toEqual({ temperature: 0.4, maxOutputTokens: 800 });
+			expect(body).not.toHaveProperty("model");
+			expect(body).not.toHaveProperty("messages");
+			expect(body).not.toHaveProperty("stream");
+		});
+
+		it("sends the API key in the x-goog-api-key header", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { candidates: [{ content: { parts: [{ text: "Response" }] } }] },
+			} as RequestUrlResponse);
+
+			await callLLM(geminiConfig, testPrompt);
+
+			expect(mockRequestUrl).toHaveBeenCalledWith(
+				expect.objectContaining({
+					// eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+					headers: expect.objectContaining({ "x-goog-api-key": "goog-key" }),
+				})
+			);
+		});
+
+		it("joins the parts of the first candidate", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { candidates: [{ content: { parts: [{ text: "Gem" }, { text: "ini" }] } }] },
+			} as RequestUrlResponse);
+
+			const result = await callLLM(geminiConfig, testPrompt);
+
+			expect(result).toBe("Gemini");
+		});
+
+		it("reports a blocked prompt", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { promptFeedback: { blockReason: "SAFETY" } },
+			} as RequestUrlResponse);
+
+			await expect(callLLM(geminiConfig, testPrompt)).rejects.toThrow(/blocked.*SAFETY/);
+		});
+	});
+
+	describe("Azure OpenAI provider", () => {
+		const azureConfig: LLMConfig = {
+			provider: "azure",
+			baseUrl: "https://contoso.openai.azure.com",
+			endpointPath: "/openai/deployments/{deployment}/chat/completions",
+			model: "gpt-4o",
+			apiKeyHeaderName: "api-key",
+			apiKeyHeaderValue: "azure-key",
+			temperature: 0.2,
+			maxTokens: 1000,
+			timeoutSeconds: 60,
+			stream: false,
+			azureDeployment: "review-gpt",
+			azureApiVersion: "2024-10-21",
+		};
+
+		it("builds the deployment URL with the api-version query parameter", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { choices: [{ message: { content: "Response" } }] },
+			} as RequestUrlResponse);
+
+			const result = await callLLM(azureConfig, testPrompt);
+
+			expect(result).toBe("Response");
+			expect(mockRequestUrl).toHaveBeenCalledWith(
+				expect.objectContaining({
+					url: "https://contoso.openai.azure.com/openai/deployments/review-gpt/chat/completions?api-version=2024-10-21",
+				})
+			);
+		});
+
+		it("sends the key in the api-key header without a Bearer prefix", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { choices: [{ message: { content: "Response" } }] },
+			} as RequestUrlResponse);
+
+			await callLLM(azureConfig, testPrompt);
+
+			const calls = mockRequestUrl.mock.calls as [RequestUrlParam][];
+			const headers = calls[0]![0].headers!;
+			expect(headers["api-key"]).toBe("azure-key");
+			expect(headers).not.toHaveProperty("Authorization");
+		});
+
+		it("uses the default api-version when none is configured", () => {
+			const url = buildRequestUrl({ ...azureConfig, azureApiVersion: undefined });
+			expect(url).toMatch(/\?api-version=\d{4}-\d{2}-\d{2}$/);
+		});
+
+		it("throws when the deployment name is missing", async () => {
+			await expect(
+				callLLM({ ...azureConfig, azureDeployment: undefined }, testPrompt)
+			).rejects.toThrow(/deployment name/);
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+
+		it("reports content filter errors with the flagged categories", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 400,
+				json: {
+					error: {
+						message: "The response was filtered due to the prompt triggering content management policy.",
+						code: "content_filter",
+						innererror: {
+							code: "ResponsibleAIPolicyViolation",
+							content_filter_result: {
+								hate: { filtered: true, severity: "medium" },
+								violence: { filtered: false, severity: "safe" },
+							},
+						},
+					},
+				},
+				text: "",
+			} as unknown as RequestUrlResponse);
+
+			await expect(callLLM(azureConfig, testPrompt)).rejects.toThrow(
+				/400.*Azure content filter \(hate: medium\)/
+			);
+		});
+
+		it("reports a response stopped by the content filter", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: {
+					choices: [
+						{
+							message: { content: null },
+							finish_reason: "content_filter",
+							content_filter_results: { self_harm: { filtered: true, severity: "high" } },
+						},
+					],
+				},
+			} as RequestUrlResponse);
+
+			await expect(callLLM(azureConfig, testPrompt)).rejects.toThrow(
+				/content filter \(self_harm: high\)/
+			);
+		});
+	});
+
+	describe("parseErrorMessage", () => {
+		it("uses error.message for OpenAI-style errors", () => {
+			expect(parseErrorMessage("openai", { error: { message: "bad" } }, "raw")).toBe("bad");
+		});
+
+		it("falls back to the raw text", () => {
+			expect(parseErrorMessage("ollama", null, "raw body")).toBe("raw body");
+		});
+
+		it("prefixes Azure errors with their code", () => {
+			expect(
+				parseErrorMessage(
+					"azure",
+					{ error: { code: "DeploymentNotFound", message: "The deployment does not exist." } },
+					""
+				)
+			).toBe("DeploymentNotFound: The deployment does not exist.");
+		});
+
+		it("reads top-level messages from Azure gateway errors", () => {
+			expect(parseErrorMessage("azure", { statusCode: 401, message: "Unauthorized" }, "")).toBe(
+				"Unauthorized"
+			);
+		});
+	});
+
+	describe("buildRequestUrl", () => {
+		const geminiConfig: LLMConfig = {
+			...baseConfig,
+			provider: "gemini",
+			baseUrl: "https://generativelanguage.googleapis.com",
+			endpointPath: "/v1beta/models/{model}:generateContent",
+			model: "gemini-2.5-flash",
+		};
+
+		it("concatenates base URL and endpoint path", () => {
+			expect(buildRequestUrl(baseConfig)).toBe("http://localhost:11434/api/chat");
+		});
+
+		it("passes the Gemini API key as a query parameter when no header is set", () => {
+			const url = buildRequestUrl({ ...geminiConfig, apiKeyHeaderValue: "a b" });
+			expect(url).toBe(
+				"https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=a%20b"
+			);
+		});
+
+		it("does not add the key to the query when a header is configured", () => {
+			const url = buildRequestUrl({
+				...geminiConfig,
+				apiKeyHeaderName: "x-goog-api-key",
+				apiKeyHeaderValue: "k",
+			});
+			expect(url).not.toContain("key=");
+		});
+
+		it("uses the Gemini SSE streaming endpoint when streaming", () => {
+			expect(buildRequestUrl(geminiConfig, true)).toBe(
+				"https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse"
+			);
+		});
+	});
+
 	describe("buildRequestBody", () => {
 		it("builds Ollama format with options", () => {
-			const body = buildRequestBody(baseConfig, "hello");
+			const body = buildRequestBody(baseConfig, testPrompt);
 			const options = body.options as Record<string, unknown>;
 			expect(options.temperature).toBe(0.2);
 			expect(options.num_predict).toBe(1000);
+			expect(options.num_ctx).toBe(8192);
 			expect(body).not.toHaveProperty("temperature");
 			expect(body).not.toHaveProperty("max_tokens");
 		});
 
-		it("builds OpenAI format without temperature", () => {
+		it("sets Ollama's num_ctx from the configured context window", () => {
+			const body = buildRequestBody({ ...baseConfig, contextWindow: 32768 }, testPrompt);
+			expect((body.options as Record<string, unknown>).num_ctx).toBe(32768);
+		});
+
+		it("builds OpenAI format with max_completion_tokens", () => {
 			const openaiConfig: LLMConfig = { ...baseConfig, provider: "openai" };
-			const body = buildRequestBody(openaiConfig, "hello");
+			const body = buildRequestBody(openaiConfig, testPrompt);
 			expect(body.max_completion_tokens).toBe(1000);
-			expect(body).not.toHaveProperty("temperature");
+			expect(body.temperature).toBe(0.2);
 			expect(body).not.toHaveProperty("max_tokens");
 			expect(body).not.toHaveProperty("options");
 		});
+
+		describe("sampling options", () => {
+			const sampling: Partial<LLMConfig> = {
+				topP: 0.9,
+				frequencyPenalty: 0.5,
+				seed: 42,
+				stopSequences: ["###"],
+			};
+			const body = (config: Partial<LLMConfig>) =>
+				buildRequestBody({ ...baseConfig, ...sampling, ...config }, testPrompt);
+
+			it("sends them in Ollama's options, with keep_alive at the top level", () => {
+				const request = body({ keepAlive: "10m" });
+
+				expect(request.options).toEqual({
+					temperature: 0.2,
+					num_predict: 1000,
+					num_ctx: 8192,
+					top_p: 0.9,
+					frequency_penalty: 0.5,
+					seed: 42,
+					stop: ["###"],
+				});
+				expect(request.keep_alive).toBe("10m");
+				expect(body({ keepAlive: "-1" }).keep_alive).toBe(-1);
+			});
+
+			it("sends them to OpenAI and Azure", () => {
+				for (const provider of ["openai", "azure"] as const) {
+					expect(body({ provider })).toMatchObject({
+						temperature: 0.2,
+						top_p: 0.9,
+						frequency_penalty: 0.5,
+						seed: 42,
+						stop: ["###"],
+					});
+				}
+			});
+
+			it("leaves out the sampling options OpenAI's reasoning models reject", () => {
+				for (const config of [
+					{ model: "o4-mini" },
+					{ model: "gpt-5-mini" },
+					{ model: "gpt-4.1", reasoningEffort: "low" as const },
+				]) {
+					const request = body({ provider: "openai", ...config });
+					expect(request).not.toHaveProperty("temperature");
+					expect(request).not.toHaveProperty("top_p");
+					expect(request).not.toHaveProperty("frequency_penalty");
+					expect(request).toMatchObject({ seed: 42, stop: ["###"] });
+				}
+				expect(body({ provider: "openai", model: "gpt-5-chat-latest" })).toHaveProperty(
+					"temperature"
+				);
+			});
+
+			it("sends only top_p and stop sequences to Anthropic", () => {
+				const request = body({ provider: "anthropic" });
+
+				expect(request).toMatchObject({ top_p: 0.9, stop_sequences: ["###"] });
+				expect(request).not.toHaveProperty("seed");
+				expect(request).not.toHaveProperty("frequency_penalty");
+			});
+
+			it("sends them in Gemini's generationConfig", () => {
+				expect(body({ provider: "gemini" }).generationConfig).toEqual({
+					temperature: 0.2,
+					maxOutputTokens: 1000,
+					topP: 0.9,
+					frequencyPenalty: 0.5,
+					seed: 42,
+					stopSequences: ["###"],
+				});
+			});
+
+			it("leaves out options that are not set", () => {
+				const request = buildRequestBody({ ...baseConfig, stopSequences: [] }, testPrompt);
+
+				expect(Object.keys(request.options as object)).toEqual([
+					"temperature",
+					"num_predict",
+					"num_ctx",
+				]);
+				expect(request).not.toHaveProperty("keep_alive");
+			});
+		});
+
+		describe("extra request JSON", () => {
+			it("deep-merges the JSON into the body", () => {
+				const request = buildRequestBody(
+					{
+						...baseConfig,
+						extraRequestJson: '{"options": {"num_ctx": 4096, "min_p": 0.05}, "messages": []}',
+					},
+					testPrompt
+				);
+
+				expect(request.options).toEqual({
+					temperature: 0.2,
+					num_predict: 1000,
+					num_ctx: 4096,
+					min_p: 0.05,
+				});
+				expect(request.messages).toEqual([]);
+				expect(request.model).toBe("llama3.1");
+			});
+
+			it("ignores empty JSON", () => {
+				expect(buildRequestBody({ ...baseConfig, extraRequestJson: "  " }, testPrompt)).toEqual(
+					buildRequestBody(baseConfig, testPrompt)
+				);
+			});
+
+			it("rejects invalid JSON and values that are not objects", () => {
+				expect(() => parseExtraRequestJson("{options:")).toThrow(/^Invalid extra request JSON/);
+				expect(() => parseExtraRequestJson("[1]")).toThrow(
+					"Invalid extra request JSON: expected an object"
+				);
+				expect(parseExtraRequestJson('{"a": 1}')).toEqual({ a: 1 });
+			});
+
+			it("fails the call when the JSON is invalid", async () => {
+				await expect(
+					callLLM({ ...baseConfig, extraRequestJson: "{" }, testPrompt)
+				).rejects.toThrow(LLMError);
+				expect(mockRequestUrl).not.toHaveBeenCalled();
+			});
+		});
+
+		describe("response schema", () => {
+			const schemaPrompt: LLMPrompt = {
+				...testPrompt,
+				responseSchema: { name: "answer", schema: { type: "object" } },
+			};
+
+			it("passes the schema as Ollama's format", () => {
+				expect(buildRequestBody(baseConfig, schemaPrompt).format).toEqual({ type: "object" });
+			});
+
+			it("requests a strict json_schema response format from OpenAI and Azure", () => {
+				for (const provider of ["openai", "azure"] as const) {
+					const body = buildRequestBody({ ...baseConfig, provider }, schemaPrompt);
+
+					expect(body.response_format).toEqual({
+						type: "json_schema",
+						json_schema: { name: "answer", schema: { type: "object" }, strict: true },
+					});
+				}
+			});
+
+			it("asks Gemini for a JSON response", () => {
+				const body = buildRequestBody({ ...baseConfig, provider: "gemini" }, schemaPrompt);
+
+				expect(body.generationConfig).toMatchObject({ responseMimeType: "application/json" });
+			});
+
+			it("leaves the body unchanged without a schema", () => {
+				expect(buildRequestBody(baseConfig, testPrompt)).not.toHaveProperty("format");
+				expect(
+					buildRequestBody({ ...baseConfig, provider: "openai" }, testPrompt)
+				).not.toHaveProperty("response_format");
+			});
+		});
+
+		describe("messages", () => {
+			const fewShotPrompt: LLMPrompt = {
+				system: "Be terse.",
+				user: "Question",
+				examples: [{ user: "Example question", assistant: "Example answer" }],
+			};
+
+			it("sends the system message first, then examples, then the user message", () => {
+				const openaiConfig: LLMConfig = { ...baseConfig, provider: "openai" };
+
+				expect(buildRequestBody(openaiConfig, fewShotPrompt).messages).toEqual([
+					{ role: "system", content: "Be terse." },
+					{ role: "user", content: "Example question" },
+					{ role: "assistant", content: "Example answer" },
+					{ role: "user", content: "Question" },
+				]);
+			});
+
+			it("uses the same message format for Ollama", () => {
+				const messages = buildRequestBody(baseConfig, fewShotPrompt).messages as unknown[];
+
+				expect(messages[0]).toEqual({ role: "system", content: "Be terse." });
+				expect(messages).toHaveLength(4);
+			});
+
+			it("moves the system prompt to a top-level field for Anthropic", () => {
+				const anthropicConfig: LLMConfig = { ...baseConfig, provider: "anthropic" };
+				const body = buildRequestBody(anthropicConfig, fewShotPrompt);
+
+				expect(body.system).toBe("Be terse.");
+				expect(body.messages).toEqual([
+					{ role: "user", content: "Example question" },
+					{ role: "assistant", content: "Example answer" },
+					{ role: "user", content: "Question" },
+				]);
+			});
+
+			it("maps examples to model turns for Gemini", () => {
+				const geminiConfig: LLMConfig = { ...baseConfig, provider: "gemini" };
+				const body = buildRequestBody(geminiConfig, fewShotPrompt);
+
+				expect(body.systemInstruction).toEqual({ parts: [{ text: "Be terse." }] });
+				expect(body.contents).toEqual([
+					{ role: "user", parts: [{ text: "Example question" }] },
+					{ role: "model", parts: [{ text: "Example answer" }] },
+					{ role: "user", parts: [{ text: "Question" }] },
+				]);
+			});
+
+			it("omits an empty system prompt", () => {
+				const prompt: LLMPrompt = { system: "", user: "Question" };
+
+				expect(buildRequestBody(baseConfig, prompt).messages).toEqual([
+					{ role: "user", content: "Question" },
+				]);
+				expect(buildRequestBody({ ...baseConfig, provider: "anthropic" }, prompt)).not.toHaveProperty(
+					"system"
+				);
+				expect(buildRequestBody({ ...baseConfig, provider: "gemini" }, prompt)).not.toHaveProperty(
+					"systemInstruction"
+				);
+			});
+		});
 	});
 
 	describe("parseResponseContent", () => {
@@ -271,6 +868,24 @@ describe("callLLM", () => {
 		it("throws on invalid OpenAI response", () => {
 			expect(() => parseResponseContent("openai", {})).toThrow(/choices/);
 		});
+
+		it("parses Anthropic response", () => {
+			expect(parseResponseContent("anthropic", { content: [{ type: "text", text: "ok" }] })).toBe("ok");
+		});
+
+		it("parses Gemini response", () => {
+			expect(
+				parseResponseContent("gemini", { candidates: [{ content: { parts: [{ text: "ok" }] } }] })
+			).toBe("ok");
+		});
+
+		it("throws on invalid Gemini response", () => {
+			expect(() => parseResponseContent("gemini", {})).toThrow(/candidates/);
+		});
+
+		it("throws on invalid Anthropic response", () => {
+			expect(() => parseResponseContent("anthropic", {})).toThrow(/content blocks/);
+		});
 	});
 
 	describe("retry logic", () => {
@@ -282,7 +897,7 @@ describe("callLLM", () => {
 					json: { message: { content: "Success on retry" } },
 				} as RequestUrlResponse);
 
-			const result = await callLLM(baseConfig, "Test prompt");
+			const result = await callLLM(baseConfig, testPrompt);
 
 			expect(result).toBe("Success on retry");
 			expect(mockRequestUrl).toHaveBeenCalledTimes(2);
@@ -293,10 +908,20 @@ describe("callLLM", () => {
 				.mockRejectedValueOnce(new Error("Network error 1"))
 				.mockRejectedValueOnce(new Error("Network error 2"));
 
-			await expect(callLLM(baseConfig, "Test prompt")).rejects.toThrow(LLMError);
+			await expect(callLLM(baseConfig, testPrompt)).rejects.toThrow(LLMError);
 			expect(mockRequestUrl).toHaveBeenCalledTimes(2);
 		});
 
+		it("marks the final error as a network error", async () => {
+			mockRequestUrl
+				.mockRejectedValueOnce(new Error("ECONNREFUSED"))
+				.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+
+			const error = await callLLM(baseConfig, testPrompt).catch((e: unknown) => e);
+
+			expect((error as LLMError).isNetworkError).toBe(true);
+		});
+
 		it("does not retry on HTTP error (non-network failure)", async () => {
 			mockRequestUrl.mockResolvedValueOnce({
 				status: 400,
@@ -304,9 +929,1376 @@ describe("callLLM", () => {
 				text: "",
 			} as unknown as RequestUrlResponse);
 
-			await expect(callLLM(baseConfig, "Test prompt")).rejects.toThrow(LLMError);
+			await expect(callLLM(baseConfig, testPrompt)).rejects.toThrow(LLMError);
 			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
 		});
 	});
 
+	describe("retry policy", () => {
+		const policy: RetryPolicy = {
+			maxAttempts: 3,
+			baseDelayMs: 1000,
+			maxDelayMs: 10000,
+			retryableStatuses: [429, 503],
+		};
+
+		function httpResponse(status: number, headers: Record<string, string> = {}) {
+			return { status, headers, json: {}, text: "" } as unknown as RequestUrlResponse;
+		}
+
+		it("retries retryable statuses and then succeeds", async () => {
+			mockRequestUrl
+				.mockResolvedValueOnce(httpResponse(503))
+				.mockResolvedValueOnce(httpResponse(429))
+				.mockResolvedValueOnce({
+					status: 200,
+					json: { message: { content: "Third time lucky" } },
+				} as RequestUrlResponse);
+
+			const result = await callLLM(baseConfig, testPrompt, { retryPolicy: policy });
+
+			expect(result).toBe("Third time lucky");
+			expect(mockRequestUrl).toHaveBeenCalledTimes(3);
+			expect(mockSleep).toHaveBeenCalledTimes(2);
+		});
+
+		it("waits with exponential backoff between attempts", async () => {
+			mockRequestUrl
+				.mockResolvedValueOnce(httpResponse(503))
+				.mockResolvedValueOnce(httpResponse(503))
+				.mockResolvedValueOnce(httpResponse(503));
+
+			await expect(
+				callLLM(baseConfig, testPrompt, { retryPolicy: policy })
+			).rejects.toThrow(/503/);
+
+			const delays = mockSleep.mock.calls.map(([ms]) => ms);
+			expect(delays).toHaveLength(2);
+			expect(delays[0]).toBeGreaterThanOrEqual(500);
+			expect(delays[0]).toBeLessThanOrEqual(1000);
+			expect(delays[1]).toBeGreaterThanOrEqual(1000);
+			expect(delays[1]).toBeLessThanOrEqual(2000);
+		});
+
+		it("honors the Retry-After header", async () => {
+			mockRequestUrl
+				.mockResolvedValueOnce(httpResponse(429, { "Retry-After": "7" }))
+				.mockResolvedValueOnce({
+					status: 200,
+					json: { message: { content: "ok" } },
+				} as RequestUrlResponse);
+
+			await callLLM(baseConfig, testPrompt, { retryPolicy: policy });
+
+			expect(mockSleep).toHaveBeenCalledWith(7000);
+		});
+
+		it("waits in real time with the default sleep", async () => {
+			vi.useFakeTimers();
+			resetSleepImpl();
+			mockRequestUrl
+				.mockResolvedValueOnce(httpResponse(429, { "Retry-After": "7" }))
+				.mockResolvedValueOnce({
+					status: 200,
+					json: { message: { content: "ok" } },
+				} as RequestUrlResponse);
+
+			const pending = callLLM(baseConfig, testPrompt, { retryPolicy: policy });
+			await vi.advanceTimersByTimeAsync(6999);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+			await vi.advanceTimersByTimeAsync(1);
+
+			expect(await pending).toBe("ok");
+			expect(mockRequestUrl).toHaveBeenCalledTimes(2);
+			vi.useRealTimers();
+		});
+
+		it("gives up when Retry-After exceeds the max delay", async () => {
+			mockRequestUrl.mockResolvedValueOnce(httpResponse(429, { "retry-after": "120" }));
+
+			const error = await callLLM(baseConfig, testPrompt, { retryPolicy: policy }).catch(
+				(e: unknown) => e
+			);
+
+			expect((error as LLMError).status).toBe(429);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+			expect(mockSleep).not.toHaveBeenCalled();
+		});
+
+		it("reports every response to onResponse", async () => {
+			mockRequestUrl.mockResolvedValueOnce(httpResponse(503)).mockResolvedValueOnce({
+				status: 200,
+				json: { message: { content: "ok" } },
+			} as RequestUrlResponse);
+			const onResponse = vi.fn();
+
+			await callLLM(baseConfig, testPrompt, { retryPolicy: policy, onResponse });
+
+			expect(onResponse.mock.calls).toEqual([
+				[{ url: "http://localhost:11434/api/chat", status: 503 }],
+				[{ url: "http://localhost:11434/api/chat", status: 200 }],
+			]);
+		});
+
+		it("does not retry statuses outside the policy", async () => {
+			mockRequestUrl.mockResolvedValueOnce(httpResponse(500));
+
+			await expect(
+				callLLM(baseConfig, testPrompt, { retryPolicy: policy })
+			).rejects.toThrow(/500/);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+		});
+
+		it("retries network errors up to maxAttempts", async () => {
+			mockRequestUrl
+				.mockRejectedValueOnce(new Error("ECONNREFUSED"))
+				.mockRejectedValueOnce(new Error("ECONNREFUSED"))
+				.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+
+			await expect(
+				callLLM(baseConfig, testPrompt, { retryPolicy: policy })
+			).rejects.toThrow(/Network error/);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(3);
+		});
+
+		it("makes a single attempt when maxAttempts is 1", async () => {
+			mockRequestUrl.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+
+			await expect(
+				callLLM(baseConfig, testPrompt, { retryPolicy: { ...policy, maxAttempts: 1 } })
+			).rejects.toThrow(LLMError);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+		});
+
+		it("reports non-JSON success bodies as a format error", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				get json(): unknown {
+					throw new SyntaxError("Unexpected token <");
+				},
+				text: "<html></html>",
+			} as unknown as RequestUrlResponse);
+
+			await expect(callLLM(baseConfig, testPrompt)).rejects.toThrow(/not valid JSON/);
+		});
+	});
+
+	describe("timeouts and cancellation", () => {
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("fails with a timeout error when the server does not answer in time", async () => {
+			vi.useFakeTimers();
+			mockRequestUrl.mockReturnValueOnce(new Promise(() => {}));
+
+			const pending = callLLM({ ...baseConfig, timeoutSeconds: 5 }, testPrompt).catch(
+				(e: unknown) => e
+			);
+			await vi.advanceTimersByTimeAsync(5000);
+			const error = await pending;
+
+			expect(error).toBeInstanceOf(LLMError);
+			expect((error as LLMError).isTimeout).toBe(true);
+			expect((error as LLMError).message).toMatch(/timed out after 5s/);
+			// Timeouts are not retried
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+		});
+
+		it("does not send the request when the signal is already aborted", async () => {
+			const controller = new AbortController();
+			controller.abort();
+
+			await expect(
+				callLLM(baseConfig, testPrompt, { signal: controller.signal })
+			).rejects.toThrow(LLMCancelledError);
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+
+		it("rejects as soon as the signal aborts mid-request", async () => {
+			mockRequestUrl.mockReturnValueOnce(new Promise(() => {}));
+			const controller = new AbortController();
+
+			const pending = callLLM(baseConfig, testPrompt, { signal: controller.signal });
+			controller.abort();
+
+			await expect(pending).rejects.toThrow(LLMCancelledError);
+		});
+
+		it("stops retrying when cancelled during the backoff wait", async () => {
+			const controller = new AbortController();
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 503,
+				headers: {},
+				json: {},
+				text: "",
+			} as unknown as RequestUrlResponse);
+			mockSleep.mockImplementationOnce(async () => {
+				controller.abort();
+				await new Promise(() => {});
+			});
+
+			await expect(
+				callLLM(baseConfig, testPrompt, { signal: controller.signal })
+			).rejects.toThrow(LLMCancelledError);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("buildRequestBody streaming flag", () => {
+		it("sets stream: true when requested", () => {
+			expect(buildRequestBody(baseConfig, testPrompt, true).stream).toBe(true);
+		});
+
+		it("asks OpenAI to report usage at the end of a stream", () => {
+			const openaiConfig: LLMConfig = { ...baseConfig, provider: "openai" };
+
+			expect(buildRequestBody(openaiConfig, testPrompt, true).stream_options).toEqual({
+				include_usage: true,
+			});
+			expect(buildRequestBody(openaiConfig, testPrompt)).not.toHaveProperty("stream_options");
+		});
+	});
+
+	describe("debug exchanges", () => {
+		const openaiConfig: LLMConfig = {
+			...baseConfig,
+			provider: "openai",
+			baseUrl: "https://api.openai.com",
+			endpointPath: "/v1/chat/completions",
+			apiKeyHeaderName: "Authorization",
+			apiKeyHeaderValue: "sk-secret",
+		};
+
+		it("reports each attempt with the request, raw response and timing", async () => {
+			mockRequestUrl
+				.mockResolvedValueOnce({
+					status: 503,
+					headers: {},
+					json: {},
+					text: "overloaded",
+				} as unknown as RequestUrlResponse)
+				.mockResolvedValueOnce({
+					status: 200,
+					json: { choices: [{ message: { content: "Hi" } }] },
+					text: '{"choices":[{"message":{"content":"Hi"}}]}',
+				} as RequestUrlResponse);
+			const onExchange = vi.fn();
+
+			await callLLM(openaiConfig, testPrompt, { onExchange });
+
+			expect(onExchange).toHaveBeenCalledTimes(2);
+			expect(onExchange.mock.calls[0]![0]).toMatchObject({
+				provider: "openai",
+				model: "llama3.1",
+				url: "https://api.openai.com/v1/chat/completions",
+				status: 503,
+				response: "overloaded",
+			});
+			const success = onExchange.mock.calls[1]![0] as LLMExchange;
+			expect(success.status).toBe(200);
+			expect(success.requestBody).toEqual(buildRequestBody(openaiConfig, testPrompt));
+			expect(success.durationMs).toBeGreaterThanOrEqual(0);
+			expect(Date.parse(success.startedAt)).not.toBeNaN();
+		});
+
+		it("redacts the API key", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { choices: [{ message: { content: "Hi" } }] },
+			} as RequestUrlResponse);
+			const onExchange = vi.fn();
+
+			await callLLM(openaiConfig, testPrompt, { onExchange });
+
+			const logged = JSON.stringify(onExchange.mock.calls[0]![0]);
+			expect(logged).not.toContain("sk-secret");
+			expect((onExchange.mock.calls[0]![0] as LLMExchange).headers).toEqual({
+				"Content-Type": "application/json",
+				Authorization: "[REDACTED]",
+			});
+		});
+
+		it("reports network errors", async () => {
+			mockRequestUrl.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+			const onExchange = vi.fn();
+
+			await expect(
+				callLLM(baseConfig, testPrompt, {
+					onExchange,
+					retryPolicy: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, retryableStatuses: [] },
+				})
+			).rejects.toThrow(LLMError);
+
+			expect(onExchange.mock.calls[0]![0]).toMatchObject({
+				status: undefined,
+				error: "ECONNREFUSED",
+			});
+		});
+
+		it("reports the complete raw stream", async () => {
+			setFetchImpl(mockFetch);
+			const chunks = ['{"message":{"content":"Hel"}}\n', '{"message":{"content":"lo"},"done":true}\n'];
+			mockFetch.mockResolvedValueOnce(streamingResponse(chunks, "application/x-ndjson"));
+			const onExchange = vi.fn();
+
+			await streamLLM({ ...baseConfig, stream: true }, testPrompt, () => {}, { onExchange });
+			resetFetchImpl();
+
+			expect(onExchange).toHaveBeenCalledTimes(1);
+			expect(onExchange.mock.calls[0]![0]).toMatchObject({
+				status: 200,
+				response: chunks.join(""),
+			});
+		});
+
+		it("redacts credential headers and query keys", () => {
+			expect(
+				redactHeaders(
+					{ "x-goog-api-key": "g", "api-key": "a", "X-Custom-Key": "c", Accept: "json" },
+					{ ...baseConfig, apiKeyHeaderName: "X-Custom-Key" }
+				)
+			).toEqual({
+				"x-goog-api-key": "[REDACTED]",
+				"api-key": "[REDACTED]",
+				"X-Custom-Key": "[REDACTED]",
+				Accept: "json",
+			});
+			expect(redactUrl("https://host/v1/models/m:generateContent?alt=sse&key=abc")).toBe(
+				"https://host/v1/models/m:generateContent?alt=sse&key=[REDACTED]"
+			);
+		});
+	});
+
+	describe("usage", () => {
+		it("parses usage from each provider's response", () => {
+			expect(parseUsage("ollama", { prompt_eval_count: 120, eval_count: 30 })).toEqual({
+				inputTokens: 120,
+				outputTokens: 30,
+			});
+			expect(
+				parseUsage("openai", { usage: { prompt_tokens: 120, completion_tokens: 30 } })
+			).toEqual({ inputTokens: 120, outputTokens: 30 });
+			expect(
+				parseUsage("anthropic", { usage: { input_tokens: 120, output_tokens: 30 } })
+			).toEqual({ inputTokens: 120, outputTokens: 30 });
+			expect(
+				parseUsage("gemini", {
+					usageMetadata: { promptTokenCount: 120, candidatesTokenCount: 20, thoughtsTokenCount: 10 },
+				})
+			).toEqual({ inputTokens: 120, outputTokens: 30 });
+		});
+
+		it("returns no fields when usage is missing", () => {
+			expect(parseUsage("openai", { choices: [] })).toEqual({});
+			expect(parseUsage("ollama", null)).toEqual({});
+		});
+
+		it("collects usage from Anthropic's start and delta stream events", () => {
+			const start = `data: ${JSON.stringify({
+				type: "message_start",
+				message: { usage: { input_tokens: 120, output_tokens: 1 } },
+			})}`;
+			const delta = `data: ${JSON.stringify({ type: "message_delta", usage: { output_tokens: 30 } })}`;
+
+			expect({
+				...parseStreamUsage("anthropic", start),
+				...parseStreamUsage("anthropic", delta),
+			}).toEqual({ inputTokens: 120, outputTokens: 30 });
+			expect(parseStreamUsage("anthropic", "event: message_start")).toEqual({});
+		});
+
+		it("reports usage and latency of an answered call", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { message: { content: "Hi" }, prompt_eval_count: 50, eval_count: 5 },
+			} as RequestUrlResponse);
+			const onUsage = vi.fn();
+
+			await callLLM(baseConfig, testPrompt, { onUsage });
+
+			expect(onUsage).toHaveBeenCalledWith({
+				provider: "ollama",
+				model: "llama3.1",
+				inputTokens: 50,
+				outputTokens: 5,
+				latencyMs: expect.any(Number) as number,
+			});
+		});
+
+		it("does not report usage for failed calls", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 400,
+				json: { error: "bad request" },
+				text: "",
+			} as RequestUrlResponse);
+			const onUsage = vi.fn();
+
+			await expect(callLLM(baseConfig, testPrompt, { onUsage })).rejects.toThrow(LLMError);
+			expect(onUsage).not.toHaveBeenCalled();
+		});
+
+		it("reports usage from the final chunk of a stream", async () => {
+			setFetchImpl(mockFetch);
+			const frame = (data: unknown) => `data: ${JSON.stringify(data)}\n\n`;
+			mockFetch.mockResolvedValueOnce(
+				streamingResponse(
+					[
+						frame({ choices: [{ delta: { content: "Hi" } }] }),
+						frame({ choices: [], usage: { prompt_tokens: 50, completion_tokens: 5 } }),
+						"data: [DONE]\n\n",
+					],
+					"text/event-stream"
+				)
+			);
+			const onUsage = vi.fn();
+
+			await streamLLM({ ...baseConfig, provider: "openai", stream: true }, testPrompt, () => {}, {
+				onUsage,
+			});
+			resetFetchImpl();
+
+			expect(onUsage).toHaveBeenCalledTimes(1);
+			expect(onUsage.mock.calls[0]![0]).toMatchObject({ inputTokens: 50, outputTokens: 5 });
+		});
+	});
+
+	describe("reasoning", () => {
+		const body = (config: Partial<LLMConfig>) => buildRequestBody({ ...baseConfig, ...config }, testPrompt);
+
+		it("maps the reasoning effort to each provider's parameter", () => {
+			expect(body({ provider: "openai", reasoningEffort: "low" })).toMatchObject({
+				reasoning_effort: "low",
+			});
+			expect(body({ reasoningEffort: "high" })).toMatchObject({ think: true });
+			expect(body({ reasoningEffort: "minimal" })).toMatchObject({ think: false });
+			expect(body({ provider: "gemini", reasoningEffort: "minimal" })).toMatchObject({
+				generationConfig: { thinkingConfig: { thinkingBudget: 0, includeThoughts: false } },
+			});
+		});
+
+		it("adds Anthropic's thinking budget to max_tokens and drops the temperature", () => {
+			const request = body({ provider: "anthropic", reasoningEffort: "medium" });
+
+			expect(request).toMatchObject({
+				max_tokens: 5096,
+				thinking: { type: "enabled", budget_tokens: 4096 },
+			});
+			expect(request).not.toHaveProperty("temperature");
+			expect(body({ provider: "anthropic", reasoningEffort: "minimal" })).not.toHaveProperty(
+				"thinking"
+			);
+		});
+
+		it("sends no reasoning parameters when the effort is unset", () => {
+			expect(body({ provider: "openai" })).not.toHaveProperty("reasoning_effort");
+			expect(body({})).not.toHaveProperty("think");
+		});
+
+		it("strips thinking tags from the response content", () => {
+			expect(
+				parseResponseContent("ollama", {
+					message: { content: "<think>\nLet me see.\n</think>\n\nThe answer." },
+				})
+			).toBe("The answer.");
+			expect(
+				parseResponseContent("openai", {
+					choices: [{ message: { content: "Reasoning first.</think>The answer." } }],
+				})
+			).toBe("The answer.");
+		});
+
+		it("leaves out Anthropic thinking blocks and Gemini thoughts", () => {
+			expect(
+				parseResponseContent("anthropic", {
+					content: [
+						{ type: "thinking", thinking: "Hmm." },
+						{ type: "text", text: "The answer." },
+					],
+				})
+			).toBe("The answer.");
+			expect(
+				parseResponseContent("gemini", {
+					candidates: [
+						{ content: { parts: [{ text: "Hmm.", thought: true }, { text: "The answer." }] } },
+					],
+				})
+			).toBe("The answer.");
+		});
+
+		it("parses reasoning streamed separately from the answer", () => {
+			expect(
+				parseStreamThinking("ollama", JSON.stringify({ message: { content: "", thinking: "Hm" } }))
+			).toBe("Hm");
+			expect(
+				parseStreamThinking(
+					"openai",
+					`data: ${JSON.stringify({ choices: [{ delta: { reasoning_content: "Hm" } }] })}`
+				)
+			).toBe("Hm");
+			expect(
+				parseStreamThinking("openai", `data: ${JSON.stringify({ choices: [{ delta: { content: "Hi" } }] })}`)
+			).toBeNull();
+		});
+
+		it("reports the reasoning of an answered call", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { message: { content: "<think>Tags.</think>The answer.", thinking: "Field." } },
+			} as RequestUrlResponse);
+			const onThinking = vi.fn();
+
+			const result = await callLLM(baseConfig, testPrompt, { onThinking });
+
+			expect(result).toBe("The answer.");
+			expect(onThinking).toHaveBeenCalledWith("Field.\n\nTags.");
+		});
+
+		it("streams thinking tags but returns the answer without them", async () => {
+			setFetchImpl(mockFetch);
+			mockFetch.mockResolvedValueOnce(
+				streamingResponse(
+					[
+						'{"message":{"content":"<think>Hmm"}}\n',
+						'{"message":{"content":".</think>"}}\n{"message":{"content":"Hi"}}\n',
+						'{"done":true}\n',
+					],
+					"application/x-ndjson"
+				)
+			);
+			const tokens: string[] = [];
+			const onThinking = vi.fn();
+
+			const result = await streamLLM(
+				{ ...baseConfig, stream: true },
+				testPrompt,
+				(t) => tokens.push(t),
+				{ onThinking }
+			);
+			resetFetchImpl();
+
+			expect(tokens.join("")).toBe("<think>Hmm.</think>Hi");
+			expect(result).toBe("Hi");
+			expect(onThinking).toHaveBeenCalledWith("Hmm.");
+		});
+
+		it("collects reasoning streamed in Anthropic thinking deltas", async () => {
+			setFetchImpl(mockFetch);
+			const frame = (data: unknown) => `data: ${JSON.stringify(data)}\n\n`;
+			mockFetch.mockResolvedValueOnce(
+				streamingResponse(
+					[
+						frame({ type: "content_block_delta", delta: { type: "thinking_delta", thinking: "Hm" } }),
+						frame({ type: "content_block_delta", delta: { type: "thinking_delta", thinking: "m." } }),
+						frame({ type: "content_block_delta", delta: { type: "text_delta", text: "Hi" } }),
+					],
+					"text/event-stream"
+				)
+			);
+			const onThinking = vi.fn();
+
+			const result = await streamLLM(
+				{ ...baseConfig, provider: "anthropic", stream: true },
+				testPrompt,
+				() => {},
+				{ onThinking }
+			);
+			resetFetchImpl();
+
+			expect(result).toBe("Hi");
+			expect(onThinking).toHaveBeenCalledWith("Hmm.");
+		});
+	});
+
+	describe("callLLMWithTools", () => {
+		const tools: ToolDefinition[] = [
+			{
+				name: "read_note",
+				description: "Read a note.",
+				parameters: { type: "object", properties: { path: { type: "string" } } },
+			},
+		];
+		const openaiConfig: LLMConfig = { ...baseConfig, provider: "openai", model: "gpt-4o" };
+		const requestBody = (call: number) =>
+			JSON.parse((mockRequestUrl.mock.calls as [RequestUrlParam][])[call]![0].body as string) as {
+				messages: Array<Record<string, unknown>>;
+				tools?: unknown[];
+				tool_choice?: string;
+			};
+
+		it("runs the OpenAI tool calls and sends the results back", async () => {
+			const toolCallMessage = {
+				role: "assistant",
+				content: null,
+				tool_calls: [
+					{
+						id: "call_1",
+						type: "function",
+						function: { name: "read_note", arguments: '{"path":"Alpha"}' },
+					},
+				],
+			};
+			mockRequestUrl
+				.mockResolvedValueOnce({
+					status: 200,
+					json: { choices: [{ message: toolCallMessage }] },
+				} as RequestUrlResponse)
+				.mockResolvedValueOnce({
+					status: 200,
+					json: { choices: [{ message: { content: "Review" } }] },
+				} as RequestUrlResponse);
+			const runTool = vi.fn(async () => "Alpha content");
+			const onToolCall = vi.fn();
+
+			const result = await callLLMWithTools(openaiConfig, testPrompt, tools, runTool, {
+				maxRounds: 3,
+				onToolCall,
+			});
+
+			expect(result).toBe("Review");
+			expect(runTool).toHaveBeenCalledWith({ name: "read_note", arguments: { path: "Alpha" } });
+			expect(onToolCall).toHaveBeenCalledTimes(1);
+			expect(requestBody(0).tools).toEqual([
+				{
+					type: "function",
+					function: {
+						name: "read_note",
+						description: "Read a note.",
+						parameters: tools[0]!.parameters,
+					},
+				},
+			]);
+			expect(requestBody(1).messages.slice(-2)).toEqual([
+				toolCallMessage,
+				{ role: "tool", tool_call_id: "call_1", content: "Alpha content" },
+			]);
+		});
+
+		it("uses Ollama's tool message format and passes tool errors to the model", async () => {
+			const toolCallMessage = {
+				role: "assistant",
+				content: "",
+				tool_calls: [{ function: { name: "read_note", arguments: { path: "Beta" } } }],
+			};
+			mockRequestUrl
+				.mockResolvedValueOnce({
+					status: 200,
+					json: { message: toolCallMessage },
+				} as RequestUrlResponse)
+				.mockResolvedValueOnce({
+					status: 200,
+					json: { message: { content: "Review" } },
+				} as RequestUrlResponse);
+
+			const result = await callLLMWithTools(
+				baseConfig,
+				testPrompt,
+				tools,
+				() => Promise.reject(new Error("Note not found: Beta")),
+				{ maxRounds: 3 }
+			);
+
+			expect(result).toBe("Review");
+			expect(requestBody(1).messages.slice(-1)).toEqual([
+				{ role: "tool", tool_name: "read_note", content: "Error: Note not found: Beta" },
+			]);
+		});
+
+		it("asks for an answer without tools after the last round", async () => {
+			const toolCall = {
+				choices: [
+					{
+						message: {
+							role: "assistant",
+							tool_calls: [{ id: "c", function: { name: "read_note", arguments: "{}" } }],
+						},
+					},
+				],
+			};
+			mockRequestUrl
+				.mockResolvedValueOnce({ status: 200, json: toolCall } as RequestUrlResponse)
+				.mockResolvedValueOnce({
+					status: 200,
+					json: { choices: [{ message: { content: "Review" } }] },
+				} as RequestUrlResponse);
+			const runTool = vi.fn(async () => "");
+
+			const result = await callLLMWithTools(openaiConfig, testPrompt, tools, runTool, {
+				maxRounds: 1,
+			});
+
+			expect(result).toBe("Review");
+			expect(runTool).toHaveBeenCalledWith({ name: "read_note", arguments: {} });
+			expect(requestBody(0).tool_choice).toBeUndefined();
+			expect(requestBody(1).tool_choice).toBe("none");
+		});
+
+		it("leaves the tools out of Ollama's final round", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { message: { content: "Review" } },
+			} as RequestUrlResponse);
+
+			await callLLMWithTools(baseConfig, testPrompt, tools, vi.fn(), { maxRounds: 0 });
+
+			expect(requestBody(0)).not.toHaveProperty("tools");
+		});
+
+		it("reports usage for every round", async () => {
+			mockRequestUrl
+				.mockResolvedValueOnce({
+					status: 200,
+					json: {
+						message: { tool_calls: [{ function: { name: "read_note", arguments: {} } }] },
+						prompt_eval_count: 100,
+						eval_count: 10,
+					},
+				} as RequestUrlResponse)
+				.mockResolvedValueOnce({
+					status: 200,
+					json: { message: { content: "Review" }, prompt_eval_count: 150, eval_count: 20 },
+				} as RequestUrlResponse);
+			const onUsage = vi.fn();
+
+			await callLLMWithTools(baseConfig, testPrompt, tools, async () => "", {
+				maxRounds: 3,
+				onUsage,
+			});
+
+			expect(onUsage.mock.calls.map(([usage]) => (usage as CallUsage).inputTokens)).toEqual([
+				100, 150,
+			]);
+		});
+
+		it("rejects providers without tool calling", async () => {
+			await expect(
+				callLLMWithTools({ ...baseConfig, provider: "anthropic" }, testPrompt, tools, vi.fn(), {
+					maxRounds: 3,
+				})
+			).rejects.toThrow("Tool calling is not supported for anthropic");
+			expect(supportsToolCalling("azure")).toBe(true);
+			expect(supportsToolCalling("gemini")).toBe(false);
+		});
+	});
+
+	describe("parseStreamLine", () => {
+		it("parses an Ollama NDJSON chunk", () => {
+			const line = JSON.stringify({ message: { content: "Hel" }, done: false });
+			expect(parseStreamLine("ollama", line)).toBe("Hel");
+		});
+
+		it("returns null for the final Ollama chunk without content", () => {
+			expect(parseStreamLine("ollama", JSON.stringify({ done: true }))).toBeNull();
+		});
+
+		it("throws on an Ollama error chunk", () => {
+			expect(() => parseStreamLine("ollama", '{"error":"model not found"}')).toThrow(
+				/model not found/
+			);
+		});
+
+		it("parses an OpenAI SSE data frame", () => {
+			const line = `data: ${JSON.stringify({ choices: [{ delta: { content: "lo" } }] })}`;
+			expect(parseStreamLine("openai", line)).toBe("lo");
+		});
+
+		it("ignores the OpenAI [DONE] sentinel and non-data lines", () => {
+			expect(parseStreamLine("openai", "data: [DONE]")).toBeNull();
+			expect(parseStreamLine("openai", ": keep-alive")).toBeNull();
+			expect(parseStreamLine("openai", "event: message")).toBeNull();
+		});
+
+		it("returns null for OpenAI frames without delta content", () => {
+			const line = `data: ${JSON.stringify({ choices: [{ delta: { role: "assistant" } }] })}`;
+			expect(parseStreamLine("openai", line)).toBeNull();
+		});
+
+		it("throws on an OpenAI error frame", () => {
+			const line = `data: ${JSON.stringify({ error: { message: "rate limited" } })}`;
+			expect(() => parseStreamLine("openai", line)).toThrow(/rate limited/);
+		});
+
+		it("parses Anthropic text deltas and ignores other events", () => {
+			const delta = `data: ${JSON.stringify({
+				type: "content_block_delta",
+				index: 0,
+				delta: { type: "text_delta", text: "Hi" },
+			})}`;
+			expect(parseStreamLine("anthropic", delta)).toBe("Hi");
+			expect(parseStreamLine("anthropic", "event: content_block_delta")).toBeNull();
+			expect(parseStreamLine("anthropic", 'data: {"type":"message_stop"}')).toBeNull();
+		});
+
+		it("throws on an Anthropic error event", () => {
+			const line = `data: ${JSON.stringify({ type: "error", error: { message: "overloaded" } })}`;
+			expect(() => parseStreamLine("anthropic", line)).toThrow(/overloaded/);
+		});
+
+		it("parses Gemini SSE chunks", () => {
+			const line = `data: ${JSON.stringify({
+				candidates: [{ content: { parts: [{ text: "Hel" }, { text: "lo" }] } }],
+			})}`;
+			expect(parseStreamLine("gemini", line)).toBe("Hello");
+			expect(parseStreamLine("gemini", 'data: {"candidates":[{"finishReason":"STOP"}]}')).toBeNull();
+		});
+
+		it("throws on a Gemini error chunk", () => {
+			const line = `data: ${JSON.stringify({ error: { message: "quota exceeded" } })}`;
+			expect(() => parseStreamLine("gemini", line)).toThrow(/quota exceeded/);
+		});
+
+		it("throws when an Azure stream is stopped by the content filter", () => {
+			const line = `data: ${JSON.stringify({
+				choices: [{ delta: {}, finish_reason: "content_filter" }],
+			})}`;
+			expect(() => parseStreamLine("azure", line)).toThrow(/content filter/);
+		});
+
+		it("ignores blank lines", () => {
+			expect(parseStreamLine("ollama", "   ")).toBeNull();
+		});
+
+		it("throws LLMError on malformed JSON", () => {
+			expect(() => parseStreamLine("ollama", "{not json")).toThrow(LLMError);
+		});
+	});
+
+	describe("streamLLM", () => {
+		const streamConfig: LLMConfig = { ...baseConfig, stream: true };
+
+		beforeEach(() => {
+			setFetchImpl(mockFetch);
+		});
+
+		afterEach(() => {
+			resetFetchImpl();
+		});
+
+		it("pushes Ollama NDJSON tokens to the callback", async () => {
+			mockFetch.mockResolvedValueOnce(
+				streamingResponse(
+					[
+						'{"message":{"content":"Hello"},"done":false}\n{"message":{"con',
+						'tent":" world"},"done":false}\n',
+						'{"done":true}\n',
+					],
+					"application/x-ndjson"
+				)
+			);
+			const tokens: string[] = [];
+
+			const result = await streamLLM(streamConfig, testPrompt, (t) => tokens.push(t));
+
+			expect(result).toBe("Hello world");
+			expect(tokens).toEqual(["Hello", " world"]);
+			const init = mockFetch.mock.calls[0]![1];
+			expect((JSON.parse(init.body as string) as { stream: boolean }).stream).toBe(true);
+		});
+
+		it("streams through the global fetch by default", async () => {
+			resetFetchImpl();
+			const globalFetch = vi.fn<FetchFn>(async () =>
+				streamingResponse(['{"message":{"content":"Hello"},"done":true}\n'], "application/x-ndjson")
+			);
+			vi.stubGlobal("fetch", globalFetch);
+
+			const result = await streamLLM(streamConfig, testPrompt, () => {});
+
+			expect(result).toBe("Hello");
+			expect(globalFetch).toHaveBeenCalledWith(
+				"http://localhost:11434/api/chat",
+				expect.objectContaining({ method: "POST" })
+			);
+			vi.unstubAllGlobals();
+		});
+
+		it("pushes OpenAI SSE tokens to the callback", async () => {
+			const frame = (content: string) =>
+				`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+			mockFetch.mockResolvedValueOnce(
+				streamingResponse([frame("Open"), frame("AI"), "data: [DONE]\n\n"], "text/event-stream")
+			);
+			const tokens: string[] = [];
+
+			const result = await streamLLM(
+				{ ...streamConfig, provider: "openai" },
+				testPrompt,
+				(t) => tokens.push(t)
+			);
+
+			expect(result).toBe("OpenAI");
+			expect(tokens).toEqual(["Open", "AI"]);
+		});
+
+		it("handles a final line without a trailing newline", async () => {
+			mockFetch.mockResolvedValueOnce(
+				streamingResponse(['{"message":{"content":"last"}}'], "application/x-ndjson")
+			);
+
+			const result = await streamLLM(streamConfig, testPrompt, () => {});
+
+			expect(result).toBe("last");
+		});
+
+		it("parses a plain JSON response when the server does not stream", async () => {
+			mockFetch.mockResolvedValueOnce(
+				new Response(JSON.stringify({ message: { content: "Whole response" } }), {
+					status: 200,
+					headers: { "Content-Type": "application/json" },
+				})
+			);
+			const onToken = vi.fn();
+
+			const result = await streamLLM(streamConfig, testPrompt, onToken);
+
+			expect(result).toBe("Whole response");
+			expect(onToken).toHaveBeenCalledWith("Whole response");
+		});
+
+		it("falls back to a regular request when fetch fails", async () => {
+			mockFetch.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { message: { content: "Fallback response" } },
+			} as RequestUrlResponse);
+			const onToken = vi.fn();
+
+			const result = await streamLLM(streamConfig, testPrompt, onToken);
+
+			expect(result).toBe("Fallback response");
+			expect(onToken).toHaveBeenCalledWith("Fallback response");
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+		});
+
+		it("falls back to a regular request when the response has no body", async () => {
+			mockFetch.mockResolvedValueOnce(new Response(null, { status: 200 }));
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { message: { content: "Fallback response" } },
+			} as RequestUrlResponse);
+
+			const result = await streamLLM(streamConfig, testPrompt, () => {});
+
+			expect(result).toBe("Fallback response");
+		});
+
+		it("reads a stream without a content type line by line", async () => {
+			const encoder = new TextEncoder();
+			const body = new ReadableStream<Uint8Array>({
+				start(stream) {
+					stream.enqueue(encoder.encode('{"message":{"content":"Untyped"},"done":true}\n'));
+					stream.close();
+				},
+			});
+			mockFetch.mockResolvedValueOnce(new Response(body, { status: 200 }));
+
+			const result = await streamLLM(streamConfig, testPrompt, () => {});
+
+			expect(result).toBe("Untyped");
+		});
+
+		it("does not fall back when the server does not answer in time", async () => {
+			vi.useFakeTimers();
+			mockFetch.mockReturnValueOnce(new Promise(() => {}));
+
+			const pending = streamLLM({ ...streamConfig, timeoutSeconds: 2 }, testPrompt, () => {}).catch(
+				(e: unknown) => e
+			);
+			await vi.advanceTimersByTimeAsync(2000);
+			const error = await pending;
+			vi.useRealTimers();
+
+			expect((error as LLMError).isTimeout).toBe(true);
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+
+		it("uses a regular request when streaming is disabled", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 200,
+				json: { message: { content: "Non-streamed" } },
+			} as RequestUrlResponse);
+
+			const result = await streamLLM({ ...baseConfig, stream: false }, testPrompt, () => {});
+
+			expect(result).toBe("Non-streamed");
+			expect(mockFetch).not.toHaveBeenCalled();
+		});
+
+		it("retries retryable statuses before streaming", async () => {
+			mockFetch
+				.mockResolvedValueOnce(
+					new Response("overloaded", { status: 503, headers: { "Retry-After": "1" } })
+				)
+				.mockResolvedValueOnce(
+					streamingResponse(['{"message":{"content":"ok"}}\n'], "application/x-ndjson")
+				);
+
+			const result = await streamLLM(streamConfig, testPrompt, () => {});
+
+			expect(result).toBe("ok");
+			expect(mockSleep).toHaveBeenCalledWith(1000);
+			expect(mockFetch).toHaveBeenCalledTimes(2);
+		});
+
+		it("throws LLMError with the error message on HTTP errors", async () => {
+			mockFetch.mockResolvedValueOnce(
+				new Response(JSON.stringify({ error: { message: "Invalid API key" } }), {
+					status: 401,
+				})
+			);
+
+			await expect(streamLLM(streamConfig, testPrompt, () => {})).rejects.toThrow(
+				/401.*Invalid API key/
+			);
+		});
+
+		it("aborts the stream when the signal aborts and keeps the partial text out", async () => {
+			const controller = new AbortController();
+			const encoder = new TextEncoder();
+			// A stream that sends one chunk and then stalls
+			const body = new ReadableStream<Uint8Array>({
+				start(stream) {
+					stream.enqueue(encoder.encode('{"message":{"content":"partial"}}\n'));
+				},
+			});
+			mockFetch.mockResolvedValueOnce(
+				new Response(body, { headers: { "Content-Type": "application/x-ndjson" } })
+			);
+			const tokens: string[] = [];
+
+			const pending = streamLLM(
+				streamConfig,
+				testPrompt,
+				(token) => {
+					tokens.push(token);
+					controller.abort();
+				},
+				{ signal: controller.signal }
+			);
+
+			await expect(pending).rejects.toThrow(LLMCancelledError);
+			expect(tokens).toEqual(["partial"]);
+			expect(mockFetch.mock.calls[0]![1].signal?.aborted).toBe(true);
+			// Cancellation does not fall back to a non-streaming request
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+
+		it("still reports the cancellation when discarding the stream fails", async () => {
+			const controller = new AbortController();
+			const chunk = new TextEncoder().encode('{"message":{"content":"partial"}}\n');
+			// A reader that stalls after one chunk and cannot be cancelled
+			const reader = {
+				read: vi
+					.fn()
+					.mockResolvedValueOnce({ done: false, value: chunk })
+					.mockReturnValue(new Promise(() => {})),
+				cancel: vi.fn(() => Promise.reject(new Error("Stream already closed"))),
+			};
+			mockFetch.mockResolvedValueOnce({
+				status: 200,
+				headers: new Headers({ "Content-Type": "application/x-ndjson" }),
+				body: { getReader: () => reader },
+			} as unknown as Response);
+
+			const pending = streamLLM(streamConfig, testPrompt, () => controller.abort(), {
+				signal: controller.signal,
+			});
+
+			await expect(pending).rejects.toThrow(LLMCancelledError);
+			expect(reader.cancel).toHaveBeenCalled();
+		});
+
+		it("times out when the stream stalls between chunks", async () => {
+			vi.useFakeTimers();
+			const body = new ReadableStream<Uint8Array>({ start() {} });
+			mockFetch.mockResolvedValueOnce(
+				new Response(body, { headers: { "Content-Type": "application/x-ndjson" } })
+			);
+
+			const pending = streamLLM({ ...streamConfig, timeoutSeconds: 2 }, testPrompt, () => {}).catch(
+				(e: unknown) => e
+			);
+			await vi.advanceTimersByTimeAsync(2000);
+			const error = await pending;
+			vi.useRealTimers();
+
+			expect((error as LLMError).isTimeout).toBe(true);
+		});
+	});
+
+	describe("listModels", () => {
+		function listResponse(json: unknown): RequestUrlResponse {
+			return { status: 200, json, text: JSON.stringify(json) } as RequestUrlResponse;
+		}
+
+		it("lists installed Ollama models from /api/tags", async () => {
+			mockRequestUrl.mockResolvedValueOnce(
+				listResponse({ models: [{ name: "qwen3:8b" }, { name: "llama3.1:latest" }] })
+			);
+
+			const models = await listModels(baseConfig);
+
+			expect(models).toEqual(["llama3.1:latest", "qwen3:8b"]);
+			expect(mockRequestUrl).toHaveBeenCalledWith(
+				expect.objectContaining({ url: "http://localhost:11434/api/tags", method: "GET" })
+			);
+		});
+
+		it("lists OpenAI models next to the chat endpoint with the API key", async () => {
+			mockRequestUrl.mockResolvedValueOnce(
+				listResponse({ data: [{ id: "gpt-5-mini" }, { id: "gpt-4o" }, { id: "gpt-4o" }] })
+			);
+			const openaiConfig: LLMConfig = {
+				...baseConfig,
+				provider: "openai",
+				baseUrl: "https://api.groq.com",
+				endpointPath: "/openai/v1/chat/completions",
+				apiKeyHeaderName: "Authorization",
+				apiKeyHeaderValue: "sk-test",
+			};
+
+			const models = await listModels(openaiConfig);
+
+			expect(models).toEqual(["gpt-4o", "gpt-5-mini"]);
+			expect(mockRequestUrl).toHaveBeenCalledWith(
+				expect.objectContaining({
+					url: "https://api.groq.com/openai/v1/models",
+					// eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+					headers: expect.objectContaining({ Authorization: "Bearer sk-test" }),
+				})
+			);
+		});
+
+		it("lists Anthropic models from /v1/models", async () => {
+			mockRequestUrl.mockResolvedValueOnce(listResponse({ data: [{ id: "claude-sonnet-4-5" }] }));
+
+			const models = await listModels({
+				...baseConfig,
+				provider: "anthropic",
+				baseUrl: "https://api.anthropic.com",
+			});
+
+			expect(models).toEqual(["claude-sonnet-4-5"]);
+			expect(mockRequestUrl.mock.calls[0]![0].url).toBe("https://api.anthropic.com/v1/models");
+		});
+
+		it("rejects providers that cannot list models", async () => {
+			await expect(listModels({ ...baseConfig, provider: "azure" })).rejects.toThrow(
+				/not supported/
+			);
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+
+		it("throws LLMError with the server message on HTTP errors", async () => {
+			mockRequestUrl.mockResolvedValueOnce({
+				status: 401,
+				json: { error: { message: "Invalid API key" } },
+				text: "",
+			} as RequestUrlResponse);
+
+			await expect(listModels({ ...baseConfig, provider: "openai" })).rejects.toThrow(
+				/401.*Invalid API key/
+			);
+		});
+
+		it("throws on a response without a model list", async () => {
+			mockRequestUrl.mockResolvedValueOnce(listResponse({ object: "list" }));
+
+			await expect(listModels({ ...baseConfig, provider: "openai" })).rejects.toThrow(
+				/missing model list/
+			);
+		});
+
+		it("reports unreachable servers as network errors", async () => {
+			mockRequestUrl.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+
+			const error = await listModels(baseConfig).catch((e: unknown) => e);
+
+			expect((error as LLMError).isNetworkError).toBe(true);
+		});
+	});
+
+	describe("embedTexts", () => {
+		function embedResponse(json: unknown): RequestUrlResponse {
+			return { status: 200, json, text: JSON.stringify(json) } as RequestUrlResponse;
+		}
+
+		it("embeds texts with Ollama's /api/embed", async () => {
+			mockRequestUrl.mockResolvedValueOnce(
+				embedResponse({ embeddings: [[0.1, 0.2], [0.3, 0.4]] })
+			);
+
+			const vectors = await embedTexts({ ...baseConfig, model: "nomic-embed-text" }, [
+				"first",
+				"second",
+			]);
+
+			expect(vectors).toEqual([[0.1, 0.2], [0.3, 0.4]]);
+			const request = mockRequestUrl.mock.calls[0]![0];
+			expect(request.url).toBe("http://localhost:11434/api/embed");
+			expect(JSON.parse(request.body as string)).toEqual({
+				model: "nomic-embed-text",
+				input: ["first", "second"],
+			});
+		});
+
+		it("embeds texts next to the OpenAI chat endpoint, in input order", async () => {
+			mockRequestUrl.mockResolvedValueOnce(
+				embedResponse({
+					data: [
+						{ index: 1, embedding: [0.3] },
+						{ index: 0, embedding: [0.1] },
+					],
+				})
+			);
+
+			const vectors = await embedTexts(
+				{
+					...baseConfig,
+					provider: "openai",
+					baseUrl: "https://api.groq.com",
+					endpointPath: "/openai/v1/chat/completions",
+					model: "text-embedding-3-small",
+				},
+				["first", "second"]
+			);
+
+			expect(vectors).toEqual([[0.1], [0.3]]);
+			expect(mockRequestUrl.mock.calls[0]![0].url).toBe(
+				"https://api.groq.com/openai/v1/embeddings"
+			);
+		});
+
+		it("makes no request for no texts", async () => {
+			expect(await embedTexts(baseConfig, [])).toEqual([]);
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+
+		it("rejects providers without an embeddings endpoint", async () => {
+			await expect(embedTexts({ ...baseConfig, provider: "anthropic" }, ["a"])).rejects.toThrow(
+				/not supported/
+			);
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+
+		it("throws when the response has a vector missing", async () => {
+			mockRequestUrl.mockResolvedValueOnce(embedResponse({ embeddings: [[0.1]] }));
+
+			await expect(embedTexts(baseConfig, ["a", "b"])).rejects.toThrow(/missing embeddings/);
+		});
+
+		it("retries retryable statuses", async () => {
+			mockRequestUrl
+				.mockResolvedValueOnce({ status: 503, json: null, text: "" } as RequestUrlResponse)
+				.mockResolvedValueOnce(embedResponse({ embeddings: [[0.5]] }));
+
+			expect(await embedTexts(baseConfig, ["a"])).toEqual([[0.5]]);
+			expect(mockRequestUrl).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe("response cache", () => {
+		let cache: ResponseCache;
+
+		function okResponse(content: string): RequestUrlResponse {
+			return { status: 200, json: { message: { content } } } as RequestUrlResponse;
+		}
+
+		beforeEach(() => {
+			cache = new ResponseCache(memoryStore(), { ttlMs: 60_000, maxSizeBytes: 1_000_000 });
+			setResponseCache(cache);
+			setFetchImpl(mockFetch);
+		});
+
+		afterEach(() => {
+			setResponseCache(null);
+			resetFetchImpl();
+		});
+
+		it("answers a repeated prompt from the cache", async () => {
+			mockRequestUrl.mockResolvedValueOnce(okResponse("First"));
+
+			expect(await callLLM(baseConfig, testPrompt)).toBe("First");
+			expect(await callLLM(baseConfig, testPrompt)).toBe("First");
+			expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+		});
+
+		it("keys entries by model, parameters and prompt", async () => {
+			mockRequestUrl.mockImplementation(async () => okResponse("Fresh"));
+
+			await callLLM(baseConfig, testPrompt);
+			await callLLM({ ...baseConfig, model: "qwen3" }, testPrompt);
+			await callLLM({ ...baseConfig, temperature: 0.9 }, testPrompt);
+			await callLLM(baseConfig, { ...testPrompt, user: "Another prompt" });
+
+			expect(mockRequestUrl).toHaveBeenCalledTimes(4);
+			expect(await cache.size()).toBe(4);
+		});
+
+		it("sends the request and refreshes the entry when bypassing the cache", async () => {
+			mockRequestUrl
+				.mockResolvedValueOnce(okResponse("Old"))
+				.mockResolvedValueOnce(okResponse("New"));
+
+			await callLLM(baseConfig, testPrompt);
+			expect(await callLLM(baseConfig, testPrompt, { bypassCache: true })).toBe("New");
+			expect(await callLLM(baseConfig, testPrompt)).toBe("New");
+			expect(mockRequestUrl).toHaveBeenCalledTimes(2);
+		});
+
+		it("does not cache failed requests", async () => {
+			mockRequestUrl
+				.mockResolvedValueOnce({ status: 400, json: { error: "bad" }, text: "bad" } as RequestUrlResponse)
+				.mockResolvedValueOnce(okResponse("Recovered"));
+
+			await expect(callLLM(baseConfig, testPrompt)).rejects.toThrow(LLMError);
+			expect(await callLLM(baseConfig, testPrompt)).toBe("Recovered");
+		});
+
+		it("does not cache responses that fail validation", async () => {
+			mockRequestUrl
+				.mockResolvedValueOnce(okResponse("not json"))
+				.mockResolvedValueOnce(okResponse("{}"));
+			const validate = (content: string) => content.startsWith("{");
+
+			expect(await callLLM(baseConfig, testPrompt, { validate })).toBe("not json");
+			expect(await callLLM(baseConfig, testPrompt, { validate })).toBe("{}");
+			expect(await callLLM(baseConfig, testPrompt, { validate })).toBe("{}");
+			expect(mockRequestUrl).toHaveBeenCalledTimes(2);
+		});
+
+		it("does not cache streamed responses that fail validation", async () => {
+			mockFetch
+				.mockResolvedValueOnce(
+					streamingResponse(['{"message":{"content":"not json"},"done":true}\n'], "application/x-ndjson")
+				)
+				.mockResolvedValueOnce(
+					streamingResponse(['{"message":{"content":"{}"},"done":true}\n'], "application/x-ndjson")
+				);
+			const validate = (content: string) => content.startsWith("{");
+			const config: LLMConfig = { ...baseConfig, stream: true };
+
+			expect(await streamLLM(config, testPrompt, () => {}, { validate })).toBe("not json");
+			expect(await streamLLM(config, testPrompt, () => {}, { validate })).toBe("{}");
+			expect(mockFetch).toHaveBeenCalledTimes(2);
+		});
+
+		it("shares entries between streamed and non-streamed requests", async () => {
+			mockFetch.mockResolvedValueOnce(
+				streamingResponse(['{"message":{"content":"Streamed"},"done":true}\n'], "application/x-ndjson")
+			);
+			const tokens: string[] = [];
+
+			await streamLLM({ ...baseConfig, stream: true }, testPrompt, () => {});
+			const cached = await streamLLM({ ...baseConfig, stream: true }, testPrompt, (t) =>
+				tokens.push(t)
+			);
+
+			expect(cached).toBe("Streamed");
+			expect(tokens).toEqual(["Streamed"]);
+			expect(await callLLM(baseConfig, testPrompt)).toBe("Streamed");
+			expect(mockFetch).toHaveBeenCalledTimes(1);
+			expect(mockRequestUrl).not.toHaveBeenCalled();
+		});
+	});
 });
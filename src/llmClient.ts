@@ -1,13 +1,50 @@
 import { requestUrl, type RequestUrlParam, type RequestUrlResponse } from "obsidian";
-import type { LLMConfig, LLMProvider } from "./types";
+import { hashString, type ResponseCache } from "./cache";
+import { computeBackoffDelay, getHeader, getRetryDelay } from "./retry";
+import { joinThinking, splitThinking } from "./thinking";
+import { streamingFetch, type FetchFn } from "./streamingFetch";
+import { resolveContextWindow, resolveThinkingBudget } from "./tokens";
+import {
+	DEFAULT_RETRY_POLICY,
+	type LLMConfig,
+	type LLMPrompt,
+	type LLMProvider,
+	type RetryPolicy,
+	type TokenUsage,
+	type ToolCall,
+	type ToolDefinition,
+} from "./types";
 
 /**
  * Custom error class for LLM-related errors.
  */
 export class LLMError extends Error {
-	constructor(message: string) {
+	/** HTTP status code, when the error came from an HTTP response */
+	readonly status?: number;
+	/** True when the server could not be reached at all */
+	readonly isNetworkError: boolean;
+	/** True when the server did not answer within the configured timeout */
+	readonly isTimeout: boolean;
+
+	constructor(
+		message: string,
+		options: { status?: number; isNetworkError?: boolean; isTimeout?: boolean } = {}
+	) {
 		super(message);
 		this.name = "LLMError";
+		this.status = options.status;
+		this.isNetworkError = options.isNetworkError ?? false;
+		this.isTimeout = options.isTimeout ?? false;
+	}
+}
+
+/**
+ * Error thrown when a request is cancelled through its abort signal.
+ */
+export class LLMCancelledError extends LLMError {
+	constructor() {
+		super("Request cancelled");
+		this.name = "LLMCancelledError";
 	}
 }
 
@@ -17,64 +54,481 @@ export class LLMError extends Error {
 interface OllamaChatResponse {
 	message?: {
 		content?: string;
+		thinking?: string; // when thinking is turned on
 	};
 }
 
 /**
- * OpenAI chat API response structure.
+ * OpenAI chat API response structure (also returned by Azure OpenAI).
  */
 interface OpenAIChatResponse {
 	choices?: Array<{
 		message?: {
-			content?: string;
+			content?: string | null;
+			reasoning_content?: string | null; // OpenAI-compatible servers (DeepSeek, vLLM)
+		};
+		finish_reason?: string | null;
+		content_filter_results?: AzureContentFilterResults;
+	}>;
+}
+
+/**
+ * Token usage fields of each provider's responses and stream chunks.
+ */
+interface UsageResponse {
+	usage?: {
+		// OpenAI and Azure
+		prompt_tokens?: number;
+		completion_tokens?: number;
+		// Anthropic
+		input_tokens?: number;
+		output_tokens?: number;
+	} | null;
+	// Anthropic's message_start stream event
+	message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+	// Gemini
+	usageMetadata?: {
+		promptTokenCount?: number;
+		candidatesTokenCount?: number;
+		thoughtsTokenCount?: number;
+	};
+	// Ollama
+	prompt_eval_count?: number;
+	eval_count?: number;
+}
+
+/**
+ * Azure OpenAI content filter results, keyed by category (hate, violence, ...).
+ */
+type AzureContentFilterResults = Record<string, { filtered?: boolean; severity?: string }>;
+
+/**
+ * Error body returned by OpenAI-compatible, Anthropic and Gemini APIs.
+ *
+ * Azure adds a `code` and, for content filter errors, the per-category results
+ * under `innererror`. Azure API Management errors use a top-level `message`.
+ */
+interface APIErrorResponse {
+	error?: {
+		message?: string;
+		code?: string | null;
+		innererror?: {
+			code?: string;
+			content_filter_result?: AzureContentFilterResults;
+		};
+	};
+	message?: string;
+}
+
+/**
+ * Anthropic Messages API response structure.
+ */
+interface AnthropicMessagesResponse {
+	content?: Array<{
+		type?: string;
+		text?: string;
+		thinking?: string; // in "thinking" blocks
+	}>;
+}
+
+/**
+ * Anthropic streaming event structure (one per SSE `data:` frame).
+ */
+interface AnthropicStreamEvent {
+	type?: string;
+	delta?: {
+		type?: string;
+		text?: string;
+		thinking?: string; // in "thinking_delta" deltas
+	};
+	error?: {
+		message?: string;
+	};
+}
+
+/**
+ * Anthropic API version sent with every Messages API request.
+ */
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/**
+ * Azure OpenAI API version used when none is configured.
+ */
+export const AZURE_DEFAULT_API_VERSION = "2024-10-21";
+
+/**
+ * Gemini generateContent response structure (also used for each streamed chunk).
+ */
+interface GeminiGenerateContentResponse {
+	candidates?: Array<{
+		content?: {
+			parts?: Array<{
+				text?: string;
+				thought?: boolean; // the text is a thought summary
+			}>;
+		};
+	}>;
+	promptFeedback?: {
+		blockReason?: string;
+	};
+	error?: {
+		message?: string;
+	};
+}
+
+/**
+ * OpenAI streaming chunk structure (one per SSE `data:` frame).
+ */
+interface OpenAIStreamChunk {
+	choices?: Array<{
+		delta?: {
+			content?: string | null;
+			reasoning_content?: string | null;
 		};
+		finish_reason?: string | null;
+		content_filter_results?: AzureContentFilterResults;
 	}>;
+	error?: {
+		message?: string;
+	};
+}
+
+/**
+ * Build the request URL for the given provider.
+ *
+ * `{model}` in the endpoint path is replaced with the configured model. For
+ * Gemini, streaming switches to the `streamGenerateContent` SSE endpoint, and
+ * the API key is passed as a `key` query parameter when no header is configured.
+ * For Azure, `{deployment}` is replaced with the deployment name and the
+ * `api-version` query parameter is appended.
+ */
+export function buildRequestUrl(config: LLMConfig, stream = false): string {
+	let path = config.endpointPath.replace(/\{model\}/g, encodeURIComponent(config.model));
+	const query: string[] = [];
+
+	if (config.provider === "azure") {
+		if (!config.azureDeployment) {
+			throw new LLMError("Azure deployment name is not configured");
+		}
+		path = path.replace(/\{deployment\}/g, encodeURIComponent(config.azureDeployment));
+		query.push(`api-version=${encodeURIComponent(config.azureApiVersion ?? AZURE_DEFAULT_API_VERSION)}`);
+	}
+
+	if (config.provider === "gemini") {
+		if (stream) {
+			path = path.replace(":generateContent", ":streamGenerateContent");
+			query.push("alt=sse");
+		}
+		if (!config.apiKeyHeaderName && config.apiKeyHeaderValue) {
+			query.push(`key=${encodeURIComponent(config.apiKeyHeaderValue)}`);
+		}
+	}
+
+	const url = `${config.baseUrl}${path}`;
+	if (query.length === 0) {
+		return url;
+	}
+	return `${url}${url.includes("?") ? "&" : "?"}${query.join("&")}`;
 }
 
 /**
- * Build the request body for the given provider.
+ * Model names of OpenAI's reasoning models, which reject sampling options
+ * such as the temperature (the gpt-5 chat models accept them).
+ */
+const OPENAI_REASONING_MODEL = /^(o\d|gpt-5(?!.*chat))/i;
+
+/**
+ * Build the request body for the given provider, mapping the prompt's system
+ * message, few-shot examples, response schema and sampling options to the
+ * provider's native format, then deep-merging the extra request JSON.
+ *
+ * The reasoning effort maps to `reasoning_effort` for OpenAI and Azure, to a
+ * thinking budget for Anthropic and Gemini, and to turning `think` on or off
+ * for Ollama.
+ *
+ * @throws LLMError if the extra request JSON is invalid
  */
 export function buildRequestBody(
 	config: LLMConfig,
-	prompt: string
+	prompt: LLMPrompt,
+	stream = false
+): Record<string, unknown> {
+	return deepMerge(
+		buildProviderRequestBody(config, prompt, stream),
+		parseExtraRequestJson(config.extraRequestJson)
+	);
+}
+
+function buildProviderRequestBody(
+	config: LLMConfig,
+	prompt: LLMPrompt,
+	stream: boolean
 ): Record<string, unknown> {
+	const effort = config.reasoningEffort;
+	const stop = config.stopSequences?.length ? config.stopSequences : undefined;
+
+	if (config.provider === "gemini") {
+		// Model and streaming are selected through the URL, not the body
+		return {
+			...(prompt.system ? { systemInstruction: { parts: [{ text: prompt.system }] } } : {}),
+			contents: buildChatTurns(prompt).map(({ role, content }) => ({
+				role: role === "assistant" ? "model" : "user",
+				parts: [{ text: content }],
+			})),
+			generationConfig: {
+				temperature: config.temperature,
+				maxOutputTokens: config.maxTokens,
+				...definedFields({
+					topP: config.topP,
+					frequencyPenalty: config.frequencyPenalty,
+					seed: config.seed,
+					stopSequences: stop,
+				}),
+				...(prompt.responseSchema ? { responseMimeType: "application/json" } : {}),
+				...(effort
+					? {
+							thinkingConfig: {
+								thinkingBudget: resolveThinkingBudget(config),
+								includeThoughts: effort !== "minimal",
+							},
+						}
+					: {}),
+			},
+		};
+	}
+
+	if (config.provider === "anthropic") {
+		// Anthropic takes the system prompt as a top-level field, not a message.
+		// It has no JSON mode, so a response schema relies on the instructions.
+		// It supports neither a seed nor a frequency penalty.
+		const base = {
+			model: config.model,
+			...(prompt.system ? { system: prompt.system } : {}),
+			messages: buildChatTurns(prompt),
+			stream,
+			...definedFields({ top_p: config.topP, stop_sequences: stop }),
+		};
+		if (effort && effort !== "minimal") {
+			// Thinking counts towards max_tokens and does not allow a temperature
+			const budget = resolveThinkingBudget(config);
+			return {
+				...base,
+				max_tokens: config.maxTokens + budget,
+				thinking: { type: "enabled", budget_tokens: budget },
+			};
+		}
+		return {
+			...base,
+			max_tokens: config.maxTokens,
+			temperature: config.temperature,
+		};
+	}
+
+	const systemMessages = prompt.system ? [{ role: "system", content: prompt.system }] : [];
 	const base = {
 		model: config.model,
-		messages: [{ role: "user", content: prompt }],
-		stream: false,
+		messages: [...systemMessages, ...buildChatTurns(prompt)],
+		stream,
 	};
 
-	if (config.provider === "openai") {
+	if (config.provider === "openai" || config.provider === "azure") {
+		const reasoning = effort !== undefined || OPENAI_REASONING_MODEL.test(config.model);
 		return {
 			...base,
 			max_completion_tokens: config.maxTokens,
+			...(reasoning
+				? {}
+				: definedFields({
+						temperature: config.temperature,
+						top_p: config.topP,
+						frequency_penalty: config.frequencyPenalty,
+					})),
+			...definedFields({ seed: config.seed, stop }),
+			...(effort ? { reasoning_effort: effort } : {}),
+			// Without this, streamed responses do not report token usage
+			...(stream ? { stream_options: { include_usage: true } } : {}),
+			...(prompt.responseSchema
+				? {
+						response_format: {
+							type: "json_schema",
+							json_schema: { ...prompt.responseSchema, strict: true },
+						},
+					}
+				: {}),
 		};
 	}
 
-	// Ollama (default)
+	// Ollama (default). num_ctx makes the server use the same context window
+	// the evidence pack was budgeted for, instead of silently truncating.
 	return {
 		...base,
+		...(prompt.responseSchema ? { format: prompt.responseSchema.schema } : {}),
+		...(effort ? { think: effort !== "minimal" } : {}),
+		...definedFields({ keep_alive: parseKeepAlive(config.keepAlive) }),
 		options: {
 			temperature: config.temperature,
 			num_predict: config.maxTokens,
+			num_ctx: resolveContextWindow(config),
+			...definedFields({
+				top_p: config.topP,
+				frequency_penalty: config.frequencyPenalty,
+				seed: config.seed,
+				stop,
+			}),
 		},
 	};
 }
 
 /**
- * Parse the response content based on provider format.
+ * Returns the fields whose value is set.
+ */
+function definedFields(fields: Record<string, unknown>): Record<string, unknown> {
+	const defined: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(fields)) {
+		if (value !== undefined) {
+			defined[key] = value;
+		}
+	}
+	return defined;
+}
+
+/**
+ * Converts Ollama's keep-alive to the value the API expects: a number of
+ * seconds, or a duration such as "10m".
+ */
+function parseKeepAlive(keepAlive: string | undefined): string | number | undefined {
+	const value = keepAlive?.trim();
+	if (!value) {
+		return undefined;
+	}
+	return /^-?\d+$/.test(value) ? Number(value) : value;
+}
+
+/**
+ * Parses the extra request JSON of a profile.
+ *
+ * @returns The parsed object (empty when no JSON is configured)
+ * @throws LLMError if the text is not valid JSON or not an object
+ */
+export function parseExtraRequestJson(text: string | undefined): Record<string, unknown> {
+	if (!text?.trim()) {
+		return {};
+	}
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new LLMError(`Invalid extra request JSON: ${message}`);
+	}
+	if (!isPlainObject(parsed)) {
+		throw new LLMError("Invalid extra request JSON: expected an object");
+	}
+	return parsed;
+}
+
+/**
+ * Merges `source` into a copy of `target`. Nested objects are merged; arrays
+ * and other values in `source` replace those in `target`.
+ */
+function deepMerge(
+	target: Record<string, unknown>,
+	source: Record<string, unknown>
+): Record<string, unknown> {
+	const merged: Record<string, unknown> = { ...target };
+	for (const [key, value] of Object.entries(source)) {
+		const existing = merged[key];
+		merged[key] =
+			isPlainObject(existing) && isPlainObject(value) ? deepMerge(existing, value) : value;
+	}
+	return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Builds the conversation turns of a prompt: the few-shot examples as
+ * alternating user/assistant turns, followed by the user message.
+ */
+function buildChatTurns(prompt: LLMPrompt): { role: "user" | "assistant"; content: string }[] {
+	const turns: { role: "user" | "assistant"; content: string }[] = [];
+	for (const example of prompt.examples ?? []) {
+		turns.push({ role: "user", content: example.user });
+		turns.push({ role: "assistant", content: example.assistant });
+	}
+	turns.push({ role: "user", content: prompt.user });
+	return turns;
+}
+
+/**
+ * A response split into the answer and the model's reasoning.
+ */
+interface ParsedResponse {
+	content: string;
+	thinking: string; // empty if the model returned none
+}
+
+/**
+ * Parse the response content based on provider format, leaving out the
+ * model's reasoning.
  */
 export function parseResponseContent(
 	provider: LLMProvider,
 	json: unknown
 ): string {
-	if (provider === "openai") {
+	return parseResponse(provider, json).content;
+}
+
+/**
+ * Parse a response into the answer and the reasoning. Reasoning comes from
+ * the provider's own fields (Ollama's `thinking`, Anthropic's thinking blocks,
+ * Gemini's thought parts, the `reasoning_content` of OpenAI-compatible
+ * servers) and from thinking tags in the text.
+ */
+function parseResponse(provider: LLMProvider, json: unknown): ParsedResponse {
+	if (provider === "openai" || provider === "azure") {
 		const data = json as OpenAIChatResponse;
-		const content = data.choices?.[0]?.message?.content;
+		const choice = data.choices?.[0];
+		if (choice?.finish_reason === "content_filter") {
+			throw new LLMError(
+				`Response blocked by content filter${describeFilteredCategories(choice.content_filter_results)}`
+			);
+		}
+		const content = choice?.message?.content;
 		if (typeof content !== "string") {
 			throw new LLMError("Unexpected response format: missing choices[0].message.content");
 		}
-		return content;
+		return separateThinking(content, choice?.message?.reasoning_content);
+	}
+
+	if (provider === "anthropic") {
+		const data = json as AnthropicMessagesResponse;
+		if (!Array.isArray(data.content)) {
+			throw new LLMError("Unexpected response format: missing content blocks");
+		}
+		// Concatenate text blocks; other block types (e.g. tool use) are skipped
+		const text = data.content
+			.filter((block) => block.type === "text" && typeof block.text === "string")
+			.map((block) => block.text)
+			.join("");
+		const thinking = data.content
+			.filter((block) => block.type === "thinking")
+			.map((block) => block.thinking ?? "");
+		return separateThinking(text, joinThinking(thinking));
+	}
+
+	if (provider === "gemini") {
+		const data = json as GeminiGenerateContentResponse;
+		const parts = data.candidates?.[0]?.content?.parts;
+		if (!Array.isArray(parts)) {
+			if (data.promptFeedback?.blockReason) {
+				throw new LLMError(`Prompt blocked by Gemini: ${data.promptFeedback.blockReason}`);
+			}
+			throw new LLMError("Unexpected response format: missing candidates[0].content.parts");
+		}
+		return separateThinking(joinGeminiParts(parts), joinGeminiThoughts(parts));
 	}
 
 	// Ollama (default)
@@ -83,7 +537,235 @@ export function parseResponseContent(
 	if (typeof content !== "string") {
 		throw new LLMError("Unexpected response format: missing message content");
 	}
-	return content;
+	return separateThinking(content, data.message?.thinking);
+}
+
+/**
+ * Removes thinking tags from a response text and combines their content with
+ * the reasoning the provider returned separately.
+ */
+function separateThinking(text: string, reasoning: string | null | undefined): ParsedResponse {
+	const split = splitThinking(text);
+	return { content: split.content, thinking: joinThinking([reasoning ?? "", split.thinking]) };
+}
+
+/**
+ * Lists the categories an Azure content filter flagged, e.g. " (hate: high)".
+ */
+function describeFilteredCategories(results: AzureContentFilterResults | undefined): string {
+	const flagged = Object.keys(results ?? {})
+		.filter((category) => results?.[category]?.filtered)
+		.map((category) => {
+			const severity = results?.[category]?.severity;
+			return severity ? `${category}: ${severity}` : category;
+		});
+	return flagged.length > 0 ? ` (${flagged.join(", ")})` : "";
+}
+
+/**
+ * Extracts a human-readable message from an error response body.
+ *
+ * @param provider - The provider that returned the error
+ * @param json - The parsed error body, if it was JSON
+ * @param text - The raw error body
+ */
+export function parseErrorMessage(provider: LLMProvider, json: unknown, text: string): string {
+	const data = (json ?? {}) as APIErrorResponse;
+	const error = data.error;
+
+	if (provider === "azure") {
+		if (error?.code === "content_filter") {
+			const categories = describeFilteredCategories(error.innererror?.content_filter_result);
+			return `Blocked by Azure content filter${categories}: ${error.message ?? ""}`.trim();
+		}
+		if (error?.message) {
+			return error.code ? `${error.code}: ${error.message}` : error.message;
+		}
+		if (data.message) {
+			return data.message;
+		}
+	}
+
+	return error?.message ?? text ?? "";
+}
+
+function joinGeminiParts(parts: Array<{ text?: string; thought?: boolean }>): string {
+	return parts
+		.filter((part) => !part.thought)
+		.map((part) => part.text ?? "")
+		.join("");
+}
+
+function joinGeminiThoughts(parts: Array<{ text?: string; thought?: boolean }>): string {
+	return parts
+		.filter((part) => part.thought)
+		.map((part) => part.text ?? "")
+		.join("");
+}
+
+/**
+ * Parse the token usage reported in a response or stream chunk.
+ *
+ * Stream chunks can carry part of the usage (Anthropic reports the input
+ * tokens when the stream starts and the output tokens when it ends), so only
+ * the fields present are returned.
+ */
+export function parseUsage(provider: LLMProvider, json: unknown): Partial<TokenUsage> {
+	const usage: Partial<TokenUsage> = {};
+	if (typeof json !== "object" || json === null) {
+		return usage;
+	}
+	const data = json as UsageResponse;
+	const set = (field: keyof TokenUsage, value: number | undefined) => {
+		if (typeof value === "number") {
+			usage[field] = value;
+		}
+	};
+
+	if (provider === "openai" || provider === "azure") {
+		set("inputTokens", data.usage?.prompt_tokens);
+		set("outputTokens", data.usage?.completion_tokens);
+	} else if (provider === "anthropic") {
+		const reported = data.usage ?? data.message?.usage;
+		set("inputTokens", reported?.input_tokens);
+		set("outputTokens", reported?.output_tokens);
+	} else if (provider === "gemini") {
+		const metadata = data.usageMetadata;
+		set("inputTokens", metadata?.promptTokenCount);
+		// Thinking tokens are billed as output but counted separately
+		if (metadata?.candidatesTokenCount !== undefined || metadata?.thoughtsTokenCount !== undefined) {
+			set("outputTokens", (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0));
+		}
+	} else {
+		set("inputTokens", data.prompt_eval_count);
+		set("outputTokens", data.eval_count);
+	}
+	return usage;
+}
+
+/**
+ * Extracts the JSON payload of a stream line: the line itself for Ollama's
+ * NDJSON, the `data:` field of SSE frames for the other providers.
+ *
+ * @returns The payload, or null if the line carries none
+ */
+function streamPayload(provider: LLMProvider, line: string): string | null {
+	const trimmed = line.trim();
+	if (!trimmed || provider === "ollama") {
+		return trimmed || null;
+	}
+	// Ignore SSE comments and event/id fields
+	if (!trimmed.startsWith("data:")) {
+		return null;
+	}
+	const payload = trimmed.slice("data:".length).trim();
+	return payload === "[DONE]" ? null : payload;
+}
+
+/**
+ * Parse the token usage reported in a line of a streaming response.
+ *
+ * @returns The usage fields present in the line (empty if none)
+ * @throws LLMError if the line is malformed
+ */
+export function parseStreamUsage(provider: LLMProvider, line: string): Partial<TokenUsage> {
+	const payload = streamPayload(provider, line);
+	return payload ? parseUsage(provider, parseStreamJson(payload)) : {};
+}
+
+/**
+ * Parse the reasoning a provider streams separately from the answer (see
+ * parseResponse). Thinking tags in the answer are not included.
+ *
+ * @returns The reasoning text of the line, or null if it carries none
+ * @throws LLMError if the line is malformed
+ */
+export function parseStreamThinking(provider: LLMProvider, line: string): string | null {
+	const payload = streamPayload(provider, line);
+	if (!payload) {
+		return null;
+	}
+	const json = parseStreamJson(payload);
+
+	if (provider === "anthropic") {
+		const event = json as AnthropicStreamEvent;
+		return event.type === "content_block_delta" && event.delta?.type === "thinking_delta"
+			? (event.delta.thinking ?? null)
+			: null;
+	}
+	if (provider === "gemini") {
+		const parts = (json as GeminiGenerateContentResponse).candidates?.[0]?.content?.parts;
+		return parts ? joinGeminiThoughts(parts) || null : null;
+	}
+	if (provider === "ollama") {
+		return (json as OllamaChatResponse).message?.thinking || null;
+	}
+	return (json as OpenAIStreamChunk).choices?.[0]?.delta?.reasoning_content || null;
+}
+
+/**
+ * Parse a single line of a streaming response into a token.
+ *
+ * Ollama streams newline-delimited JSON objects; OpenAI, Anthropic and Gemini
+ * stream SSE frames prefixed with `data:` (OpenAI terminates with `data: [DONE]`).
+ *
+ * @returns The token text, or null if the line carries no content
+ * @throws LLMError if the line is malformed or reports an error
+ */
+export function parseStreamLine(provider: LLMProvider, line: string): string | null {
+	const payload = streamPayload(provider, line);
+	if (!payload) {
+		return null;
+	}
+
+	if (provider !== "ollama") {
+		if (provider === "anthropic") {
+			const event = parseStreamJson(payload) as AnthropicStreamEvent;
+			if (event.type === "error") {
+				throw new LLMError(`Streaming error: ${event.error?.message ?? "unknown error"}`);
+			}
+			if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+				return event.delta.text ?? null;
+			}
+			return null;
+		}
+
+		if (provider === "gemini") {
+			const chunk = parseStreamJson(payload) as GeminiGenerateContentResponse;
+			if (chunk.error) {
+				throw new LLMError(`Streaming error: ${chunk.error.message ?? "unknown error"}`);
+			}
+			const parts = chunk.candidates?.[0]?.content?.parts;
+			return parts ? joinGeminiParts(parts) || null : null;
+		}
+
+		const data = parseStreamJson(payload) as OpenAIStreamChunk;
+		if (data.error) {
+			throw new LLMError(`Streaming error: ${data.error.message ?? "unknown error"}`);
+		}
+		const choice = data.choices?.[0];
+		if (choice?.finish_reason === "content_filter") {
+			throw new LLMError(
+				`Response blocked by content filter${describeFilteredCategories(choice.content_filter_results)}`
+			);
+		}
+		return choice?.delta?.content ?? null;
+	}
+
+	// Ollama (default)
+	const data = parseStreamJson(payload) as OllamaChatResponse & { error?: string };
+	if (data.error) {
+		throw new LLMError(`Streaming error: ${data.error}`);
+	}
+	return data.message?.content ?? null;
+}
+
+function parseStreamJson(payload: string): unknown {
+	try {
+		return JSON.parse(payload);
+	} catch {
+		throw new LLMError(`Unexpected response format: malformed stream chunk: ${payload}`);
+	}
 }
 
 /**
@@ -108,17 +790,27 @@ export function resetRequestUrlImpl(): void {
 	requestUrlImpl = requestUrl;
 }
 
+// Default implementation for streaming
+let fetchImpl: FetchFn = streamingFetch;
+
 /**
- * Calls the LLM API with the given prompt.
- *
- * @param config - LLM configuration
- * @param prompt - The prompt to send
- * @returns The LLM response content
- * @throws LLMError on failure
+ * Set a custom fetch implementation (for testing).
+ */
+export function setFetchImpl(impl: FetchFn): void {
+	fetchImpl = impl;
+}
+
+/**
+ * Reset to the default fetch implementation.
  */
-export async function callLLM(config: LLMConfig, prompt: string): Promise<string> {
-	const url = `${config.baseUrl}${config.endpointPath}`;
+export function resetFetchImpl(): void {
+	fetchImpl = streamingFetch;
+}
 
+/**
+ * Builds the request headers, including the optional API key header.
+ */
+function buildHeaders(config: LLMConfig): Record<string, string> {
 	const headers: Record<string, string> = {
 		"Content-Type": "application/json",
 	};
@@ -131,43 +823,956 @@ export async function callLLM(config: LLMConfig, prompt: string): Promise<string
 		headers[config.apiKeyHeaderName] = headerValue;
 	}
 
-	const body = JSON.stringify(buildRequestBody(config, prompt));
+	if (config.provider === "anthropic") {
+		headers["anthropic-version"] = ANTHROPIC_VERSION;
+	}
 
-	// Attempt with one retry on network failure
-	let lastError: Error | null = null;
-	for (let attempt = 0; attempt < 2; attempt++) {
-		try {
-			const response = await requestUrlImpl({
-				url,
-				method: "POST",
-				headers,
-				body,
-				throw: false,
-			});
+	return headers;
+}
 
-			if (response.status >= 400) {
-				const errorBody = (response.json as { error?: { message?: string } })?.error?.message
-					?? response.text
-					?? "";
-				throw new LLMError(
-					`LLM request failed (${response.status}): ${errorBody}`
-				);
-			}
+/**
+ * Type for the sleep function used between retries, to support dependency injection.
+ */
+export type SleepFn = (ms: number) => Promise<void>;
 
-			return parseResponseContent(config.provider, response.json);
-		} catch (error) {
-			if (error instanceof LLMError) {
-				// Don't retry LLM errors (HTTP errors, parse errors)
-				throw error;
-			}
-			// Network error - save for retry
-			lastError = error instanceof Error ? error : new Error(String(error));
-			if (attempt === 1) {
-				throw new LLMError(`Network error after retry: ${lastError.message}`);
-			}
-		}
-	}
+const defaultSleep: SleepFn = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let sleepImpl: SleepFn = defaultSleep;
+
+/**
+ * Set a custom sleep implementation (for testing).
+ */
+export function setSleepImpl(impl: SleepFn): void {
+	sleepImpl = impl;
+}
 
-	// Should never reach here, but TypeScript needs this
-	throw new LLMError(lastError?.message ?? "Unknown error");
+/**
+ * Reset to the default sleep implementation.
+ */
+export function resetSleepImpl(): void {
+	sleepImpl = defaultSleep;
+}
+
+let responseCache: ResponseCache | null = null;
+
+/**
+ * Set the response cache used by callLLM and streamLLM (null disables caching).
+ */
+export function setResponseCache(cache: ResponseCache | null): void {
+	responseCache = cache;
+}
+
+/**
+ * Builds the cache key for a request: a hash of the URL and the request
+ * body, which together cover the provider, model, parameters and prompt.
+ */
+function buildCacheKey(config: LLMConfig, prompt: LLMPrompt): string {
+	return hashString(
+		JSON.stringify([buildRequestUrl(config), buildRequestBody(config, prompt)])
+	);
+}
+
+/**
+ * Returns the cached response for a request, or null on a miss. Returns null
+ * without waiting when caching is off or bypassed, so the request starts in
+ * the same tick.
+ */
+function readCache(
+	config: LLMConfig,
+	prompt: LLMPrompt,
+	options: CallOptions
+): Promise<string | null> | null {
+	if (!responseCache || options.bypassCache) {
+		return null;
+	}
+	return responseCache.get(buildCacheKey(config, prompt));
+}
+
+/**
+ * Stores a response in the cache (also when the read was bypassed, so the
+ * fresh response replaces the old one). Responses that fail the caller's
+ * validation are not stored, so asking again reaches the model.
+ */
+async function writeCache(
+	config: LLMConfig,
+	prompt: LLMPrompt,
+	content: string,
+	options: CallOptions
+): Promise<void> {
+	if (options.validate && !options.validate(content)) {
+		return;
+	}
+	await responseCache?.set(buildCacheKey(config, prompt), content);
+}
+
+/**
+ * Options for a single LLM call.
+ */
+export interface CallOptions {
+	/** Retry policy for network and transient HTTP errors (defaults to one retry) */
+	retryPolicy?: RetryPolicy;
+	/** Aborts the call; the returned promise rejects with LLMCancelledError */
+	signal?: AbortSignal;
+	/** Called for every HTTP response received, including attempts that are retried */
+	onResponse?: (response: { url: string; status: number }) => void;
+	/** Skip the cached response and ask the model again (the new response is cached) */
+	bypassCache?: boolean;
+	/** Called once the model has answered (not for cached responses) */
+	onUsage?: (usage: CallUsage) => void;
+	/** Called after every HTTP request, including failed and retried attempts */
+	onExchange?: (exchange: LLMExchange) => void;
+	/** Called with the model's reasoning, which is left out of the response (not for cached responses) */
+	onThinking?: (thinking: string) => void;
+	/** Whether a response is usable; responses that are not are returned but not cached */
+	validate?: (content: string) => boolean;
+}
+
+/**
+ * A single HTTP request to the LLM server and its outcome, for debug logging.
+ * Credentials are redacted from the URL and headers.
+ */
+export interface LLMExchange {
+	provider: LLMProvider;
+	model: string;
+	url: string;
+	headers: Record<string, string>;
+	requestBody: unknown;
+	status?: number; // missing if the server did not answer
+	response?: string; // raw response body (the complete stream when streaming)
+	error?: string;
+	startedAt: string; // ISO
+	durationMs: number;
+}
+
+/**
+ * Replacement for redacted credentials.
+ */
+const REDACTED = "[REDACTED]";
+
+/**
+ * Header names that carry credentials, besides the configured API key header.
+ */
+const CREDENTIAL_HEADERS = ["authorization", "api-key", "x-api-key", "x-goog-api-key"];
+
+/**
+ * Returns a copy of the headers with credentials replaced by a placeholder.
+ */
+export function redactHeaders(
+	headers: Record<string, string>,
+	config: LLMConfig
+): Record<string, string> {
+	const secret = config.apiKeyHeaderName?.toLowerCase();
+	const redacted: Record<string, string> = {};
+	for (const [name, value] of Object.entries(headers)) {
+		const lower = name.toLowerCase();
+		redacted[name] = lower === secret || CREDENTIAL_HEADERS.includes(lower) ? REDACTED : value;
+	}
+	return redacted;
+}
+
+/**
+ * Replaces an API key passed in the query string (as Gemini allows).
+ */
+export function redactUrl(url: string): string {
+	return url.replace(/([?&]key=)[^&]*/, `$1${REDACTED}`);
+}
+
+/**
+ * Reports an HTTP exchange to the caller, with credentials redacted.
+ */
+function reportExchange(
+	config: LLMConfig,
+	options: CallOptions,
+	request: { url: string; headers: Record<string, string>; body: string },
+	attemptStartedAt: number,
+	outcome: { status?: number; response?: string; error?: unknown }
+): void {
+	if (!options.onExchange) {
+		return;
+	}
+	options.onExchange({
+		provider: config.provider,
+		model: config.model,
+		url: redactUrl(request.url),
+		headers: redactHeaders(request.headers, config),
+		requestBody: JSON.parse(request.body) as unknown,
+		status: outcome.status,
+		response: outcome.response,
+		...("error" in outcome
+			? {
+					error:
+						outcome.error instanceof Error ? outcome.error.message : String(outcome.error),
+				}
+			: {}),
+		startedAt: new Date(attemptStartedAt).toISOString(),
+		durationMs: Date.now() - attemptStartedAt,
+	});
+}
+
+/**
+ * Token usage and latency of an answered LLM call. Token counts are missing
+ * when the provider did not report them.
+ */
+export interface CallUsage extends Partial<TokenUsage> {
+	provider: LLMProvider;
+	model: string;
+	latencyMs: number; // from the first attempt until the response was complete
+}
+
+/**
+ * Reports the usage of an answered call to the caller.
+ */
+function reportUsage(
+	config: LLMConfig,
+	options: CallOptions,
+	usage: Partial<TokenUsage>,
+	startedAt: number
+): void {
+	options.onUsage?.({
+		provider: config.provider,
+		model: config.model,
+		...usage,
+		latencyMs: Date.now() - startedAt,
+	});
+}
+
+/**
+ * Reports the model's reasoning to the caller, if it returned any.
+ */
+function reportThinking(options: CallOptions, thinking: string): void {
+	if (thinking) {
+		options.onThinking?.(thinking);
+	}
+}
+
+/**
+ * Throws LLMCancelledError if the signal has been aborted.
+ */
+function throwIfCancelled(signal: AbortSignal | undefined): void {
+	if (signal?.aborted) {
+		throw new LLMCancelledError();
+	}
+}
+
+/**
+ * Races a promise against a timeout and an abort signal.
+ *
+ * The underlying work is not stopped when the timeout fires or the signal
+ * aborts (requestUrl cannot be aborted); its eventual result is discarded.
+ *
+ * @param promise - The work to wait for
+ * @param timeoutMs - Timeout in milliseconds (0 or less disables it)
+ * @param signal - Optional abort signal
+ * @throws LLMError with `isTimeout` on timeout, LLMCancelledError on abort
+ */
+function withTimeout<T>(
+	promise: Promise<T>,
+	timeoutMs: number,
+	signal: AbortSignal | undefined
+): Promise<T> {
+	return new Promise<T>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new LLMCancelledError());
+			return;
+		}
+
+		const onAbort = () => {
+			cleanup();
+			reject(new LLMCancelledError());
+		};
+		const timer =
+			timeoutMs > 0
+				? setTimeout(() => {
+						cleanup();
+						reject(timeoutError(timeoutMs));
+					}, timeoutMs)
+				: undefined;
+		const cleanup = () => {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", onAbort);
+		};
+		signal?.addEventListener("abort", onAbort);
+
+		promise.then(
+			(value) => {
+				cleanup();
+				resolve(value);
+			},
+			(error: unknown) => {
+				cleanup();
+				reject(error instanceof Error ? error : new Error(String(error)));
+			}
+		);
+	});
+}
+
+/**
+ * Builds the error for a request that exceeded its timeout.
+ */
+function timeoutError(timeoutMs: number): LLMError {
+	return new LLMError(`LLM request timed out after ${Math.round(timeoutMs / 1000)}s`, {
+		isTimeout: true,
+	});
+}
+
+/**
+ * Waits between retries, stopping early if the call is cancelled.
+ */
+async function backoff(ms: number, signal: AbortSignal | undefined): Promise<void> {
+	await withTimeout(sleepImpl(ms), 0, signal);
+}
+
+/**
+ * Reads the JSON body of a response, reporting non-JSON bodies as LLM errors.
+ */
+function readJson(response: RequestUrlResponse): unknown {
+	try {
+		return response.json as unknown;
+	} catch {
+		throw new LLMError("Unexpected response format: response is not valid JSON");
+	}
+}
+
+/**
+ * Builds the error for a failed HTTP response.
+ */
+function httpError(provider: LLMProvider, status: number, json: unknown, text: string): LLMError {
+	const errorBody = parseErrorMessage(provider, json, text);
+	return new LLMError(`LLM request failed (${status}): ${errorBody}`, { status });
+}
+
+/**
+ * Calls the LLM API with the given prompt.
+ *
+ * Network failures and retryable HTTP statuses are retried according to the
+ * retry policy, waiting with exponential backoff or as long as the server's
+ * `Retry-After` header asks. Each attempt is limited to the config's
+ * `timeoutSeconds`. Responses are served from and saved to the response
+ * cache, when one is set.
+ *
+ * @param config - LLM configuration
+ * @param prompt - The prompt to send
+ * @param options - Call options (retry policy, abort signal)
+ * @returns The LLM response content
+ * @throws LLMError on failure, LLMCancelledError if the signal aborts
+ */
+export async function callLLM(
+	config: LLMConfig,
+	prompt: LLMPrompt,
+	options: CallOptions = {}
+): Promise<string> {
+	const body = JSON.stringify(buildRequestBody(config, prompt));
+
+	const pendingCache = readCache(config, prompt, options);
+	const cached = pendingCache && (await pendingCache);
+	if (cached) {
+		return cached;
+	}
+
+	const startedAt = Date.now();
+	const json = await sendRequest(config, body, options);
+	const { content, thinking } = parseResponse(config.provider, json);
+	reportUsage(config, options, parseUsage(config.provider, json), startedAt);
+	reportThinking(options, thinking);
+	await writeCache(config, prompt, content, options);
+	return content;
+}
+
+/**
+ * Sends a non-streaming request, retrying as described for callLLM.
+ *
+ * @param body - The serialized request body
+ * @param url - The endpoint, the chat endpoint of the config by default
+ * @returns The parsed JSON response
+ * @throws LLMError on failure, LLMCancelledError if the signal aborts
+ */
+async function sendRequest(
+	config: LLMConfig,
+	body: string,
+	options: CallOptions,
+	url = buildRequestUrl(config)
+): Promise<unknown> {
+	const policy = options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+	const headers = buildHeaders(config);
+	const timeoutMs = config.timeoutSeconds * 1000;
+
+	for (let attempt = 1; ; attempt++) {
+		throwIfCancelled(options.signal);
+		const attemptStartedAt = Date.now();
+		let response: RequestUrlResponse;
+		try {
+			response = await withTimeout(
+				requestUrlImpl({
+					url,
+					method: "POST",
+					headers,
+					body,
+					throw: false,
+				}),
+				timeoutMs,
+				options.signal
+			);
+		} catch (error) {
+			reportExchange(config, options, { url, headers, body }, attemptStartedAt, { error });
+			// Timeouts and cancellation are final; a timed-out request is not retried
+			if (error instanceof LLMError) {
+				throw error;
+			}
+			// Network error - retry with backoff
+			if (attempt >= policy.maxAttempts) {
+				const message = error instanceof Error ? error.message : String(error);
+				throw new LLMError(`Network error after retry: ${message}`, {
+					isNetworkError: true,
+				});
+			}
+			await backoff(computeBackoffDelay(policy, attempt), options.signal);
+			continue;
+		}
+
+		options.onResponse?.({ url, status: response.status });
+		reportExchange(config, options, { url, headers, body }, attemptStartedAt, {
+			status: response.status,
+			response: response.text,
+		});
+		if (response.status >= 400) {
+			let json: unknown = null;
+			try {
+				json = readJson(response);
+			} catch {
+				// Not JSON - the raw text is used instead
+			}
+			const error = httpError(config.provider, response.status, json, response.text);
+			const delay = getRetryDelay(
+				policy,
+				attempt,
+				response.status,
+				getHeader(response.headers, "retry-after")
+			);
+			if (delay === null) {
+				throw error;
+			}
+			await backoff(delay, options.signal);
+			continue;
+		}
+
+		return readJson(response);
+	}
+}
+
+/**
+ * Calls the LLM API and streams the response, pushing tokens to a callback as
+ * they arrive.
+ *
+ * Falls back to a regular (non-streaming) request when streaming is disabled
+ * in the config, when the streaming request cannot be made (e.g. blocked by
+ * CORS), or when the server ignores the stream flag and answers with plain JSON.
+ * In those cases the full response is delivered to `onToken` in one piece.
+ * Retryable HTTP statuses are retried before any text has been streamed.
+ * The config's `timeoutSeconds` limits the wait for the response and for
+ * each subsequent chunk, so a slow but steady stream is not cut off.
+ * Thinking tags are streamed to `onToken` like the rest of the text but are
+ * left out of the returned content.
+ *
+ * @param config - LLM configuration
+ * @param prompt - The prompt to send
+ * @param onToken - Called with each chunk of generated text
+ * @param options - Call options (retry policy, abort signal)
+ * @returns The full LLM response content
+ * @throws LLMError on failure, LLMCancelledError if the signal aborts
+ */
+export async function streamLLM(
+	config: LLMConfig,
+	prompt: LLMPrompt,
+	onToken: (token: string) => void,
+	options: CallOptions = {}
+): Promise<string> {
+	const fallback = async (): Promise<string> => {
+		const content = await callLLM(config, prompt, options);
+		onToken(content);
+		return content;
+	};
+
+	if (!config.stream) {
+		return fallback();
+	}
+
+	const pendingCache = readCache(config, prompt, options);
+	const cached = pendingCache && (await pendingCache);
+	if (cached) {
+		onToken(cached);
+		return cached;
+	}
+
+	const policy = options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+	const timeoutMs = config.timeoutSeconds * 1000;
+	const startedAt = Date.now();
+	// Aborts the underlying connection on cancellation or timeout
+	const controller = new AbortController();
+	const abort = () => controller.abort();
+	options.signal?.addEventListener("abort", abort);
+
+	try {
+		const url = buildRequestUrl(config, true);
+		const request = {
+			url,
+			headers: buildHeaders(config),
+			body: JSON.stringify(buildRequestBody(config, prompt, true)),
+		};
+		let attemptStartedAt = startedAt;
+		let response: Response;
+		for (let attempt = 1; ; attempt++) {
+			throwIfCancelled(options.signal);
+			attemptStartedAt = Date.now();
+			try {
+				response = await withTimeout(
+					fetchImpl(url, {
+						method: "POST",
+						headers: request.headers,
+						body: request.body,
+						signal: controller.signal,
+					}),
+					timeoutMs,
+					options.signal
+				);
+			} catch (error) {
+				reportExchange(config, options, request, attemptStartedAt, { error });
+				if (error instanceof LLMError) {
+					throw error;
+				}
+				throwIfCancelled(options.signal);
+				return await fallback();
+			}
+
+			options.onResponse?.({ url, status: response.status });
+			if (response.status < 400) {
+				break;
+			}
+
+			const text = await response.text();
+			reportExchange(config, options, request, attemptStartedAt, {
+				status: response.status,
+				response: text,
+			});
+			let json: unknown = null;
+			try {
+				json = JSON.parse(text);
+			} catch {
+				// Not JSON - use the raw text
+			}
+			const error = httpError(config.provider, response.status, json, text);
+			const delay = getRetryDelay(
+				policy,
+				attempt,
+				response.status,
+				response.headers.get("retry-after") ?? undefined
+			);
+			if (delay === null) {
+				throw error;
+			}
+			await backoff(delay, options.signal);
+		}
+
+		if (!response.body) {
+			return await fallback();
+		}
+
+		const contentType = response.headers.get("content-type") ?? "";
+		if (contentType.includes("application/json")) {
+			// Server does not stream - parse the complete response instead
+			const json: unknown = await withTimeout(response.json(), timeoutMs, options.signal);
+			reportExchange(config, options, request, attemptStartedAt, {
+				status: response.status,
+				response: JSON.stringify(json),
+			});
+			const { content, thinking } = parseResponse(config.provider, json);
+			onToken(content);
+			reportUsage(config, options, parseUsage(config.provider, json), startedAt);
+			reportThinking(options, thinking);
+			await writeCache(config, prompt, content, options);
+			return content;
+		}
+
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder();
+		let buffer = "";
+		let content = "";
+		// The stream as received, for the debug log
+		let raw = "";
+		const usage: Partial<TokenUsage> = {};
+		// Reasoning streamed separately from the answer
+		let reasoning = "";
+
+		try {
+			for (;;) {
+				let chunk: ReadableStreamReadResult<Uint8Array>;
+				try {
+					// The timeout applies to the wait for each chunk, not the whole response
+					chunk = await withTimeout(reader.read(), timeoutMs, options.signal);
+				} catch (error) {
+					reader.cancel().catch(() => {
+						// The stream is being discarded anyway
+					});
+					throw error;
+				}
+				const { done, value } = chunk;
+				const text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+				buffer += text;
+				raw += text;
+
+				const lines = buffer.split("\n");
+				// Keep the trailing partial line until more data arrives
+				buffer = done ? "" : (lines.pop() ?? "");
+
+				for (const line of lines) {
+					const token = parseStreamLine(config.provider, line);
+					if (token) {
+						content += token;
+						onToken(token);
+					}
+					Object.assign(usage, parseStreamUsage(config.provider, line));
+					reasoning += parseStreamThinking(config.provider, line) ?? "";
+				}
+
+				if (done) {
+					break;
+				}
+			}
+		} catch (error) {
+			reportExchange(config, options, request, attemptStartedAt, {
+				status: response.status,
+				response: raw,
+				error,
+			});
+			throw error;
+		}
+
+		reportExchange(config, options, request, attemptStartedAt, {
+			status: response.status,
+			response: raw,
+		});
+		const { content: answer, thinking } = separateThinking(content, reasoning);
+		reportUsage(config, options, usage, startedAt);
+		reportThinking(options, thinking);
+		await writeCache(config, prompt, answer, options);
+		return answer;
+	} catch (error) {
+		controller.abort();
+		throw error;
+	} finally {
+		options.signal?.removeEventListener("abort", abort);
+	}
+}
+
+/**
+ * Assistant message of OpenAI and Ollama chat responses, with tool calls.
+ * OpenAI sends the arguments as a JSON string, Ollama as an object.
+ */
+interface ToolCallingMessage {
+	role?: string;
+	content?: string | null;
+	tool_calls?: Array<{
+		id?: string;
+		function?: {
+			name?: string;
+			arguments?: string | Record<string, unknown>;
+		};
+	}>;
+}
+
+/**
+ * Options for a call in which the model can use tools.
+ */
+export interface ToolCallingOptions extends CallOptions {
+	/** Rounds of tool calls after which the model must answer */
+	maxRounds: number;
+	/** Called before each tool call is run */
+	onToolCall?: (call: ToolCall) => void;
+}
+
+/**
+ * Whether tool calling is supported for the provider.
+ */
+export function supportsToolCalling(provider: LLMProvider): boolean {
+	return provider === "openai" || provider === "azure" || provider === "ollama";
+}
+
+/**
+ * Calls the LLM API and lets the model call tools until it answers.
+ *
+ * Each round sends the conversation so far with the tool definitions; the
+ * model's tool calls are run and their results added to the conversation.
+ * After `maxRounds` rounds the model is asked to answer without tools.
+ * Requests are retried like callLLM's but never cached, since tool results
+ * change with the vault. Usage is reported for every round.
+ *
+ * @param config - LLM configuration (OpenAI, Azure or Ollama)
+ * @param prompt - The prompt to send
+ * @param tools - The tools the model can call
+ * @param runTool - Runs a tool call and returns its result for the model; a
+ * thrown error is passed to the model as the result
+ * @param options - Call options and the round cap
+ * @returns The final response content
+ * @throws LLMError on failure or for providers without tool calling,
+ * LLMCancelledError if the signal aborts
+ */
+export async function callLLMWithTools(
+	config: LLMConfig,
+	prompt: LLMPrompt,
+	tools: ToolDefinition[],
+	runTool: (call: ToolCall) => Promise<string>,
+	options: ToolCallingOptions
+): Promise<string> {
+	if (!supportsToolCalling(config.provider)) {
+		throw new LLMError(`Tool calling is not supported for ${config.provider}`);
+	}
+
+	const body = buildRequestBody(config, prompt);
+	const messages = [...(body.messages as unknown[])];
+	const toolSpecs = tools.map((tool) => ({
+		type: "function",
+		function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+	}));
+
+	for (let round = 0; ; round++) {
+		const final = round >= options.maxRounds;
+		// Ollama has no tool_choice, so the tools are left out instead
+		const toolFields =
+			config.provider === "ollama"
+				? final
+					? {}
+					: { tools: toolSpecs }
+				: { tools: toolSpecs, ...(final ? { tool_choice: "none" } : {}) };
+
+		const startedAt = Date.now();
+		const json = await sendRequest(
+			config,
+			JSON.stringify({ ...body, messages, ...toolFields }),
+			options
+		);
+		reportUsage(config, options, parseUsage(config.provider, json), startedAt);
+
+		const message = toolCallingMessage(config.provider, json);
+		const calls = final ? [] : (message?.tool_calls ?? []);
+		if (!message || calls.length === 0) {
+			const { content, thinking } = parseResponse(config.provider, json);
+			reportThinking(options, thinking);
+			return content;
+		}
+
+		messages.push(message);
+		for (const call of calls) {
+			const toolCall: ToolCall = {
+				name: call.function?.name ?? "",
+				arguments: parseToolArguments(call.function?.arguments),
+			};
+			options.onToolCall?.(toolCall);
+			let result: string;
+			try {
+				result = await runTool(toolCall);
+			} catch (error) {
+				result = `Error: ${error instanceof Error ? error.message : String(error)}`;
+			}
+			throwIfCancelled(options.signal);
+			messages.push(
+				config.provider === "ollama"
+					? { role: "tool", tool_name: toolCall.name, content: result }
+					: { role: "tool", tool_call_id: call.id, content: result }
+			);
+		}
+	}
+}
+
+function toolCallingMessage(provider: LLMProvider, json: unknown): ToolCallingMessage | undefined {
+	if (provider === "ollama") {
+		return (json as { message?: ToolCallingMessage }).message;
+	}
+	return (json as { choices?: Array<{ message?: ToolCallingMessage }> }).choices?.[0]?.message;
+}
+
+/**
+ * Parses tool call arguments. Arguments that are not a JSON object are
+ * replaced by an empty object, so the tool reports what is missing.
+ */
+function parseToolArguments(args: string | Record<string, unknown> | undefined): Record<string, unknown> {
+	if (typeof args !== "string") {
+		return args ?? {};
+	}
+	try {
+		const parsed: unknown = JSON.parse(args);
+		return isPlainObject(parsed) ? parsed : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Ollama model list response structure.
+ */
+interface OllamaTagsResponse {
+	models?: { name?: string }[];
+}
+
+/**
+ * OpenAI-compatible model list response structure (also returned by Anthropic).
+ */
+interface ModelListResponse {
+	data?: { id?: string }[];
+}
+
+/**
+ * Whether the provider has an endpoint for listing available models.
+ */
+export function supportsModelListing(provider: LLMProvider): boolean {
+	return provider === "ollama" || provider === "openai" || provider === "anthropic";
+}
+
+/**
+ * Builds the model list URL for the configured server.
+ *
+ * For OpenAI-compatible servers the path is derived from the chat endpoint,
+ * so servers mounted under a prefix (e.g. `/openai/v1/chat/completions`) list
+ * models from the same prefix.
+ */
+function buildModelListUrl(config: LLMConfig): string {
+	if (config.provider === "ollama") {
+		return `${config.baseUrl}/api/tags`;
+	}
+	if (config.provider === "openai" && config.endpointPath.endsWith("/chat/completions")) {
+		return `${config.baseUrl}${config.endpointPath.replace(/\/chat\/completions$/, "/models")}`;
+	}
+	return `${config.baseUrl}/v1/models`;
+}
+
+/**
+ * Lists the models available on the configured server: the installed models
+ * for Ollama, or the models the API key can use for OpenAI and Anthropic.
+ *
+ * @param config - LLM configuration (the model name is ignored)
+ * @returns Model names, sorted alphabetically
+ * @throws LLMError if the provider cannot list models or the request fails
+ */
+export async function listModels(config: LLMConfig): Promise<string[]> {
+	if (!supportsModelListing(config.provider)) {
+		throw new LLMError(`Listing models is not supported for ${config.provider}`);
+	}
+
+	let response: RequestUrlResponse;
+	try {
+		response = await withTimeout(
+			requestUrlImpl({
+				url: buildModelListUrl(config),
+				method: "GET",
+				headers: buildHeaders(config),
+				throw: false,
+			}),
+			config.timeoutSeconds * 1000,
+			undefined
+		);
+	} catch (error) {
+		if (error instanceof LLMError) {
+			throw error;
+		}
+		const message = error instanceof Error ? error.message : String(error);
+		throw new LLMError(`Network error: ${message}`, { isNetworkError: true });
+	}
+
+	if (response.status >= 400) {
+		let json: unknown = null;
+		try {
+			json = readJson(response);
+		} catch {
+			// Not JSON - the raw text is used instead
+		}
+		throw httpError(config.provider, response.status, json, response.text);
+	}
+
+	const json = readJson(response) as (OllamaTagsResponse & ModelListResponse) | null;
+	const models = config.provider === "ollama" ? json?.models : json?.data;
+	if (!Array.isArray(models)) {
+		throw new LLMError("Unexpected response format: missing model list");
+	}
+	const names = models
+		.map((model: { name?: string; id?: string }) => model.name ?? model.id)
+		.filter((name): name is string => typeof name === "string");
+	return [...new Set(names)].sort();
+}
+
+/**
+ * Ollama embeddings response structure.
+ */
+interface OllamaEmbedResponse {
+	embeddings?: number[][];
+}
+
+/**
+ * OpenAI-compatible embeddings response structure.
+ */
+interface EmbeddingListResponse {
+	data?: { embedding?: number[]; index?: number }[];
+}
+
+/**
+ * Whether the provider has an embeddings endpoint the client supports.
+ */
+export function supportsEmbeddings(provider: LLMProvider): boolean {
+	return provider === "ollama" || provider === "openai";
+}
+
+/**
+ * Builds the embeddings URL for the configured server, derived from the chat
+ * endpoint like the model list URL.
+ */
+function buildEmbeddingUrl(config: LLMConfig): string {
+	if (config.provider === "ollama") {
+		return `${config.baseUrl}/api/embed`;
+	}
+	if (config.endpointPath.endsWith("/chat/completions")) {
+		return `${config.baseUrl}${config.endpointPath.replace(/\/chat\/completions$/, "/embeddings")}`;
+	}
+	return `${config.baseUrl}/v1/embeddings`;
+}
+
+/**
+ * Computes embedding vectors for texts with the config's model, through
+ * Ollama's `/api/embed` or the OpenAI-compatible `/v1/embeddings` endpoint.
+ * Requests are retried like chat requests; responses are not cached and
+ * usage is not reported.
+ *
+ * @param config - LLM configuration whose model is an embedding model
+ * @param texts - Texts to embed in one request
+ * @param options - Call options (retry policy, abort signal)
+ * @returns One vector per text, in the order of the texts
+ * @throws LLMError if the provider has no embeddings endpoint or the request fails
+ */
+export async function embedTexts(
+	config: LLMConfig,
+	texts: string[],
+	options: CallOptions = {}
+): Promise<number[][]> {
+	if (!supportsEmbeddings(config.provider)) {
+		throw new LLMError(`Embeddings are not supported for ${config.provider}`);
+	}
+	if (texts.length === 0) {
+		return [];
+	}
+
+	const body = JSON.stringify({ model: config.model, input: texts });
+	const json = (await sendRequest(config, body, options, buildEmbeddingUrl(config))) as
+		| (OllamaEmbedResponse & EmbeddingListResponse)
+		| null;
+	const vectors =
+		config.provider === "ollama"
+			? json?.embeddings
+			: json?.data
+					?.slice()
+					.sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+					.map((item) => item.embedding);
+	if (
+		!Array.isArray(vectors) ||
+		vectors.length !== texts.length ||
+		!vectors.every((vector) => Array.isArray(vector))
+	) {
+		throw new LLMError("Unexpected response format: missing embeddings");
+	}
+	return vectors;
 }
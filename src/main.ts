@@ -1,29 +1,129 @@
-import { type Editor, Notice, Plugin, TFile } from "obsidian";
-import { DEFAULT_SETTINGS, type ReviewSettings, type CustomRange } from "./types";
+import { type Editor, MarkdownView, Notice, Plugin, TFile } from "obsidian";
+import {
+	DEFAULT_SETTINGS,
+	type NoteChange,
+	type ReviewSettings,
+	type CustomRange,
+	type LLMCommand,
+	type LLMProfile,
+} from "./types";
 import { ReviewSettingsTab } from "./ui/settingsTab";
 import { PeriodModal, type PeriodModalResult } from "./ui/periodModal";
-import { SprinklePromptModal } from "./ui/sprinklePromptModal";
+import { SprinklePromptModal, type SprinklePromptResult } from "./ui/sprinklePromptModal";
 import {
 	SprinkleReviewModal,
 	type SprinkleReviewResult,
 } from "./ui/sprinkleReviewModal";
-import { ObsidianVaultAdapter } from "./vaultAdapter";
+import { StreamingPreviewModal } from "./ui/streamingPreviewModal";
+import { AskVaultModal } from "./ui/askVaultModal";
+import { VaultAnswerModal, type VaultAnswerResult } from "./ui/vaultAnswerModal";
+import { ObsidianVaultAdapter, PluginFileStore, VaultLogFileStore } from "./vaultAdapter";
 import { resolvePeriod } from "./period";
 import { scanNotes } from "./scan";
+import { parseQuery, type QueryNode } from "./noteQuery";
 import { buildEvidencePack } from "./evidence";
 import { buildPrompt } from "./prompt";
-import { callLLM, LLMError } from "./llmClient";
+import { estimatePromptTokens, smallestEvidenceBudget } from "./tokens";
+import {
+	callLLM,
+	callLLMWithTools,
+	embedTexts,
+	LLMCancelledError,
+	LLMError,
+	setResponseCache,
+	streamLLM,
+	supportsToolCalling,
+	type CallOptions,
+	type CallUsage,
+} from "./llmClient";
 import { renderReviewNote, getWeekStart } from "./render";
 import { resolveFilename } from "./filenames";
 import { buildSummaryPrompt, insertSummarySection } from "./summarize";
 import { buildSprinklePrompt } from "./sprinkle";
+import {
+	getProfile,
+	normalizeProfiles,
+	resolveCommandProfile,
+	resolveFallbackChain,
+} from "./profiles";
+import { callWithFallback, type FallbackResult } from "./fallback";
+import { ResponseCache, type ResponseCacheOptions } from "./cache";
+import { isStructuredReview, parseStructuredReview, renderStructuredReview } from "./reviewSchema";
+import { addTokenUsage, UsageLedger } from "./usage";
+import { NOTE_TOOLS, NoteTools } from "./noteTools";
+import { DebugLog } from "./debugLog";
+import { SemanticIndex } from "./semanticIndex";
+import { ContentSnapshot } from "./contentSnapshot";
+import {
+	answerNoteTitle,
+	buildAskPrompt,
+	renderAnswerNote,
+	renderAnswerSection,
+} from "./askVault";
+
+/**
+ * Quiet time after the last edit of a note before it is indexed and hashed again.
+ */
+const NOTE_UPDATE_DELAY_MS = 5000;
 
 export default class ReviewGeneratorPlugin extends Plugin {
 	settings: ReviewSettings = DEFAULT_SETTINGS;
+	/** Controllers for the LLM requests currently in flight */
+	private activeRequests = new Set<AbortController>();
+	private cancelStatusItem: HTMLElement | null = null;
+	private responseCache: ResponseCache | null = null;
+	/** Token usage of every LLM call, for the totals in the settings */
+	usageLedger: UsageLedger | null = null;
+	private debugLog: DebugLog | null = null;
+	/** Vector index of the vault, for features that look up related notes */
+	semanticIndex: SemanticIndex | null = null;
+	/** The running sync of the semantic index */
+	private indexSync: { controller: AbortController; done: Promise<void> } | null = null;
+	/** Pending index updates per note path, so typing does not embed every keystroke */
+	private indexUpdateTimers = new Map<string, number>();
+	/** Content hashes of the notes, to tell edits from modification time bumps */
+	private contentSnapshot: ContentSnapshot | null = null;
+	/** Pending content snapshot updates per note path */
+	private snapshotUpdateTimers = new Map<string, number>();
 
 	async onload() {
 		await this.loadSettings();
 
+		this.usageLedger = new UsageLedger(
+			new PluginFileStore(this.app, `${this.manifest.dir}/usage-ledger.json`)
+		);
+		this.debugLog = new DebugLog(new VaultLogFileStore(this.app), this.settings.debugLog);
+
+		this.responseCache = new ResponseCache(
+			new PluginFileStore(this.app, `${this.manifest.dir}/response-cache.json`),
+			this.cacheOptions()
+		);
+		this.applyCacheSettings();
+
+		this.semanticIndex = new SemanticIndex(
+			new PluginFileStore(this.app, `${this.manifest.dir}/semantic-index.json`),
+			this.settings.semanticIndex.model,
+			(texts, signal) =>
+				embedTexts(this.embeddingConfig(), texts, {
+					retryPolicy: this.settings.retryPolicy,
+					signal,
+				})
+		);
+		this.contentSnapshot = new ContentSnapshot(
+			new PluginFileStore(this.app, `${this.manifest.dir}/content-snapshot.json`)
+		);
+		// Start after the vault has loaded, which reports every note as created
+		this.app.workspace.onLayoutReady(() => {
+			this.register(
+				new ObsidianVaultAdapter(this.app).onNoteChange((change) =>
+					this.handleNoteChange(change)
+				)
+			);
+			if (this.settings.semanticIndex.enabled) {
+				void this.syncSemanticIndex(false);
+			}
+		});
+
 		// Add the generate review command
 		this.addCommand({
 			id: "generate-review",
@@ -31,6 +131,12 @@ export default class ReviewGeneratorPlugin extends Plugin {
 			callback: () => this.generateReview(),
 		});
 
+		this.addCommand({
+			id: "generate-review-bypass-cache",
+			name: "Generate review (bypass cache)",
+			callback: () => this.generateReview(true),
+		});
+
 		// Add the summarize note command
 		this.addCommand({
 			id: "summarize-note",
@@ -38,6 +144,61 @@ export default class ReviewGeneratorPlugin extends Plugin {
 			editorCallback: (editor, ctx) => this.summarizeCurrentNote(ctx.file),
 		});
 
+		this.addCommand({
+			id: "summarize-note-bypass-cache",
+			name: "Summarize this note (bypass cache)",
+			editorCallback: (editor, ctx) => this.summarizeCurrentNote(ctx.file, true),
+		});
+
+		// Add the clear cache command
+		this.addCommand({
+			id: "clear-cache",
+			name: "Clear cache",
+			callback: () => this.clearCache(),
+		});
+
+		this.addCommand({
+			id: "ask-vault",
+			name: "Ask your vault",
+			callback: () => this.askVault(),
+		});
+
+		this.addCommand({
+			id: "rebuild-semantic-index",
+			name: "Rebuild semantic index",
+			checkCallback: (checking) => {
+				if (!this.settings.semanticIndex.enabled) {
+					return false;
+				}
+				if (!checking) {
+					void this.rebuildSemanticIndex();
+				}
+				return true;
+			},
+		});
+
+		// Add the cancel command, available only while a request is running
+		this.addCommand({
+			id: "cancel-request",
+			name: "Cancel current request",
+			checkCallback: (checking) => {
+				if (this.activeRequests.size === 0) {
+					return false;
+				}
+				if (!checking) {
+					this.cancelRequests();
+				}
+				return true;
+			},
+		});
+
+		// Add a status bar button that cancels the running request
+		this.cancelStatusItem = this.addStatusBarItem();
+		this.cancelStatusItem.addClass("mod-clickable");
+		this.cancelStatusItem.setText("Cancel AI request");
+		this.registerDomEvent(this.cancelStatusItem, "click", () => this.cancelRequests());
+		this.updateCancelStatusItem();
+
 		// Add "Sprinkle AI" context menu item
 		this.registerEvent(
 			this.app.workspace.on("editor-menu", (menu, editor) => {
@@ -55,30 +216,190 @@ export default class ReviewGeneratorPlugin extends Plugin {
 	}
 
 	onunload() {
-		// Cleanup if needed
+		this.cancelRequests();
+		this.indexSync?.controller.abort();
+		this.indexUpdateTimers.forEach((timer) => window.clearTimeout(timer));
+		this.snapshotUpdateTimers.forEach((timer) => window.clearTimeout(timer));
+		setResponseCache(null);
 	}
 
 	async loadSettings() {
 		const data = (await this.loadData()) as Partial<ReviewSettings> | null;
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
-		// Ensure nested objects are properly merged
-		if (data?.llm) {
-			this.settings.llm = Object.assign({}, DEFAULT_SETTINGS.llm, data.llm);
-		}
+		// Ensure nested objects are properly merged (and migrate the legacy single config)
+		Object.assign(this.settings, normalizeProfiles(data, DEFAULT_SETTINGS));
+		this.settings.retryPolicy = Object.assign(
+			{},
+			DEFAULT_SETTINGS.retryPolicy,
+			data?.retryPolicy
+		);
+		this.settings.responseCache = Object.assign(
+			{},
+			DEFAULT_SETTINGS.responseCache,
+			data?.responseCache
+		);
+		this.settings.debugLog = Object.assign({}, DEFAULT_SETTINGS.debugLog, data?.debugLog);
+		this.settings.reviewTools = Object.assign({}, DEFAULT_SETTINGS.reviewTools, data?.reviewTools);
+		this.settings.semanticIndex = Object.assign(
+			{},
+			DEFAULT_SETTINGS.semanticIndex,
+			data?.semanticIndex
+		);
+		this.settings.askVault = Object.assign({}, DEFAULT_SETTINGS.askVault, data?.askVault);
+		this.settings.noteDates = Object.assign({}, DEFAULT_SETTINGS.noteDates, data?.noteDates);
+		this.settings.modelPrices = data?.modelPrices ?? [];
+		this.settings.savedQueries = data?.savedQueries ?? [];
+		delete (this.settings as { llm?: unknown }).llm;
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		this.applyCacheSettings();
+		this.debugLog?.setOptions(this.settings.debugLog);
+		this.semanticIndex?.setModel(this.settings.semanticIndex.model);
 	}
 
-	private async generateReview() {
+	/**
+	 * Clears every cached response.
+	 */
+	async clearCache() {
+		await this.responseCache?.clear();
+		new Notice("Response cache cleared.");
+	}
+
+	private cacheOptions(): ResponseCacheOptions {
+		const { ttlHours, maxSizeMb } = this.settings.responseCache;
+		return { ttlMs: ttlHours * 60 * 60 * 1000, maxSizeBytes: maxSizeMb * 1024 * 1024 };
+	}
+
+	/**
+	 * Points the LLM client at the cache, or disables caching, per the settings.
+	 */
+	private applyCacheSettings() {
+		if (!this.responseCache) return;
+		this.responseCache.setOptions(this.cacheOptions());
+		setResponseCache(this.settings.responseCache.enabled ? this.responseCache : null);
+	}
+
+	/**
+	 * Embedding configuration: the server of the selected profile with the
+	 * embedding model.
+	 */
+	private embeddingConfig(): LLMProfile {
+		const { profileId, model } = this.settings.semanticIndex;
+		return { ...getProfile(this.settings, profileId), model };
+	}
+
+	/**
+	 * Brings the semantic index up to date with the vault, unless a sync is
+	 * already running. Only a sync started by the user reports its progress
+	 * and failures in notices.
+	 */
+	async syncSemanticIndex(notify = true) {
+		if (!this.semanticIndex || this.indexSync) return;
+		const controller = new AbortController();
+		const done = this.runIndexSync(this.semanticIndex, controller.signal, notify).finally(() => {
+			this.indexSync = null;
+		});
+		this.indexSync = { controller, done };
+		await done;
+	}
+
+	/**
+	 * Stops the running semantic index sync, if any. The notes it indexed are kept.
+	 */
+	async stopSemanticIndexSync() {
+		const running = this.indexSync;
+		running?.controller.abort();
+		await running?.done;
+	}
+
+	/**
+	 * Clears the semantic index and indexes every note again.
+	 */
+	async rebuildSemanticIndex() {
+		await this.stopSemanticIndexSync();
+		await this.semanticIndex?.clear();
+		await this.syncSemanticIndex();
+	}
+
+	private async runIndexSync(index: SemanticIndex, signal: AbortSignal, notify: boolean) {
+		const notice = notify ? new Notice("Indexing notes...", 0) : null;
+		try {
+			const { embedded, removed } = await index.sync(
+				new ObsidianVaultAdapter(this.app),
+				(checked, total) => notice?.setMessage(`Indexing notes: ${checked}/${total}`),
+				signal
+			);
+			if (notice) {
+				notice.setMessage(`Semantic index updated: ${embedded} notes indexed, ${removed} removed.`);
+				window.setTimeout(() => notice.hide(), 5000);
+			}
+		} catch (error) {
+			notice?.hide();
+			if (notify) {
+				const message = error instanceof Error ? error.message : String(error);
+				new Notice(`Indexing failed: ${message}`, 0);
+			}
+			console.warn("Semantic index sync failed:", error);
+		}
+	}
+
+	/**
+	 * Passes a note change on to the semantic index and the content snapshot,
+	 * when they are turned on.
+	 */
+	private handleNoteChange(change: NoteChange) {
+		const vault = new ObsidianVaultAdapter(this.app);
+		if (this.settings.semanticIndex.enabled) {
+			this.debounceNoteChange(this.indexUpdateTimers, change, () => {
+				this.semanticIndex
+					?.update(vault, change)
+					.catch((error: unknown) => console.warn("Semantic index update failed:", error));
+			});
+		}
+		if (this.settings.trackContentChanges) {
+			this.debounceNoteChange(this.snapshotUpdateTimers, change, () => {
+				this.contentSnapshot
+					?.update(vault, change)
+					.catch((error: unknown) => console.warn("Content snapshot update failed:", error));
+			});
+		}
+	}
+
+	/**
+	 * Runs the update for a modified note once it has not been edited for a
+	 * while. Deletions and renames run at once and cancel pending updates.
+	 *
+	 * @param timers - Pending updates per note path
+	 */
+	private debounceNoteChange(timers: Map<string, number>, change: NoteChange, update: () => void) {
+		const paths = change.type === "rename" ? [change.path, change.oldPath] : [change.path];
+		for (const path of paths) {
+			window.clearTimeout(timers.get(path));
+			timers.delete(path);
+		}
+		const run = () => {
+			timers.delete(change.path);
+			update();
+		};
+		if (change.type === "modify") {
+			timers.set(change.path, window.setTimeout(run, NOTE_UPDATE_DELAY_MS));
+		} else {
+			run();
+		}
+	}
+
+	private async generateReview(bypassCache = false) {
 		const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 		const now = new Date();
+		let request: AbortController | undefined;
 
 		try {
 			// Step 1: Get period selection
 			let preset = this.settings.defaultPeriodPreset;
 			let customRange: CustomRange | undefined;
+			let dateSources = this.settings.noteDates.sources;
 
 			if (this.settings.promptForPeriodOnRun) {
 				const modalResult = await this.showPeriodModal();
@@ -89,10 +410,12 @@ export default class ReviewGeneratorPlugin extends Plugin {
 
 				preset = modalResult.preset;
 				customRange = modalResult.customRange;
+				dateSources = modalResult.dateSources;
 
 				// Save as default if requested
 				if (modalResult.saveAsDefault) {
 					this.settings.defaultPeriodPreset = preset;
+					this.settings.noteDates = { ...this.settings.noteDates, sources: dateSources };
 					if (customRange) {
 						this.settings.customStartDate = customRange.start.toISOString();
 						this.settings.customEndDate = customRange.end.toISOString();
@@ -120,51 +443,167 @@ export default class ReviewGeneratorPlugin extends Plugin {
 
 			const period = resolvePeriod(preset, customRange, now, timezone);
 
-			// Step 3: Scan notes
+			// Step 3: Scan notes, selected by a saved query or by folders and tags
+			const source = this.reviewNoteSource();
+			if (!source) {
+				return;
+			}
 			const vault = new ObsidianVaultAdapter(this.app);
 			const notes = await scanNotes(
 				vault,
-				this.settings.foldersToScan,
+				source.patterns,
 				period.start,
-				period.end
+				period.end,
+				{
+					tagFilters: source.tagFilters,
+					query: source.query,
+					noteDates: { ...this.settings.noteDates, sources: dateSources },
+					contentChanges: this.settings.trackContentChanges
+						? (this.contentSnapshot ?? undefined)
+						: undefined,
+				}
 			);
+			await this.contentSnapshot?.save();
 
 			if (notes.length === 0) {
 				new Notice("No notes found for the selected period.", 0);
 				return;
 			}
 
-			// Step 4: Build evidence pack
+			// Step 4: Build evidence pack, fitting the notes into the model's context window
+			const profile = resolveCommandProfile(this.settings, "review");
+			const toolsEnabled = this.settings.reviewTools.enabled;
+			const promptTokens = estimatePromptTokens(
+				buildPrompt(
+					{
+						notes: [],
+						totalNotesScanned: notes.length,
+						notesIncluded: 0,
+						estimatedTokens: 0,
+						tokensDropped: 0,
+					},
+					period,
+					this.settings.systemPromptOverride,
+					this.settings.reviewOutputFormat,
+					toolsEnabled
+				)
+			);
+			// The notes must fit every profile the call may fall back to
+			const budget = smallestEvidenceBudget(
+				resolveFallbackChain(this.settings, profile),
+				promptTokens
+			);
 			const evidence = buildEvidencePack(
 				notes,
 				this.settings.maxNotes,
-				this.settings.maxCharsPerNote
+				this.settings.maxCharsPerNote,
+				budget.budget
 			);
 
+			if (evidence.notes.length === 0) {
+				new Notice(
+					`The context window of "${budget.config.name}" is too small to include any notes. Increase the context window or lower max tokens.`,
+					0
+				);
+				return;
+			}
+
 			// Step 5: Build prompt and call LLM
-			const prompt = buildPrompt(evidence, period, this.settings.systemPromptOverride);
-			const llmResponse = await callLLM(this.settings.llm, prompt);
+			const prompt = buildPrompt(
+				evidence,
+				period,
+				this.settings.systemPromptOverride,
+				this.settings.reviewOutputFormat
+			);
+			// Profiles whose provider has no tool calling get the prompt without tools
+			const toolPrompt = toolsEnabled
+				? buildPrompt(
+						evidence,
+						period,
+						this.settings.systemPromptOverride,
+						this.settings.reviewOutputFormat,
+						true
+					)
+				: prompt;
+			const noteTools = new NoteTools(vault, this.settings.maxCharsPerNote);
+			const controller = this.startRequest();
+			request = controller;
+			const { signal } = controller;
+			// Closing the preview while the review is generated stops the request
+			const preview = new StreamingPreviewModal(this.app, "Generating review", () =>
+				controller.abort()
+			);
+			preview.open();
+			let answer: FallbackResult<LLMProfile, string>;
+			let usage: CallUsage | undefined;
+			let reasoning = "";
+			const options = this.callOptions("review", signal, bypassCache, {
+				onUsage: (u) => {
+					// Tool calling makes a request per round; the note shows the total
+					usage = usage ? { ...u, ...addTokenUsage(usage, u) } : u;
+				},
+				onThinking: (thinking) => {
+					reasoning = thinking;
+				},
+				// A review that fails the schema must not be served from the cache on retry
+				validate: this.settings.reviewOutputFormat === "json" ? isStructuredReview : undefined,
+			});
+			try {
+				answer = await this.callWithFallbackChain(profile, (config) =>
+					toolsEnabled && supportsToolCalling(config.provider)
+						? callLLMWithTools(
+								config,
+								toolPrompt,
+								NOTE_TOOLS,
+								(call) => noteTools.run(call),
+								{
+									...options,
+									maxRounds: this.settings.reviewTools.maxRounds,
+									onToolCall: (call) =>
+										preview.appendText(`${call.name} ${JSON.stringify(call.arguments)}\n`),
+								}
+							)
+						: streamLLM(config, prompt, (token) => preview.appendText(token), options)
+				);
+			} finally {
+				preview.finish();
+			}
+			const llmResponse =
+				this.settings.reviewOutputFormat === "json"
+					? renderStructuredReview(parseStructuredReview(answer.result))
+					: answer.result;
 
 			// Step 6: Render the review note
+			const usedTools = toolsEnabled && supportsToolCalling(answer.config.provider);
 			const metadata = {
 				weekStart: getWeekStart(period.start, timezone),
 				periodStart: period.start.toISOString(),
 				periodEnd: period.end.toISOString(),
 				periodPreset: period.preset,
 				generatedAt: now.toISOString(),
-				scannedFolders:
-					this.settings.foldersToScan.length > 0
-						? this.settings.foldersToScan
-						: ["(entire vault)"],
-				model: this.settings.llm.model,
+				scannedFolders: source.description,
+				provider: answer.config.provider,
+				model: answer.config.model,
+				notesScanned: evidence.totalNotesScanned,
+				notesIncluded: evidence.notesIncluded,
+				tokensDropped: evidence.tokensDropped,
+				inputTokens: usage?.inputTokens,
+				outputTokens: usage?.outputTokens,
+				notesRetrieved: usedTools ? noteTools.notesRead() : undefined,
 			};
 
-			const noteContent = renderReviewNote(llmResponse, period, metadata);
+			const noteContent = renderReviewNote(llmResponse, period, metadata, {
+				reasoning: this.settings.reasoningOutput === "callout" ? reasoning : undefined,
+				toolCalls: usedTools ? noteTools.calls : undefined,
+			});
 
 			// Step 7: Create the file
 			const existingFiles = (await vault.listMarkdownFiles()).map((f) => f.path);
 			const filename = resolveFilename(this.settings.outputFolder, now, existingFiles, timezone);
 
+			if (signal.aborted) {
+				throw new LLMCancelledError();
+			}
 			await vault.createFile(filename, noteContent);
 
 			// Success!
@@ -176,6 +615,10 @@ export default class ReviewGeneratorPlugin extends Plugin {
 				await this.app.workspace.getLeaf().openFile(file);
 			}
 		} catch (error) {
+			if (error instanceof LLMCancelledError) {
+				new Notice("Request cancelled.");
+				return;
+			}
 			if (error instanceof LLMError) {
 				new Notice(`LLM Error: ${error.message}`, 0);
 			} else if (error instanceof Error) {
@@ -184,54 +627,221 @@ export default class ReviewGeneratorPlugin extends Plugin {
 				new Notice("An unexpected error occurred.", 0);
 			}
 			console.error("Review generation failed:", error);
+		} finally {
+			if (request) {
+				this.finishRequest(request);
+			}
 		}
 	}
 
+	/**
+	 * Criteria selecting the notes a review scans: the saved query chosen as
+	 * the review source, or else the folders and tags to scan. Shows a notice
+	 * and returns null if the saved query is missing or invalid.
+	 */
+	private reviewNoteSource(): {
+		patterns: string[];
+		tagFilters: string[];
+		query?: QueryNode;
+		description: string[]; // recorded as scanned_folders in the review note
+	} | null {
+		const { foldersToScan, tagFilters, reviewQuery, savedQueries } = this.settings;
+		if (!reviewQuery) {
+			const criteria = [...foldersToScan, ...tagFilters];
+			return {
+				patterns: foldersToScan,
+				tagFilters,
+				description: criteria.length > 0 ? criteria : ["(entire vault)"],
+			};
+		}
+		const saved = savedQueries.find((q) => q.name === reviewQuery);
+		if (!saved) {
+			new Notice(`Saved query "${reviewQuery}" not found. Please update settings.`, 0);
+			return null;
+		}
+		try {
+			return {
+				patterns: [],
+				tagFilters: [],
+				query: parseQuery(saved.query),
+				description: [`query: ${saved.query.trim()}`],
+			};
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Invalid saved query "${reviewQuery}": ${message}`, 0);
+			return null;
+		}
+	}
+
+	/**
+	 * Options shared by every LLM call. The usage of each answered call is
+	 * recorded in the ledger before being passed on to `onUsage`, and every
+	 * exchange is written to the debug log when it is turned on.
+	 */
+	private callOptions(
+		command: LLMCommand,
+		signal: AbortSignal,
+		bypassCache = false,
+		{
+			onUsage,
+			onThinking,
+			validate,
+		}: Pick<CallOptions, "onUsage" | "onThinking" | "validate"> = {}
+	): CallOptions {
+		return {
+			retryPolicy: this.settings.retryPolicy,
+			signal,
+			bypassCache,
+			onThinking,
+			validate,
+			onUsage: (usage) => {
+				void this.usageLedger?.record({
+					timestamp: new Date().toISOString(),
+					command,
+					...usage,
+				});
+				onUsage?.(usage);
+			},
+			onExchange: this.settings.debugLog.enabled
+				? (exchange) => void this.debugLog?.write(command, exchange)
+				: undefined,
+		};
+	}
+
+	/**
+	 * Registers a new in-flight request that can be cancelled by the user.
+	 */
+	private startRequest(): AbortController {
+		const controller = new AbortController();
+		this.activeRequests.add(controller);
+		this.updateCancelStatusItem();
+		return controller;
+	}
+
+	private finishRequest(controller: AbortController) {
+		this.activeRequests.delete(controller);
+		this.updateCancelStatusItem();
+	}
+
+	/**
+	 * Aborts every in-flight request.
+	 */
+	private cancelRequests() {
+		for (const controller of this.activeRequests) {
+			controller.abort();
+		}
+	}
+
+	private updateCancelStatusItem() {
+		this.cancelStatusItem?.toggle(this.activeRequests.size > 0);
+	}
+
+	/**
+	 * Calls the LLM with the given profile, moving through the configured
+	 * fallback profiles when it is unreachable or overloaded.
+	 */
+	private async callWithFallbackChain<T>(
+		primary: LLMProfile,
+		call: (config: LLMProfile) => Promise<T>
+	): Promise<FallbackResult<LLMProfile, T>> {
+		const answer = await callWithFallback(
+			resolveFallbackChain(this.settings, primary),
+			this.settings.fallbackStatuses,
+			call
+		);
+		if (answer.skipped.length > 0) {
+			new Notice(`"${primary.name}" failed, used fallback profile "${answer.config.name}".`);
+		}
+		return answer;
+	}
+
 	private showPeriodModal(): Promise<PeriodModalResult | null> {
 		return new Promise((resolve) => {
 			const modal = new PeriodModal(
 				this.app,
 				this.settings.defaultPeriodPreset,
+				this.settings.noteDates.sources,
 				(result) => resolve(result)
 			);
 			modal.open();
 		});
 	}
 
-	private showSprinklePromptModal(initialValue = ""): Promise<string | null> {
+	private showSprinklePromptModal(
+		initialValue: string,
+		profileId: string
+	): Promise<SprinklePromptResult | null> {
 		return new Promise((resolve) => {
-			const modal = new SprinklePromptModal(this.app, initialValue, (result) =>
-				resolve(result)
+			const modal = new SprinklePromptModal(
+				this.app,
+				initialValue,
+				this.settings.llmProfiles,
+				profileId,
+				(result) => resolve(result)
 			);
 			modal.open();
 		});
 	}
 
-	private showSprinkleReviewModal(response: string): Promise<SprinkleReviewResult> {
-		return new Promise((resolve) => {
-			const modal = new SprinkleReviewModal(this.app, response, (result) =>
-				resolve(result)
-			);
-			modal.open();
+	private openSprinkleReviewModal(): {
+		modal: SprinkleReviewModal;
+		decision: Promise<SprinkleReviewResult>;
+	} {
+		let modal!: SprinkleReviewModal;
+		const decision = new Promise<SprinkleReviewResult>((resolve) => {
+			modal = new SprinkleReviewModal(this.app, (result) => resolve(result));
 		});
+		modal.open();
+		return { modal, decision };
 	}
 
 	private async sprinkleAI(editor: Editor) {
 		const selectedText = editor.getSelection();
 		const selectionFrom = editor.getCursor("from");
 
-		let userPrompt = await this.showSprinklePromptModal();
-		if (userPrompt === null) return;
+		let request = await this.showSprinklePromptModal(
+			"",
+			resolveCommandProfile(this.settings, "sprinkle").id
+		);
+		if (request === null) return;
 
 		try {
 			let done = false;
+			// Retrying asks for a fresh response even if the prompt is unchanged
+			let bypassCache = false;
 			while (!done) {
-				const prompt = buildSprinklePrompt(userPrompt, selectedText);
+				const prompt = buildSprinklePrompt(request.prompt, selectedText);
+				const profile = getProfile(this.settings, request.profileId);
 
-				new Notice("Sprinkling AI...");
-				const response = await callLLM(this.settings.llm, prompt);
+				// Open the review modal right away so the response streams into it
+				const { modal, decision: pendingDecision } = this.openSprinkleReviewModal();
+				const controller = this.startRequest();
+				// Rejecting while the response is still streaming stops the request
+				void pendingDecision.then((decision) => {
+					if (decision === "reject") {
+						controller.abort();
+					}
+				});
+				let response: string;
+				try {
+					const answer = await this.callWithFallbackChain(profile, (config) =>
+						streamLLM(
+							config,
+							prompt,
+							(token) => modal.appendText(token),
+							this.callOptions("sprinkle", controller.signal, bypassCache)
+						)
+					);
+					response = answer.result;
+				} catch (error) {
+					modal.close();
+					throw error;
+				} finally {
+					this.finishRequest(controller);
+				}
+				modal.setComplete(response);
 
-				const decision = await this.showSprinkleReviewModal(response);
+				const decision = await pendingDecision;
 
 				switch (decision) {
 					case "accept":
@@ -239,11 +849,15 @@ export default class ReviewGeneratorPlugin extends Plugin {
 						done = true;
 						break;
 					case "retry": {
-						const edited = await this.showSprinklePromptModal(userPrompt);
+						const edited = await this.showSprinklePromptModal(
+							request.prompt,
+							request.profileId
+						);
 						if (edited === null) {
 							done = true;
 						} else {
-							userPrompt = edited;
+							request = edited;
+							bypassCache = true;
 						}
 						break;
 					}
@@ -253,6 +867,10 @@ export default class ReviewGeneratorPlugin extends Plugin {
 				}
 			}
 		} catch (error) {
+			if (error instanceof LLMCancelledError) {
+				new Notice("Request cancelled.");
+				return;
+			}
 			if (error instanceof LLMError) {
 				new Notice(`LLM Error: ${error.message}`, 0);
 			} else if (error instanceof Error) {
@@ -264,12 +882,136 @@ export default class ReviewGeneratorPlugin extends Plugin {
 		}
 	}
 
-	private async summarizeCurrentNote(file: TFile | null) {
+	private showAskVaultModal(): Promise<string | null> {
+		return new Promise((resolve) => {
+			new AskVaultModal(this.app, (question) => resolve(question)).open();
+		});
+	}
+
+	private openVaultAnswerModal(
+		question: string,
+		canInsert: boolean
+	): { modal: VaultAnswerModal; decision: Promise<VaultAnswerResult> } {
+		let modal!: VaultAnswerModal;
+		const decision = new Promise<VaultAnswerResult>((resolve) => {
+			modal = new VaultAnswerModal(this.app, question, canInsert, (result) => resolve(result));
+		});
+		modal.open();
+		return { modal, decision };
+	}
+
+	/**
+	 * Answers a question from the note sections most similar to it, citing
+	 * them, and inserts the answer into the current note or saves it as a note.
+	 */
+	private async askVault() {
+		if (!this.semanticIndex || !this.settings.semanticIndex.enabled) {
+			new Notice("Turn on the semantic index in the settings to ask your vault.", 0);
+			return;
+		}
+		// The editor the answer can be inserted into, captured before the modals take focus
+		const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor ?? null;
+
+		const question = await this.showAskVaultModal();
+		if (question === null) return;
+
+		const request = this.startRequest();
+		try {
+			const matches = await this.semanticIndex.search(
+				question,
+				this.settings.askVault.maxSources,
+				request.signal
+			);
+			if (matches.length === 0) {
+				new Notice("The semantic index is empty. Rebuild it before asking your vault.", 0);
+				return;
+			}
+
+			const prompt = buildAskPrompt(question, matches);
+			const { modal, decision: pendingDecision } = this.openVaultAnswerModal(
+				question,
+				editor !== null
+			);
+			// Closing the modal while the answer is still streaming stops the request
+			void pendingDecision.then(() => request.abort());
+			let answer: FallbackResult<LLMProfile, string>;
+			try {
+				answer = await this.callWithFallbackChain(
+					resolveCommandProfile(this.settings, "ask"),
+					(config) =>
+						streamLLM(
+							config,
+							prompt,
+							(token) => modal.appendText(token),
+							this.callOptions("ask", request.signal)
+						)
+				);
+			} catch (error) {
+				modal.close();
+				throw error;
+			}
+			await modal.setComplete(answer.result);
+
+			switch (await pendingDecision) {
+				case "insert":
+					editor?.replaceRange(
+						`${renderAnswerSection(question, answer.result, matches)}\n\n`,
+						editor.getCursor()
+					);
+					break;
+				case "save": {
+					const now = new Date();
+					const vault = new ObsidianVaultAdapter(this.app);
+					const filename = resolveFilename(
+						this.settings.askVault.outputFolder,
+						now,
+						(await vault.listMarkdownFiles()).map((f) => f.path),
+						Intl.DateTimeFormat().resolvedOptions().timeZone,
+						answerNoteTitle(question)
+					);
+					await vault.createFile(
+						filename,
+						renderAnswerNote(question, answer.result, matches, {
+							generatedAt: now.toISOString(),
+							provider: answer.config.provider,
+							model: answer.config.model,
+						})
+					);
+					new Notice(`Answer saved: ${filename}`);
+					const file = this.app.vault.getAbstractFileByPath(filename);
+					if (file instanceof TFile) {
+						await this.app.workspace.getLeaf().openFile(file);
+					}
+					break;
+				}
+				case "close":
+					break;
+			}
+		} catch (error) {
+			if (error instanceof LLMCancelledError) {
+				new Notice("Request cancelled.");
+				return;
+			}
+			if (error instanceof LLMError) {
+				new Notice(`LLM Error: ${error.message}`, 0);
+			} else if (error instanceof Error) {
+				new Notice(`Error: ${error.message}`, 0);
+			} else {
+				new Notice("An unexpected error occurred.", 0);
+			}
+			console.error("Ask your vault failed:", error);
+		} finally {
+			this.finishRequest(request);
+		}
+	}
+
+	private async summarizeCurrentNote(file: TFile | null, bypassCache = false) {
 		if (!file) {
 			new Notice("No active file to summarize.", 0);
 			return;
 		}
 
+		const request = this.startRequest();
 		try {
 			new Notice("Summarizing note...");
 
@@ -277,14 +1019,24 @@ export default class ReviewGeneratorPlugin extends Plugin {
 			const title = file.basename;
 
 			const prompt = buildSummaryPrompt(content, title);
-			const summary = await callLLM(this.settings.llm, prompt);
+			const { result: summary } = await this.callWithFallbackChain(
+				resolveCommandProfile(this.settings, "summarize"),
+				(config) => callLLM(config, prompt, this.callOptions("summarize", request.signal, bypassCache))
+			);
 
 			const updatedContent = insertSummarySection(content, summary);
 
+			if (request.signal.aborted) {
+				throw new LLMCancelledError();
+			}
 			await this.app.vault.modify(file, updatedContent);
 
 			new Notice("Summary added to note.");
 		} catch (error) {
+			if (error instanceof LLMCancelledError) {
+				new Notice("Request cancelled.");
+				return;
+			}
 			if (error instanceof LLMError) {
 				new Notice(`LLM Error: ${error.message}`, 0);
 			} else if (error instanceof Error) {
@@ -293,6 +1045,8 @@ export default class ReviewGeneratorPlugin extends Plugin {
 				new Notice("An unexpected error occurred.", 0);
 			}
 			console.error("Note summarization failed:", error);
+		} finally {
+			this.finishRequest(request);
 		}
 	}
 }
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { latestDateInPeriod, noteDates, parseDateValue, parseFilenameDate } from "./noteDates";
+
+describe("parseDateValue", () => {
+	it("reads dates as whole local days", () => {
+		expect(parseDateValue("2025-01-15")).toEqual({
+			start: new Date(2025, 0, 15),
+			end: new Date(2025, 0, 16),
+		});
+	});
+
+	it("reads timestamps as instants", () => {
+		const time = new Date(2025, 0, 15, 9, 30);
+
+		expect(parseDateValue("2025-01-15T09:30")).toEqual({ start: time, end: time });
+		expect(parseDateValue("2025-01-15 09:30")).toEqual({ start: time, end: time });
+		expect(parseDateValue(time)).toEqual({ start: time, end: time });
+	});
+
+	it("rejects other values", () => {
+		expect(parseDateValue("2025-02-30")).toBeNull();
+		expect(parseDateValue("next week")).toBeNull();
+		expect(parseDateValue(20250115)).toBeNull();
+		expect(parseDateValue(undefined)).toBeNull();
+	});
+});
+
+describe("parseFilenameDate", () => {
+	it("finds the date in the filename only", () => {
+		expect(parseFilenameDate("Daily/2025-01-15.md")?.start).toEqual(new Date(2025, 0, 15));
+		expect(parseFilenameDate("Meetings/2025-01-15 Standup.md")?.start).toEqual(
+			new Date(2025, 0, 15)
+		);
+		expect(parseFilenameDate("2025-01-15/Notes.md")).toBeNull();
+		expect(parseFilenameDate("Build 12025-01-155.md")).toBeNull();
+	});
+});
+
+describe("noteDates", () => {
+	const file = {
+		path: "Daily/2025-01-15.md",
+		mtime: new Date(2025, 0, 20),
+		ctime: new Date(2025, 0, 10),
+	};
+
+	it("collects the dates of the selected sources", () => {
+		expect(
+			noteDates(
+				file,
+				{ created: "2025-01-12" },
+				{
+					sources: ["ctime", "property"],
+					properties: ["date", "created"],
+				}
+			).map((date) => date.start)
+		).toEqual([new Date(2025, 0, 10), new Date(2025, 0, 12)]);
+	});
+
+	it("skips sources the note has no date for", () => {
+		expect(noteDates(file, null, { sources: ["property"], properties: ["date"] })).toEqual([]);
+	});
+});
+
+describe("latestDateInPeriod", () => {
+	const start = new Date(2025, 0, 15, 12, 0);
+	const end = new Date(2025, 0, 19, 12, 0);
+
+	it("counts a day that overlaps the period", () => {
+		const firstDay = parseDateValue("2025-01-15")!;
+		const lastDay = parseDateValue("2025-01-19")!;
+		const dayBefore = parseDateValue("2025-01-14")!;
+
+		expect(latestDateInPeriod([firstDay], start, end)).toEqual(new Date(2025, 0, 15));
+		expect(latestDateInPeriod([lastDay], start, end)).toEqual(new Date(2025, 0, 19));
+		expect(latestDateInPeriod([dayBefore], start, end)).toBeNull();
+	});
+
+	it("returns the latest date in the period", () => {
+		const instant = (date: Date) => ({ start: date, end: date });
+
+		expect(
+			latestDateInPeriod(
+				[
+					instant(new Date(2025, 0, 16)),
+					instant(new Date(2025, 0, 18)),
+					instant(new Date(2025, 0, 20)),
+				],
+				start,
+				end
+			)
+		).toEqual(new Date(2025, 0, 18));
+	});
+});
@@ -0,0 +1,146 @@
+import type { NoteDateSettings, NoteDateSource } from "./types";
+
+/**
+ * Note date sources with their display labels, in display order.
+ */
+export const NOTE_DATE_SOURCES: { value: NoteDateSource; label: string }[] = [
+	{ value: "mtime", label: "Modification time" },
+	{ value: "ctime", label: "Creation time" },
+	{ value: "property", label: "Date property" },
+	{ value: "filename", label: "Date in filename" },
+];
+
+/**
+ * A span of time a note is dated to: a single instant for timestamps, or a
+ * whole day for dates without a time.
+ */
+export interface DateRange {
+	start: Date;
+	end: Date; // exclusive, equal to start for instants
+}
+
+/**
+ * Parses a frontmatter date value: `YYYY-MM-DD` is a whole day in the local
+ * timezone, `YYYY-MM-DDTHH:mm` (with optional seconds and offset) an instant.
+ *
+ * @returns The date, or null if the value is not a date
+ */
+export function parseDateValue(value: unknown): DateRange | null {
+	if (value instanceof Date) {
+		return isNaN(value.getTime()) ? null : { start: value, end: value };
+	}
+	if (typeof value !== "string") {
+		return null;
+	}
+	const text = value.trim();
+	const day = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (day) {
+		return localDay(Number(day[1]), Number(day[2]), Number(day[3]));
+	}
+	if (/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/.test(text)) {
+		const time = new Date(text.replace(" ", "T"));
+		return isNaN(time.getTime()) ? null : { start: time, end: time };
+	}
+	return null;
+}
+
+/**
+ * Finds the `YYYY-MM-DD` date in a note's filename, as in daily notes named
+ * `2025-01-15.md` or `2025-01-15 Standup.md`.
+ *
+ * @returns The day, or null if the filename has no valid date
+ */
+export function parseFilenameDate(path: string): DateRange | null {
+	const filename = path.split("/").pop() ?? path;
+	const match = filename.match(/(?:^|\D)(\d{4})-(\d{2})-(\d{2})(?!\d)/);
+	return match ? localDay(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+/**
+ * Collects the dates of a note from the selected sources.
+ *
+ * @param file - Path and file times of the note
+ * @param frontmatter - The note's frontmatter, needed for the property source
+ * @param settings - Selected sources and the date properties to try in order
+ */
+export function noteDates(
+	file: { path: string; mtime: Date; ctime: Date },
+	frontmatter: Record<string, unknown> | null,
+	settings: NoteDateSettings
+): DateRange[] {
+	const dates: DateRange[] = [];
+	for (const source of settings.sources) {
+		let date: DateRange | null = null;
+		switch (source) {
+			case "mtime":
+				date = { start: file.mtime, end: file.mtime };
+				break;
+			case "ctime":
+				date = { start: file.ctime, end: file.ctime };
+				break;
+			case "property":
+				date = propertyDate(frontmatter, settings.properties);
+				break;
+			case "filename":
+				date = parseFilenameDate(file.path);
+				break;
+		}
+		if (date) dates.push(date);
+	}
+	return dates;
+}
+
+/**
+ * Finds the latest of a note's dates that falls in a period. A whole day
+ * falls in the period if any part of it does.
+ *
+ * @param start - Start of the period (inclusive)
+ * @param end - End of the period (inclusive)
+ * @returns The start of the latest date in the period, or null if none is
+ */
+export function latestDateInPeriod(dates: DateRange[], start: Date, end: Date): Date | null {
+	let latest: Date | null = null;
+	for (const date of dates) {
+		const inPeriod =
+			date.start.getTime() === date.end.getTime()
+				? date.start >= start && date.start <= end
+				: date.start <= end && date.end > start;
+		if (inPeriod && (!latest || date.start > latest)) {
+			latest = date.start;
+		}
+	}
+	return latest;
+}
+
+/**
+ * Whether the dates of notes are read from their frontmatter.
+ */
+export function needsFrontmatter(settings: NoteDateSettings): boolean {
+	return settings.sources.includes("property") && settings.properties.length > 0;
+}
+
+/**
+ * The date of the first of the properties set to a date.
+ */
+function propertyDate(
+	frontmatter: Record<string, unknown> | null,
+	properties: string[]
+): DateRange | null {
+	if (!frontmatter) return null;
+	for (const property of properties) {
+		const date = parseDateValue(frontmatter[property]);
+		if (date) return date;
+	}
+	return null;
+}
+
+/**
+ * The local day of a date, or null if it does not exist (e.g. February 30).
+ */
+function localDay(year: number, month: number, day: number): DateRange | null {
+	const start = new Date(year, month - 1, day);
+	if (start.getMonth() !== month - 1 || start.getDate() !== day) {
+		return null;
+	}
+	return { start, end: new Date(year, month - 1, day + 1) };
+}
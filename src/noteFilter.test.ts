@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+	hasTagFilters,
+	matchesPath,
+	matchesTags,
+	parseNoteFilter,
+	splitTagFilters,
+} from "./noteFilter";
+
+describe("matchesPath", () => {
+	function matches(patterns: string[], path: string): boolean {
+		return matchesPath(parseNoteFilter(patterns), path);
+	}
+
+	it("matches every note without patterns", () => {
+		expect(matches([], "Anything/Note.md")).toBe(true);
+	});
+
+	it("treats patterns without wildcards as folders or notes", () => {
+		expect(matches(["Projects"], "Projects/Alpha.md")).toBe(true);
+		expect(matches(["Projects/"], "Projects/Sub/Alpha.md")).toBe(true);
+		expect(matches(["Projects"], "Projects Old/Alpha.md")).toBe(false);
+		expect(matches(["Inbox.md"], "Inbox.md")).toBe(true);
+	});
+
+	it("matches * within a folder name and ** across folders", () => {
+		expect(matches(["Projects/*.md"], "Projects/Alpha.md")).toBe(true);
+		expect(matches(["Projects/*.md"], "Projects/Sub/Alpha.md")).toBe(false);
+		expect(matches(["Projects/**"], "Projects/Sub/Alpha.md")).toBe(true);
+		expect(matches(["**/Meetings/*"], "Meetings/Standup.md")).toBe(true);
+		expect(matches(["**/Meetings/*"], "Work/Team/Meetings/Standup.md")).toBe(true);
+		expect(matches(["Journal/2025-??-*.md"], "Journal/2025-01-15.md")).toBe(true);
+	});
+
+	it("escapes other characters", () => {
+		expect(matches(["Notes (old)/*.md"], "Notes (old)/A.md")).toBe(true);
+		expect(matches(["*.md"], "Amd")).toBe(false);
+	});
+
+	it("excludes notes matching a ! pattern", () => {
+		const patterns = ["Projects/**", "!**/Archive/**", "!Templates/**"];
+
+		expect(matches(patterns, "Projects/Alpha.md")).toBe(true);
+		expect(matches(patterns, "Projects/Archive/Old.md")).toBe(false);
+		expect(matches(["!Templates/**"], "Journal/Day.md")).toBe(true);
+		expect(matches(["!Templates/**"], "Templates/Day.md")).toBe(false);
+	});
+});
+
+describe("matchesTags", () => {
+	it("requires one of the included tags, ignoring case and #", () => {
+		const filter = parseNoteFilter([], ["#work", "#Urgent"]);
+
+		expect(matchesTags(filter, ["#urgent"])).toBe(true);
+		expect(matchesTags(filter, ["home"])).toBe(false);
+	});
+
+	it("matches nested tags", () => {
+		const filter = parseNoteFilter([], ["#work"]);
+
+		expect(matchesTags(filter, ["work/meetings"])).toBe(true);
+		expect(matchesTags(filter, ["workout"])).toBe(false);
+	});
+
+	it("rejects notes with an excluded tag", () => {
+		const filter = parseNoteFilter([], ["-#private"]);
+
+		expect(matchesTags(filter, ["work"])).toBe(true);
+		expect(matchesTags(filter, ["work", "private"])).toBe(false);
+		expect(matchesTags(filter, [])).toBe(true);
+	});
+});
+
+describe("splitTagFilters", () => {
+	it("splits at spaces, commas and lines", () => {
+		expect(splitTagFilters("#work, -#private\n#urgent  ")).toEqual([
+			"#work",
+			"-#private",
+			"#urgent",
+		]);
+	});
+});
+
+describe("hasTagFilters", () => {
+	it("is true only with tag filters", () => {
+		expect(hasTagFilters(parseNoteFilter(["Projects"]))).toBe(false);
+		expect(hasTagFilters(parseNoteFilter([], ["-#private"]))).toBe(true);
+	});
+});
@@ -0,0 +1,115 @@
+/**
+ * Path patterns and tag filters that select the notes a review scans.
+ */
+export interface NoteFilter {
+	include: RegExp[]; // a note must match one of these, if any
+	exclude: RegExp[]; // a note must match none of these
+	includeTags: string[]; // a note must have one of these tags, if any (lowercase, without #)
+	excludeTags: string[]; // a note must have none of these tags
+}
+
+/**
+ * Parses path patterns and tag filters into a filter.
+ *
+ * Patterns are globs relative to the vault root: `*` matches within a folder
+ * name, `**` across folders and `?` a single character. A pattern without
+ * wildcards selects a folder (and everything below it) or a single note.
+ * Patterns starting with `!` exclude notes. Tag filters are `#tag` to require
+ * a tag and `-#tag` to exclude one; a tag also matches its nested tags.
+ *
+ * @param patterns - Path patterns, e.g. `Projects/**` or `!Templates/**`
+ * @param tags - Tag filters, e.g. `#work` or `-#private`
+ */
+export function parseNoteFilter(patterns: string[], tags: string[] = []): NoteFilter {
+	const filter: NoteFilter = { include: [], exclude: [], includeTags: [], excludeTags: [] };
+	for (const raw of patterns) {
+		const excluded = raw.trim().startsWith("!");
+		const pattern = raw
+			.trim()
+			.replace(/^!/, "")
+			.trim()
+			.replace(/^\/+|\/+$/g, "");
+		if (!pattern) continue;
+		(excluded ? filter.exclude : filter.include).push(globToRegExp(pattern));
+	}
+	for (const raw of tags) {
+		const excluded = raw.trim().startsWith("-");
+		const tag = raw.trim().replace(/^-/, "").replace(/^#/, "").toLowerCase();
+		if (!tag) continue;
+		(excluded ? filter.excludeTags : filter.includeTags).push(tag);
+	}
+	return filter;
+}
+
+/**
+ * Splits a line-, comma- or space-separated list of tag filters.
+ */
+export function splitTagFilters(value: string): string[] {
+	return value.split(/[\s,]+/).filter((tag) => tag.length > 0);
+}
+
+/**
+ * Whether the filter selects notes by tag, so the tags of notes must be read.
+ */
+export function hasTagFilters(filter: NoteFilter): boolean {
+	return filter.includeTags.length > 0 || filter.excludeTags.length > 0;
+}
+
+/**
+ * Checks a note path against the include and exclude patterns.
+ */
+export function matchesPath(filter: NoteFilter, path: string): boolean {
+	if (filter.include.length > 0 && !filter.include.some((re) => re.test(path))) {
+		return false;
+	}
+	return !filter.exclude.some((re) => re.test(path));
+}
+
+/**
+ * Checks the tags of a note against the tag filters.
+ *
+ * @param tags - Tags of the note, with or without the leading #
+ */
+export function matchesTags(filter: NoteFilter, tags: string[]): boolean {
+	const normalized = tags.map((tag) => tag.replace(/^#/, "").toLowerCase());
+	const has = (wanted: string) =>
+		normalized.some((tag) => tag === wanted || tag.startsWith(`${wanted}/`));
+	if (filter.includeTags.length > 0 && !filter.includeTags.some(has)) {
+		return false;
+	}
+	return !filter.excludeTags.some(has);
+}
+
+/**
+ * Converts a path pattern to a regular expression matching whole paths.
+ */
+function globToRegExp(pattern: string): RegExp {
+	if (!/[*?]/.test(pattern)) {
+		return new RegExp(`^${escapeRegExp(pattern)}(/.*)?$`);
+	}
+	let source = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i]!;
+		if (char === "*" && pattern[i + 1] === "*") {
+			// "**/" also matches no folder at all
+			if (pattern[i + 2] === "/") {
+				source += "(?:.*/)?";
+				i += 2;
+			} else {
+				source += ".*";
+				i += 1;
+			}
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += escapeRegExp(char);
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { evaluateQuery, parseQuery, QuerySyntaxError } from "./noteQuery";
+
+const now = new Date(2025, 0, 19, 15, 0);
+
+function matches(query: string, frontmatter: Record<string, unknown> | null): boolean {
+	return evaluateQuery(parseQuery(query), frontmatter, now);
+}
+
+describe("parseQuery", () => {
+	it("binds and tighter than or", () => {
+		expect(parseQuery("a = 1 or b = 2 and not c exists")).toEqual({
+			type: "or",
+			left: { type: "compare", key: "a", op: "=", value: "1" },
+			right: {
+				type: "and",
+				left: { type: "compare", key: "b", op: "=", value: "2" },
+				right: { type: "not", operand: { type: "exists", key: "c" } },
+			},
+		});
+	});
+
+	it("reads quoted values and lists in parentheses or brackets", () => {
+		expect(parseQuery('project = "Apollo 11"')).toEqual({
+			type: "compare",
+			key: "project",
+			op: "=",
+			value: "Apollo 11",
+		});
+		expect(parseQuery("status IN [active, 'on hold']")).toEqual({
+			type: "in",
+			key: "status",
+			values: ["active", "on hold"],
+		});
+	});
+
+	it("rejects malformed queries", () => {
+		expect(() => parseQuery("")).toThrow(QuerySyntaxError);
+		expect(() => parseQuery("type meeting")).toThrow(/after "type" at "meeting"/);
+		expect(() => parseQuery("(type = meeting")).toThrow('Expected ")" at the end of the query');
+		expect(() => parseQuery("status in (active")).toThrow(QuerySyntaxError);
+		expect(() => parseQuery("type = meeting status = active")).toThrow(
+			'Unexpected at "status"'
+		);
+	});
+});
+
+describe("evaluateQuery", () => {
+	const meeting = {
+		type: "Meeting",
+		status: "active",
+		project: "[[Apollo|the Apollo project]]",
+		tags: ["work", "planning"],
+		date: "2025-01-15",
+		priority: 2,
+	};
+
+	it("compares values ignoring case and wikilink brackets", () => {
+		expect(matches("type = meeting and project = apollo", meeting)).toBe(true);
+		expect(matches("type != meeting", meeting)).toBe(false);
+		expect(matches("TYPE = meeting", meeting)).toBe(true);
+	});
+
+	it("matches list properties by any item", () => {
+		expect(matches("tags = planning", meeting)).toBe(true);
+		expect(matches("tags in (home, work)", meeting)).toBe(true);
+		expect(matches("tags != work", meeting)).toBe(false);
+	});
+
+	it("checks whether a property exists", () => {
+		expect(matches("status exists", meeting)).toBe(true);
+		expect(matches("due exists", meeting)).toBe(false);
+		expect(matches("due exists", { due: "" })).toBe(false);
+		expect(matches("not type exists", null)).toBe(true);
+	});
+
+	it("compares dates, including dates relative to today", () => {
+		expect(matches("date >= 2025-01-15 and date < 2025-02-01", meeting)).toBe(true);
+		expect(matches("date > 2025-01-15", meeting)).toBe(false);
+		expect(matches("date >= today-7d", meeting)).toBe(true);
+		expect(matches("date >= today-3d", meeting)).toBe(false);
+		expect(matches("date < today", { date: "2025-01-19T09:30" })).toBe(false);
+		expect(matches("date < today", { date: new Date(2025, 0, 18) })).toBe(true);
+	});
+
+	it("compares numbers, and nothing else", () => {
+		expect(matches("priority <= 2", meeting)).toBe(true);
+		expect(matches("priority > 2", meeting)).toBe(false);
+		expect(matches("status > 2", meeting)).toBe(false);
+		expect(matches("missing < 2025-01-01", meeting)).toBe(false);
+	});
+
+	it("matches nothing but negations for notes without frontmatter", () => {
+		expect(matches("type = meeting", null)).toBe(false);
+		expect(matches("type != meeting", null)).toBe(true);
+	});
+});
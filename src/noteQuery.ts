@@ -0,0 +1,325 @@
+/**
+ * A parsed note query.
+ */
+export type QueryNode =
+	| { type: "and" | "or"; left: QueryNode; right: QueryNode }
+	| { type: "not"; operand: QueryNode }
+	| { type: "exists"; key: string }
+	| { type: "compare"; key: string; op: CompareOp; value: string }
+	| { type: "in"; key: string; values: string[] };
+
+type CompareOp = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+/**
+ * Error thrown for a query that cannot be parsed.
+ */
+export class QuerySyntaxError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "QuerySyntaxError";
+	}
+}
+
+type Token =
+	| { kind: "word"; text: string }
+	| { kind: "string"; text: string }
+	| { kind: "op"; text: CompareOp }
+	| { kind: "punct"; text: "(" | ")" | "[" | "]" | "," };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses a query on frontmatter properties.
+ *
+ * Conditions are `key = value`, `key != value`, `key < value` (also `<=`,
+ * `>`, `>=`), `key in (a, b)` and `key exists`. They combine with `and`,
+ * `or`, `not` and parentheses; `and` binds tighter than `or`. Values are bare
+ * words or quoted strings. Dates are written `2025-01-15`, `today` or
+ * `today-7d`.
+ *
+ * @example type = meeting and status in (active, waiting) and date >= today-30d
+ * @throws QuerySyntaxError if the query is malformed
+ */
+export function parseQuery(text: string): QueryNode {
+	const tokens = tokenize(text);
+	if (tokens.length === 0) {
+		throw new QuerySyntaxError("Query is empty");
+	}
+	let pos = 0;
+
+	const peek = (): Token | undefined => tokens[pos];
+	const isKeyword = (token: Token | undefined, keyword: string): boolean =>
+		token?.kind === "word" && token.text.toLowerCase() === keyword;
+	const expectPunct = (text: string) => {
+		const token = tokens[pos];
+		if (token?.kind !== "punct" || token.text !== text) {
+			throw new QuerySyntaxError(`Expected "${text}" ${describe(token)}`);
+		}
+		pos++;
+	};
+	const readValue = (): string => {
+		const token = tokens[pos];
+		if (token?.kind !== "word" && token?.kind !== "string") {
+			throw new QuerySyntaxError(`Expected a value ${describe(token)}`);
+		}
+		pos++;
+		return token.text;
+	};
+
+	const parseOr = (): QueryNode => {
+		let node = parseAnd();
+		while (isKeyword(peek(), "or")) {
+			pos++;
+			node = { type: "or", left: node, right: parseAnd() };
+		}
+		return node;
+	};
+
+	const parseAnd = (): QueryNode => {
+		let node = parseUnary();
+		while (isKeyword(peek(), "and")) {
+			pos++;
+			node = { type: "and", left: node, right: parseUnary() };
+		}
+		return node;
+	};
+
+	const parseUnary = (): QueryNode => {
+		const token = peek();
+		if (isKeyword(token, "not")) {
+			pos++;
+			return { type: "not", operand: parseUnary() };
+		}
+		if (token?.kind === "punct" && token.text === "(") {
+			pos++;
+			const node = parseOr();
+			expectPunct(")");
+			return node;
+		}
+		return parseCondition();
+	};
+
+	const parseCondition = (): QueryNode => {
+		const keyToken = tokens[pos];
+		if (keyToken?.kind !== "word" && keyToken?.kind !== "string") {
+			throw new QuerySyntaxError(`Expected a property name ${describe(keyToken)}`);
+		}
+		pos++;
+		const key = keyToken.text;
+		const token = peek();
+		if (isKeyword(token, "exists")) {
+			pos++;
+			return { type: "exists", key };
+		}
+		if (isKeyword(token, "in")) {
+			pos++;
+			const open = peek();
+			const close = open?.kind === "punct" && open.text === "[" ? "]" : ")";
+			expectPunct(close === "]" ? "[" : "(");
+			const values = [readValue()];
+			while (peek()?.kind === "punct" && peek()?.text === ",") {
+				pos++;
+				values.push(readValue());
+			}
+			expectPunct(close);
+			return { type: "in", key, values };
+		}
+		if (token?.kind === "op") {
+			pos++;
+			return { type: "compare", key, op: token.text, value: readValue() };
+		}
+		throw new QuerySyntaxError(
+			`Expected =, !=, <, <=, >, >=, "in" or "exists" after "${key}" ${describe(token)}`
+		);
+	};
+
+	const node = parseOr();
+	if (pos < tokens.length) {
+		throw new QuerySyntaxError(`Unexpected ${describe(tokens[pos])}`);
+	}
+	return node;
+}
+
+/**
+ * Evaluates a query against the frontmatter of a note.
+ *
+ * Property names are matched ignoring case. Values are compared ignoring
+ * case, and wikilinks match their target (`[[Apollo]]` equals `apollo`). A
+ * list property matches when one of its items does. `<`, `<=`, `>` and `>=`
+ * compare dates when both sides are dates, numbers when both are numbers,
+ * and are false otherwise.
+ *
+ * @param frontmatter - The note's frontmatter, null if it has none
+ * @param now - The date `today` refers to
+ */
+export function evaluateQuery(
+	node: QueryNode,
+	frontmatter: Record<string, unknown> | null,
+	now: Date = new Date()
+): boolean {
+	switch (node.type) {
+		case "and":
+			return (
+				evaluateQuery(node.left, frontmatter, now) &&
+				evaluateQuery(node.right, frontmatter, now)
+			);
+		case "or":
+			return (
+				evaluateQuery(node.left, frontmatter, now) ||
+				evaluateQuery(node.right, frontmatter, now)
+			);
+		case "not":
+			return !evaluateQuery(node.operand, frontmatter, now);
+		case "exists": {
+			const value = property(frontmatter, node.key);
+			return value !== undefined && value !== null && value !== "";
+		}
+		case "in":
+			return items(property(frontmatter, node.key)).some((item) =>
+				node.values.some((value) => equals(item, value))
+			);
+		case "compare": {
+			const values = items(property(frontmatter, node.key));
+			if (node.op === "!=") {
+				return !values.some((item) => equals(item, node.value));
+			}
+			if (node.op === "=") {
+				return values.some((item) => equals(item, node.value));
+			}
+			const op = node.op;
+			return values.some((item) => {
+				const order = compare(item, node.value, now);
+				return order !== null && testOrder(op, order);
+			});
+		}
+	}
+}
+
+function tokenize(text: string): Token[] {
+	const tokens: Token[] = [];
+	const pattern =
+		/\s*(?:(["'])((?:\\.|(?!\1).)*)\1|(!=|<=|>=|=|<|>)|([()[\],])|([^\s()[\],=!<>"']+))/y;
+	let index = 0;
+	while (index < text.length) {
+		if (/^\s*$/.test(text.slice(index))) break;
+		pattern.lastIndex = index;
+		const match = pattern.exec(text);
+		if (!match) {
+			throw new QuerySyntaxError(`Unexpected "${text.slice(index).trim()[0]}"`);
+		}
+		index = pattern.lastIndex;
+		if (match[1]) {
+			tokens.push({ kind: "string", text: match[2]!.replace(/\\(.)/g, "$1") });
+		} else if (match[3]) {
+			tokens.push({ kind: "op", text: match[3] as CompareOp });
+		} else if (match[4]) {
+			tokens.push({ kind: "punct", text: match[4] as "(" | ")" | "[" | "]" | "," });
+		} else {
+			tokens.push({ kind: "word", text: match[5]! });
+		}
+	}
+	return tokens;
+}
+
+function describe(token: Token | undefined): string {
+	return token ? `at "${token.text}"` : "at the end of the query";
+}
+
+/**
+ * Looks up a property by name, ignoring case.
+ */
+function property(frontmatter: Record<string, unknown> | null, key: string): unknown {
+	if (!frontmatter) return undefined;
+	if (key in frontmatter) return frontmatter[key];
+	const lower = key.toLowerCase();
+	const match = Object.keys(frontmatter).find((k) => k.toLowerCase() === lower);
+	return match === undefined ? undefined : frontmatter[match];
+}
+
+/**
+ * The items of a list property, or the value itself; nothing if it is missing.
+ */
+function items(value: unknown): unknown[] {
+	if (value === undefined || value === null) return [];
+	return Array.isArray(value) ? (value as unknown[]) : [value];
+}
+
+function normalize(value: unknown): string {
+	if (value instanceof Date) {
+		return value.toISOString().slice(0, 10);
+	}
+	const text = typeof value === "string" ? value : JSON.stringify(value);
+	return text
+		.trim()
+		.replace(/^\[\[([^\]|#]*)[^\]]*\]\]$/, "$1")
+		.toLowerCase();
+}
+
+function equals(item: unknown, value: string): boolean {
+	return normalize(item) === normalize(value);
+}
+
+/**
+ * Orders a property value against a query value: negative if the property
+ * comes first, null if they cannot be compared.
+ */
+function compare(item: unknown, value: string, now: Date): number | null {
+	const itemDate = parseDate(item, now);
+	const valueDate = parseDate(value, now);
+	if (itemDate !== null && valueDate !== null) {
+		return itemDate - valueDate;
+	}
+	const itemNumber = typeof item === "number" ? item : Number(normalize(item));
+	const valueNumber = Number(value);
+	if (
+		normalize(item) !== "" &&
+		value.trim() !== "" &&
+		!isNaN(itemNumber) &&
+		!isNaN(valueNumber)
+	) {
+		return itemNumber - valueNumber;
+	}
+	return null;
+}
+
+function testOrder(op: "<" | "<=" | ">" | ">=", order: number): boolean {
+	switch (op) {
+		case "<":
+			return order < 0;
+		case "<=":
+			return order <= 0;
+		case ">":
+			return order > 0;
+		case ">=":
+			return order >= 0;
+	}
+}
+
+/**
+ * Parses `YYYY-MM-DD` (with an optional time), `today` and `today±Nd` into a
+ * timestamp. Dates without a time are local midnight.
+ */
+function parseDate(value: unknown, now: Date): number | null {
+	if (value instanceof Date) {
+		return value.getTime();
+	}
+	if (typeof value !== "string") {
+		return null;
+	}
+	const text = value.trim().toLowerCase();
+	const relative = text.match(/^today(?:([+-])(\d+)d)?$/);
+	if (relative) {
+		const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+		const days = relative[2] ? Number(relative[2]) * (relative[1] === "-" ? -1 : 1) : 0;
+		return today + days * DAY_MS;
+	}
+	const date = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (date) {
+		return new Date(Number(date[1]), Number(date[2]) - 1, Number(date[3])).getTime();
+	}
+	if (/^\d{4}-\d{2}-\d{2}t/.test(text)) {
+		const time = Date.parse(value);
+		return isNaN(time) ? null : time;
+	}
+	return null;
+}
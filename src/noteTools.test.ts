@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { NoteTools } from "./noteTools";
+import { mockVault } from "./testUtils";
+
+const files = {
+	"Projects/Alpha.md":
+		"---\ntags: [project]\n---\nAlpha launches in March. The launch plan is in [[Launch]].",
+	"Launch.md": "Launch checklist for alpha: docs, announcement, launch party.",
+	"Journal/2025-01-15.md": "Worked on beta today.",
+};
+
+describe("NoteTools", () => {
+	it("reads a note by title, without its frontmatter", async () => {
+		const tools = new NoteTools(mockVault(files), 6000);
+
+		const result = await tools.run({ name: "read_note", arguments: { path: "[[Alpha]]" } });
+
+		expect(result).toBe(
+			"# Projects/Alpha.md\n\nAlpha launches in March. The launch plan is in [[Launch]]."
+		);
+		expect(tools.calls).toEqual([
+			{ tool: "read_note", argument: "[[Alpha]]", notes: ["Projects/Alpha.md"] },
+		]);
+	});
+
+	it("truncates long notes", async () => {
+		const tools = new NoteTools(mockVault(files), 20);
+
+		const result = await tools.run({ name: "read_note", arguments: { path: "Launch.md" } });
+
+		expect(result).toBe("# Launch.md\n\nLaunch checklist...");
+	});
+
+	it("searches for notes containing every word, best matches first", async () => {
+		const tools = new NoteTools(mockVault(files), 6000);
+
+		const result = await tools.run({
+			name: "search_notes",
+			arguments: { query: "Launch alpha" },
+		});
+
+		expect(result.split("\n")).toEqual([
+			"- Projects/Alpha.md: Alpha launches in March. The launch plan is in [[Launch]].",
+			"- Launch.md: Launch checklist for alpha: docs, announcement, launch party.",
+		]);
+		expect(tools.calls[0]!.notes).toEqual(["Projects/Alpha.md", "Launch.md"]);
+	});
+
+	it("reports searches without results", async () => {
+		const tools = new NoteTools(mockVault(files), 6000);
+
+		expect(await tools.run({ name: "search_notes", arguments: { query: "gamma" } })).toBe(
+			'No notes match "gamma".'
+		);
+	});
+
+	it("lists backlinks", async () => {
+		const vault = mockVault({
+			...files,
+			"Projects/Alpha.md": { content: files["Projects/Alpha.md"], links: ["Launch.md"] },
+		});
+		const tools = new NoteTools(vault, 6000);
+
+		expect(await tools.run({ name: "list_backlinks", arguments: { path: "Launch" } })).toBe(
+			"- Projects/Alpha.md"
+		);
+		expect(await tools.run({ name: "list_backlinks", arguments: { path: "Alpha" } })).toBe(
+			"No notes link to Projects/Alpha.md."
+		);
+	});
+
+	it("records failed calls and rethrows the error", async () => {
+		const tools = new NoteTools(mockVault(files), 6000);
+
+		await expect(
+			tools.run({ name: "read_note", arguments: { path: "Gamma" } })
+		).rejects.toThrow("Note not found: Gamma");
+		await expect(tools.run({ name: "read_note", arguments: {} })).rejects.toThrow(
+			"Missing argument for read_note"
+		);
+		await expect(
+			tools.run({ name: "delete_note", arguments: { path: "Launch" } })
+		).rejects.toThrow("Unknown tool: delete_note");
+		expect(tools.calls.map((call) => call.error)).toEqual([
+			"Note not found: Gamma",
+			"Missing argument for read_note",
+			"Unknown tool: delete_note",
+		]);
+	});
+
+	it("lists each note read once", async () => {
+		const tools = new NoteTools(mockVault(files), 6000);
+		await tools.run({ name: "read_note", arguments: { path: "Alpha" } });
+		await tools.run({ name: "search_notes", arguments: { query: "beta" } });
+		await tools.run({ name: "read_note", arguments: { path: "Projects/Alpha.md" } });
+
+		expect(tools.notesRead()).toEqual(["Projects/Alpha.md"]);
+	});
+});
@@ -0,0 +1,177 @@
+import { stripFrontmatter, truncateContent } from "./evidence";
+import type { ToolCall, ToolCallRecord, ToolDefinition, VaultAdapter } from "./types";
+
+/**
+ * Most notes returned by a search.
+ */
+const MAX_SEARCH_RESULTS = 10;
+
+/**
+ * Characters of context shown around the first match in search results.
+ */
+const SNIPPET_CHARS = 160;
+
+/**
+ * Tools the model can call during a review to look up notes.
+ */
+export const NOTE_TOOLS: ToolDefinition[] = [
+	{
+		name: "read_note",
+		description: "Read the content of a note in the vault.",
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: "Path of the note, or its title as used in a [[wikilink]]",
+				},
+			},
+			required: ["path"],
+		},
+	},
+	{
+		name: "search_notes",
+		description:
+			"Search the notes of the vault for words. Returns the paths of the best matching notes with a snippet of each.",
+		parameters: {
+			type: "object",
+			properties: {
+				query: { type: "string", description: "Words that must all appear in the note" },
+			},
+			required: ["query"],
+		},
+	},
+	{
+		name: "list_backlinks",
+		description: "List the notes that link to a note.",
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: "Path of the note, or its title as used in a [[wikilink]]",
+				},
+			},
+			required: ["path"],
+		},
+	},
+];
+
+/**
+ * Runs the note tools against the vault and records every call.
+ */
+export class NoteTools {
+	/** Every tool call made, in order */
+	readonly calls: ToolCallRecord[] = [];
+	private vault: VaultAdapter;
+	private maxCharsPerNote: number;
+
+	constructor(vault: VaultAdapter, maxCharsPerNote: number) {
+		this.vault = vault;
+		this.maxCharsPerNote = maxCharsPerNote;
+	}
+
+	/**
+	 * Runs a tool call.
+	 *
+	 * @returns The result to send to the model
+	 * @throws Error if the tool is unknown, an argument is missing or the note
+	 * does not exist (the error is recorded as well)
+	 */
+	async run(call: ToolCall): Promise<string> {
+		const value = call.arguments.path ?? call.arguments.query;
+		const argument = typeof value === "string" ? value : "";
+		const record: ToolCallRecord = { tool: call.name, argument, notes: [] };
+		this.calls.push(record);
+		try {
+			if (!argument.trim()) {
+				throw new Error(`Missing argument for ${call.name}`);
+			}
+			switch (call.name) {
+				case "read_note":
+					return await this.readNote(argument, record);
+				case "search_notes":
+					return await this.searchNotes(argument, record);
+				case "list_backlinks":
+					return await this.listBacklinks(argument, record);
+				default:
+					throw new Error(`Unknown tool: ${call.name}`);
+			}
+		} catch (error) {
+			record.error = error instanceof Error ? error.message : String(error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Paths of the notes the model read, without duplicates.
+	 */
+	notesRead(): string[] {
+		const paths = this.calls
+			.filter((call) => call.tool === "read_note")
+			.flatMap((call) => call.notes);
+		return [...new Set(paths)];
+	}
+
+	private async readNote(link: string, record: ToolCallRecord): Promise<string> {
+		const path = await this.resolve(link);
+		const content = truncateContent(
+			stripFrontmatter(await this.vault.readFile(path)),
+			this.maxCharsPerNote
+		);
+		record.notes.push(path);
+		return `# ${path}\n\n${content}`;
+	}
+
+	private async searchNotes(query: string, record: ToolCallRecord): Promise<string> {
+		const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+		const matches: { path: string; score: number; snippet: string }[] = [];
+		for (const file of await this.vault.listMarkdownFiles()) {
+			const content = stripFrontmatter(await this.vault.readFile(file.path));
+			const text = `${file.path}\n${content}`.toLowerCase();
+			if (!terms.every((term) => text.includes(term))) {
+				continue;
+			}
+			const score = terms.reduce((sum, term) => sum + text.split(term).length - 1, 0);
+			matches.push({ path: file.path, score, snippet: snippet(content, terms[0]!) });
+		}
+		matches.sort((a, b) => b.score - a.score);
+		const results = matches.slice(0, MAX_SEARCH_RESULTS);
+		record.notes.push(...results.map((match) => match.path));
+		if (results.length === 0) {
+			return `No notes match "${query}".`;
+		}
+		return results.map((match) => `- ${match.path}: ${match.snippet}`).join("\n");
+	}
+
+	private async listBacklinks(link: string, record: ToolCallRecord): Promise<string> {
+		const path = await this.resolve(link);
+		const backlinks = await this.vault.getBacklinks(path);
+		record.notes.push(...backlinks);
+		if (backlinks.length === 0) {
+			return `No notes link to ${path}.`;
+		}
+		return backlinks.map((backlink) => `- ${backlink}`).join("\n");
+	}
+
+	private async resolve(link: string): Promise<string> {
+		const path = await this.vault.resolveNotePath(link);
+		if (!path) {
+			throw new Error(`Note not found: ${link}`);
+		}
+		return path;
+	}
+}
+
+/**
+ * Returns the text around the first occurrence of a term, on one line.
+ */
+function snippet(content: string, term: string): string {
+	const index = Math.max(0, content.toLowerCase().indexOf(term));
+	const start = Math.max(0, index - SNIPPET_CHARS / 2);
+	const text = content
+		.slice(start, start + SNIPPET_CHARS)
+		.replace(/\s+/g, " ")
+		.trim();
+	return `${start > 0 ? "..." : ""}${text}${start + SNIPPET_CHARS < content.length ? "..." : ""}`;
+}
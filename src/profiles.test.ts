@@ -0,0 +1,200 @@
+import { describe, it, expect } from "vitest";
+import {
+	createProfile,
+	getProfile,
+	normalizeProfiles,
+	resolveCommandProfile,
+	resolveFallbackChain,
+} from "./profiles";
+import {
+	DEFAULT_LLM_CONFIG,
+	DEFAULT_SETTINGS,
+	type LLMProfile,
+	type ReviewSettings,
+} from "./types";
+
+const localProfile: LLMProfile = {
+	...DEFAULT_LLM_CONFIG,
+	id: "local",
+	name: "local-fast llama3.1",
+};
+
+const cloudProfile: LLMProfile = {
+	...DEFAULT_LLM_CONFIG,
+	provider: "openai",
+	baseUrl: "https://api.openai.com",
+	endpointPath: "/v1/chat/completions",
+	model: "gpt-5-mini",
+	id: "cloud",
+	name: "cloud-smart gpt",
+};
+
+function settingsWith(overrides: Partial<ReviewSettings>): ReviewSettings {
+	return { ...DEFAULT_SETTINGS, ...overrides };
+}
+
+describe("createProfile", () => {
+	it("copies the given config under a new name and id", () => {
+		const profile = createProfile("Copy", cloudProfile);
+
+		expect(profile.name).toBe("Copy");
+		expect(profile.model).toBe("gpt-5-mini");
+		expect(profile.id).not.toBe("cloud");
+	});
+
+	it("generates distinct ids", () => {
+		expect(createProfile("A").id).not.toBe(createProfile("B").id);
+	});
+});
+
+describe("getProfile", () => {
+	const settings = settingsWith({ llmProfiles: [localProfile, cloudProfile] });
+
+	it("finds a profile by id", () => {
+		expect(getProfile(settings, "cloud")).toBe(cloudProfile);
+	});
+
+	it("falls back to the first profile for unknown ids", () => {
+		expect(getProfile(settings, "missing")).toBe(localProfile);
+		expect(getProfile(settings, undefined)).toBe(localProfile);
+	});
+
+	it("throws when there are no profiles", () => {
+		expect(() => getProfile(settingsWith({ llmProfiles: [] }), "x")).toThrow(
+			/No model profiles/
+		);
+	});
+});
+
+describe("resolveCommandProfile", () => {
+	it("returns the profile assigned to each command", () => {
+		const settings = settingsWith({
+			llmProfiles: [localProfile, cloudProfile],
+			commandProfiles: {
+				review: "cloud",
+				summarize: "local",
+				sprinkle: "local",
+				ask: "cloud",
+			},
+		});
+
+		expect(resolveCommandProfile(settings, "review")).toBe(cloudProfile);
+		expect(resolveCommandProfile(settings, "summarize")).toBe(localProfile);
+	});
+});
+
+describe("resolveFallbackChain", () => {
+	const backupProfile: LLMProfile = { ...cloudProfile, id: "backup", name: "backup" };
+
+	it("puts the primary first followed by the fallbacks in order", () => {
+		const settings = settingsWith({
+			llmProfiles: [localProfile, cloudProfile, backupProfile],
+			fallbackProfileIds: ["backup", "cloud"],
+		});
+
+		expect(resolveFallbackChain(settings, localProfile)).toEqual([
+			localProfile,
+			backupProfile,
+			cloudProfile,
+		]);
+	});
+
+	it("skips the primary and unknown profiles", () => {
+		const settings = settingsWith({
+			llmProfiles: [localProfile, cloudProfile],
+			fallbackProfileIds: ["cloud", "local", "deleted"],
+		});
+
+		expect(resolveFallbackChain(settings, cloudProfile)).toEqual([cloudProfile, localProfile]);
+	});
+});
+
+describe("normalizeProfiles", () => {
+	it("uses the default profile when nothing is persisted", () => {
+		const result = normalizeProfiles(null, DEFAULT_SETTINGS);
+
+		expect(result.llmProfiles).toHaveLength(1);
+		expect(result.llmProfiles[0]).not.toBe(DEFAULT_SETTINGS.llmProfiles[0]);
+		expect(result.commandProfiles.review).toBe(result.llmProfiles[0]!.id);
+	});
+
+	it("migrates a legacy single llm config into a Default profile", () => {
+		const result = normalizeProfiles(
+			{ llm: { provider: "openai", model: "gpt-4o", apiKeyHeaderValue: "sk-1" } },
+			DEFAULT_SETTINGS
+		);
+
+		expect(result.llmProfiles).toEqual([
+			expect.objectContaining({
+				id: "default",
+				name: "Default",
+				provider: "openai",
+				model: "gpt-4o",
+				apiKeyHeaderValue: "sk-1",
+				maxTokens: DEFAULT_LLM_CONFIG.maxTokens,
+			}),
+		]);
+		expect(result.commandProfiles).toEqual({
+			review: "default",
+			summarize: "default",
+			sprinkle: "default",
+			ask: "default",
+		});
+	});
+
+	it("keeps persisted profiles and fills in missing fields", () => {
+		const partial = { id: "p1", name: "Partial", model: "qwen3" } as LLMProfile;
+
+		const result = normalizeProfiles({ llmProfiles: [partial] }, DEFAULT_SETTINGS);
+
+		expect(result.llmProfiles[0]).toEqual(
+			expect.objectContaining({
+				id: "p1",
+				model: "qwen3",
+				baseUrl: DEFAULT_LLM_CONFIG.baseUrl,
+			})
+		);
+	});
+
+	it("enables streaming on profiles saved without the setting", () => {
+		const saved = { id: "p1", name: "Saved", model: "qwen3" } as LLMProfile;
+
+		const result = normalizeProfiles(
+			{ llmProfiles: [saved, { ...localProfile, stream: false }] },
+			DEFAULT_SETTINGS
+		);
+
+		expect(result.llmProfiles.map((p) => p.stream)).toEqual([true, false]);
+	});
+
+	it("reassigns commands pointing at unknown profiles", () => {
+		const result = normalizeProfiles(
+			{
+				llmProfiles: [localProfile, cloudProfile],
+				commandProfiles: {
+					review: "cloud",
+					summarize: "deleted",
+					sprinkle: "local",
+					ask: "deleted",
+				},
+			},
+			DEFAULT_SETTINGS
+		);
+
+		expect(result.commandProfiles).toEqual({
+			review: "cloud",
+			summarize: "local",
+			sprinkle: "local",
+			ask: "local",
+		});
+	});
+
+	it("drops fallbacks to unknown profiles", () => {
+		const result = normalizeProfiles(
+			{ llmProfiles: [localProfile, cloudProfile], fallbackProfileIds: ["deleted", "cloud"] },
+			DEFAULT_SETTINGS
+		);
+
+		expect(result.fallbackProfileIds).toEqual(["cloud"]);
+	});
+});
@@ -0,0 +1,158 @@
+import {
+	DEFAULT_LLM_CONFIG,
+	type LLMCommand,
+	type LLMConfig,
+	type LLMProfile,
+	type LLMProvider,
+	type ReviewSettings,
+} from "./types";
+
+/**
+ * Commands that can be assigned their own profile, with display labels.
+ */
+export const LLM_COMMANDS: { value: LLMCommand; label: string }[] = [
+	{ value: "review", label: "Generate review" },
+	{ value: "summarize", label: "Summarize this note" },
+	{ value: "sprinkle", label: "Sprinkle AI" },
+	{ value: "ask", label: "Ask your vault" },
+];
+
+/**
+ * Connection defaults applied when switching provider, and the typical
+ * context window used when a profile doesn't set one.
+ */
+export const PROVIDER_DEFAULTS: Record<
+	LLMProvider,
+	{
+		baseUrl: string;
+		endpointPath: string;
+		apiKeyHeaderName?: string;
+		model: string;
+		contextWindow: number;
+	}
+> = {
+	ollama: {
+		baseUrl: "http://localhost:11434",
+		endpointPath: "/api/chat",
+		model: "llama3.1",
+		contextWindow: 8192,
+	},
+	openai: {
+		baseUrl: "https://api.openai.com",
+		endpointPath: "/v1/chat/completions",
+		apiKeyHeaderName: "Authorization",
+		model: "gpt-5-mini",
+		contextWindow: 128000,
+	},
+	anthropic: {
+		baseUrl: "https://api.anthropic.com",
+		endpointPath: "/v1/messages",
+		apiKeyHeaderName: "x-api-key",
+		model: "claude-sonnet-4-5",
+		contextWindow: 200000,
+	},
+	gemini: {
+		baseUrl: "https://generativelanguage.googleapis.com",
+		endpointPath: "/v1beta/models/{model}:generateContent",
+		apiKeyHeaderName: "x-goog-api-key",
+		model: "gemini-2.5-flash",
+		contextWindow: 1000000,
+	},
+	azure: {
+		baseUrl: "https://your-resource.openai.azure.com",
+		endpointPath: "/openai/deployments/{deployment}/chat/completions",
+		apiKeyHeaderName: "api-key",
+		model: "gpt-4o",
+		contextWindow: 128000,
+	},
+};
+
+/**
+ * Creates a new profile with a unique id.
+ *
+ * @param name - Display name for the profile
+ * @param config - Connection settings to copy (defaults to the Ollama defaults)
+ * @returns The new profile
+ */
+export function createProfile(name: string, config: LLMConfig = DEFAULT_LLM_CONFIG): LLMProfile {
+	return {
+		...config,
+		id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+		name,
+	};
+}
+
+/**
+ * Finds a profile by id, falling back to the first profile.
+ *
+ * @throws Error if no profiles are configured
+ */
+export function getProfile(settings: ReviewSettings, id: string | undefined): LLMProfile {
+	const profile = settings.llmProfiles.find((p) => p.id === id) ?? settings.llmProfiles[0];
+	if (!profile) {
+		throw new Error("No model profiles configured. Please add one in settings.");
+	}
+	return profile;
+}
+
+/**
+ * Resolves the profile assigned to a command.
+ */
+export function resolveCommandProfile(settings: ReviewSettings, command: LLMCommand): LLMProfile {
+	return getProfile(settings, settings.commandProfiles[command]);
+}
+
+/**
+ * Builds the ordered list of profiles to try for a call: the primary profile
+ * followed by the configured fallbacks (skipping the primary and unknown ids).
+ */
+export function resolveFallbackChain(
+	settings: ReviewSettings,
+	primary: LLMProfile
+): [LLMProfile, ...LLMProfile[]] {
+	const fallbacks = settings.fallbackProfileIds
+		.filter((id) => id !== primary.id)
+		.map((id) => settings.llmProfiles.find((p) => p.id === id))
+		.filter((p): p is LLMProfile => p !== undefined);
+	return [primary, ...fallbacks];
+}
+
+/**
+ * Normalizes persisted profile data, migrating the legacy single `llm`
+ * config into a "Default" profile, pointing unknown command assignments
+ * at the first profile and dropping fallbacks to deleted profiles. Fields
+ * missing from saved profiles take their defaults, so profiles saved before
+ * streaming existed stream their responses.
+ *
+ * @param data - Raw persisted settings
+ * @param defaults - Default settings to fall back on
+ * @returns Profiles and command assignments safe to use
+ */
+export function normalizeProfiles(
+	data: (Partial<ReviewSettings> & { llm?: Partial<LLMConfig> }) | null,
+	defaults: ReviewSettings
+): Pick<ReviewSettings, "llmProfiles" | "commandProfiles" | "fallbackProfileIds"> {
+	let llmProfiles: LLMProfile[];
+	if (data?.llmProfiles && data.llmProfiles.length > 0) {
+		llmProfiles = data.llmProfiles.map((p) => ({ ...DEFAULT_LLM_CONFIG, ...p }));
+	} else if (data?.llm) {
+		llmProfiles = [{ ...DEFAULT_LLM_CONFIG, ...data.llm, id: "default", name: "Default" }];
+	} else {
+		llmProfiles = defaults.llmProfiles.map((p) => ({ ...p }));
+	}
+
+	const ids = new Set(llmProfiles.map((p) => p.id));
+	const firstId = llmProfiles[0]!.id;
+	const commandProfiles = { ...defaults.commandProfiles, ...data?.commandProfiles };
+	for (const { value } of LLM_COMMANDS) {
+		if (!ids.has(commandProfiles[value])) {
+			commandProfiles[value] = firstId;
+		}
+	}
+
+	const fallbackProfileIds = (data?.fallbackProfileIds ?? defaults.fallbackProfileIds).filter(
+		(id) => ids.has(id)
+	);
+
+	return { llmProfiles, commandProfiles, fallbackProfileIds };
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { buildPrompt } from "./prompt";
+import { REVIEW_SCHEMA } from "./reviewSchema";
 import type { EvidencePack, ReviewPeriod } from "./types";
 
 describe("buildPrompt", () => {
@@ -27,20 +28,22 @@ describe("buildPrompt", () => {
 		],
 		totalNotesScanned: 10,
 		notesIncluded: 2,
+		estimatedTokens: 10,
+		tokensDropped: 0,
 	};
 
 	describe("period context", () => {
 		it("includes period start and end dates", () => {
 			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
 
-			expect(prompt).toContain("2025-01-13");
-			expect(prompt).toContain("2025-01-19");
+			expect(prompt.user).toContain("2025-01-13");
+			expect(prompt.user).toContain("2025-01-19");
 		});
 
 		it("includes period label", () => {
 			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
 
-			expect(prompt).toContain("Current week");
+			expect(prompt.user).toContain("Current week");
 		});
 	});
 
@@ -48,29 +51,29 @@ describe("buildPrompt", () => {
 		it("includes note paths", () => {
 			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
 
-			expect(prompt).toContain("projects/feature.md");
-			expect(prompt).toContain("journal/daily.md");
+			expect(prompt.user).toContain("projects/feature.md");
+			expect(prompt.user).toContain("journal/daily.md");
 		});
 
 		it("includes note titles", () => {
 			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
 
-			expect(prompt).toContain("Feature Work");
-			expect(prompt).toContain("Daily Notes");
+			expect(prompt.user).toContain("Feature Work");
+			expect(prompt.user).toContain("Daily Notes");
 		});
 
 		it("includes note excerpts", () => {
 			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
 
-			expect(prompt).toContain("Implemented new feature");
-			expect(prompt).toContain("Meeting notes and tasks");
+			expect(prompt.user).toContain("Implemented new feature");
+			expect(prompt.user).toContain("Meeting notes and tasks");
 		});
 
 		it("includes note count information", () => {
 			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
 
-			expect(prompt).toContain("2");
-			expect(prompt).toContain("10");
+			expect(prompt.user).toContain("2");
+			expect(prompt.user).toContain("10");
 		});
 	});
 
@@ -78,56 +81,111 @@ describe("buildPrompt", () => {
 		it("specifies markdown-only output", () => {
 			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
 
-			expect(prompt.toLowerCase()).toContain("markdown");
+			expect(prompt.system.toLowerCase()).toContain("markdown");
 		});
 
 		it("requests concise output", () => {
 			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
 
-			expect(prompt.toLowerCase()).toContain("concise");
+			expect(prompt.system.toLowerCase()).toContain("concise");
 		});
 
 		it("requests exactly 3 priorities", () => {
 			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
 
-			expect(prompt).toMatch(/exactly\s+3\s+priorities/i);
+			expect(prompt.system).toMatch(/exactly\s+3\s+priorities/i);
 		});
 
 		it("requests rationale for priorities", () => {
 			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
 
-			expect(prompt.toLowerCase()).toContain("rationale");
+			expect(prompt.system.toLowerCase()).toContain("rationale");
 		});
 
 		it("requests Obsidian links", () => {
 			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
 
-			expect(prompt).toMatch(/obsidian|link|wikilink|\[\[/i);
+			expect(prompt.system).toMatch(/obsidian|link|wikilink|\[\[/i);
 		});
 
 		it("specifies exact section headings", () => {
 			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
 
-			expect(prompt).toContain("## Summary");
-			expect(prompt).toContain("## Notable Work");
-			expect(prompt).toContain("## Priorities for Next Week");
-			expect(prompt).toContain("## Notes Reviewed");
+			expect(prompt.system).toContain("## Summary");
+			expect(prompt.system).toContain("## Notable Work");
+			expect(prompt.system).toContain("## Priorities for Next Week");
+			expect(prompt.system).toContain("## Notes Reviewed");
+		});
+	});
+
+	describe("structured output", () => {
+		it("does not request a schema in markdown mode", () => {
+			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
+
+			expect(prompt.responseSchema).toBeUndefined();
+		});
+
+		it("requests JSON following the review schema", () => {
+			const prompt = buildPrompt(baseEvidence, basePeriod, undefined, "json");
+
+			expect(prompt.responseSchema).toBe(REVIEW_SCHEMA);
+			expect(prompt.system).toMatch(/single JSON object/);
+			expect(prompt.system).not.toContain("## Summary");
+		});
+
+		it("describes every schema field and the priority count", () => {
+			const prompt = buildPrompt(baseEvidence, basePeriod, undefined, "json");
+
+			for (const field of ["summary", "notable_work", "priorities", "notes_reviewed"]) {
+				expect(prompt.system).toContain(`"${field}"`);
+			}
+			expect(prompt.system).toMatch(/exactly\s+3\s+priorities/i);
+		});
+
+		it("keeps the notes in the user message", () => {
+			const prompt = buildPrompt(baseEvidence, basePeriod, undefined, "json");
+
+			expect(prompt.user).toContain("Implemented new feature");
+		});
+	});
+
+	describe("tools", () => {
+		it("forbids following links without tools", () => {
+			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
+
+			expect(prompt.system).toContain("do NOT follow those links");
+		});
+
+		it("allows looking up notes for context with tools", () => {
+			for (const format of ["markdown", "json"] as const) {
+				const prompt = buildPrompt(baseEvidence, basePeriod, undefined, format, true);
+
+				expect(prompt.system).toContain("read_note, search_notes and list_backlinks");
+				expect(prompt.system).not.toContain("do NOT follow those links");
+			}
 		});
 	});
 
 	describe("system prompt override", () => {
+		it("keeps instructions out of the user message", () => {
+			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
+
+			expect(prompt.user).not.toContain("## Instructions");
+			expect(prompt.system).not.toContain("Implemented new feature");
+		});
+
 		it("uses custom system prompt when provided", () => {
 			const customPrompt = "You are a custom assistant.";
 			const prompt = buildPrompt(baseEvidence, basePeriod, customPrompt);
 
-			expect(prompt).toContain(customPrompt);
+			expect(prompt.system).toContain(customPrompt);
 		});
 
 		it("uses default system prompt when not overridden", () => {
 			const prompt = buildPrompt(baseEvidence, basePeriod, undefined);
 
 			// Default prompt should have review-related instructions
-			expect(prompt.toLowerCase()).toMatch(/review|summary|priorities/);
+			expect(prompt.system.toLowerCase()).toMatch(/review|summary|priorities/);
 		});
 	});
 
@@ -137,13 +195,16 @@ describe("buildPrompt", () => {
 				notes: [],
 				totalNotesScanned: 0,
 				notesIncluded: 0,
+				estimatedTokens: 0,
+				tokensDropped: 0,
 			};
 
 			const prompt = buildPrompt(emptyEvidence, basePeriod, undefined);
 
-			expect(prompt).toContain("0");
+			expect(prompt.user).toContain("0");
+			expect(prompt.user).toContain("No notes were modified");
 			// Should still include instructions
-			expect(prompt).toContain("## Summary");
+			expect(prompt.system).toContain("## Summary");
 		});
 	});
 });
@@ -1,4 +1,46 @@
-import type { EvidencePack, ReviewPeriod } from "./types";
+import { PRIORITY_COUNT, REVIEW_SCHEMA } from "./reviewSchema";
+import type { EvidencePack, LLMPrompt, ReviewOutputFormat, ReviewPeriod } from "./types";
+
+const SCOPE_RULE = `**ONLY review and reference the notes explicitly provided.** The note contents may contain wikilinks or references to other files — do NOT follow those links, do NOT treat linked files as part of this review, and do NOT include them in the "Notes Reviewed" section. Only files that were modified during the review period are provided, and those are the only files that should appear in your review.`;
+
+const TOOLS_SCOPE_RULE = `**Review the notes explicitly provided.** Only files that were modified during the review period are provided. You can call the read_note, search_notes and list_backlinks tools to look up other notes, such as the notes the provided ones link to, for context. Looked-up notes are context only: do NOT review them as work done during this period, and do NOT include them in the "Notes Reviewed" section.`;
+
+const markdownInstructions = (scopeRule: string) => `## Instructions
+Generate a weekly review based **only** on the notes provided by the user. Your output must:
+
+1. Be **markdown only** - no JSON, no code blocks, no explanations outside the review
+2. Be **concise** - focus on substance, avoid filler
+3. Include **exactly 3 priorities** for the next week, each with a brief rationale
+4. Reference notes using Obsidian wikilinks where relevant: [[Note Title]]
+5. Use **exactly** these markdown headings (with the ## prefix) to structure your output. Do NOT use bold text for section titles — use ## headings:
+6. ${scopeRule}
+
+## Summary
+A brief summary of what was accomplished during this period.
+
+## Notable Work
+Highlight significant work, achievements, or progress made.
+
+## Priorities for Next Week
+List exactly 3 priorities with rationale for each.
+
+## Notes Reviewed
+List the notes that were reviewed for this summary.`;
+
+const jsonInstructions = (scopeRule: string) => `## Instructions
+Generate a weekly review based **only** on the notes provided by the user. Your output must:
+
+1. Be a **single JSON object** - no markdown around it, no explanations outside it
+2. Be **concise** - focus on substance, avoid filler
+3. Include **exactly ${PRIORITY_COUNT} priorities** for the next week, each with a brief rationale
+4. Reference notes using Obsidian wikilinks where relevant: [[Note Title]]
+5. ${scopeRule}
+
+The JSON object has these fields:
+- "summary": a brief summary of what was accomplished during this period
+- "notable_work": an array of strings, one per significant piece of work, achievement, or progress
+- "priorities": an array of exactly ${PRIORITY_COUNT} objects with a "title" and a "rationale"
+- "notes_reviewed": an array with the titles of the notes that were reviewed (without brackets)`;
 
 const DEFAULT_SYSTEM_PROMPT = `You are an expert assistant that helps users review their work and set priorities. You analyze notes from a personal knowledge management system and generate insightful weekly reviews.`;
 
@@ -8,14 +50,20 @@ const DEFAULT_SYSTEM_PROMPT = `You are an expert assistant that helps users revi
  * @param evidence - The evidence pack containing notes to review
  * @param period - The review period with dates and label
  * @param systemPromptOverride - Optional custom system prompt
- * @returns The complete prompt string
+ * @param format - Ask for markdown, or for JSON following the review schema
+ * @param withTools - Allow the model to look up notes beyond the provided ones
+ * @returns The prompt, with the output instructions in the system message
+ * and the notes in the user message
  */
 export function buildPrompt(
 	evidence: EvidencePack,
 	period: ReviewPeriod,
-	systemPromptOverride: string | undefined
-): string {
+	systemPromptOverride: string | undefined,
+	format: ReviewOutputFormat = "markdown",
+	withTools = false
+): LLMPrompt {
 	const systemPrompt = systemPromptOverride ?? DEFAULT_SYSTEM_PROMPT;
+	const scopeRule = withTools ? TOOLS_SCOPE_RULE : SCOPE_RULE;
 
 	const periodStart = period.start.toISOString().split("T")[0];
 	const periodEnd = period.end.toISOString().split("T")[0];
@@ -30,9 +78,11 @@ ${note.excerpt}`
 		)
 		.join("\n\n");
 
-	return `${systemPrompt}
+	const system = `${systemPrompt}
+
+${format === "json" ? jsonInstructions(scopeRule) : markdownInstructions(scopeRule)}`;
 
-## Review Period
+	const user = `## Review Period
 - **Period type:** ${period.label}
 - **Start:** ${periodStart}
 - **End:** ${periodEnd}
@@ -42,27 +92,7 @@ ${note.excerpt}`
 ## Notes to Review
 ${evidence.notes.length > 0 ? notesSection : "No notes were modified during this period."}
 
-## Instructions
-Generate a weekly review based **only** on the notes listed above. Your output must:
-
-1. Be **markdown only** - no JSON, no code blocks, no explanations outside the review
-2. Be **concise** - focus on substance, avoid filler
-3. Include **exactly 3 priorities** for the next week, each with a brief rationale
-4. Reference notes using Obsidian wikilinks where relevant: [[Note Title]]
-5. Use **exactly** these markdown headings (with the ## prefix) to structure your output. Do NOT use bold text for section titles — use ## headings:
-6. **ONLY review and reference the notes explicitly provided above.** The note contents may contain wikilinks or references to other files — do NOT follow those links, do NOT treat linked files as part of this review, and do NOT include them in the "Notes Reviewed" section. Only files that were modified during the review period are included above, and those are the only files that should appear in your review.
-
-## Summary
-A brief summary of what was accomplished during this period.
-
-## Notable Work
-Highlight significant work, achievements, or progress made.
-
-## Priorities for Next Week
-List exactly 3 priorities with rationale for each.
-
-## Notes Reviewed
-List the notes that were reviewed for this summary.
-
 Begin your review now:`;
+
+	return format === "json" ? { system, user, responseSchema: REVIEW_SCHEMA } : { system, user };
 }
@@ -17,7 +17,11 @@ describe("renderReviewNote", () => {
 		periodPreset: "current_week",
 		generatedAt: "2025-01-19T15:00:00.000Z",
 		scannedFolders: ["projects", "journal"],
+		provider: "ollama",
 		model: "llama3.1",
+		notesScanned: 12,
+		notesIncluded: 10,
+		tokensDropped: 3400,
 	};
 
 	const llmResponse = `## Summary
@@ -75,12 +79,45 @@ This was a productive week.
 			expect(result).toContain("journal");
 		});
 
+		it("includes provider field", () => {
+			const result = renderReviewNote(llmResponse, basePeriod, baseMetadata);
+
+			expect(result).toContain("provider: ollama");
+		});
+
 		it("includes model field", () => {
 			const result = renderReviewNote(llmResponse, basePeriod, baseMetadata);
 
 			expect(result).toContain("model: llama3.1");
 		});
 
+		it("reports how much note content was left out", () => {
+			const result = renderReviewNote(llmResponse, basePeriod, baseMetadata);
+
+			expect(result).toContain("notes_scanned: 12");
+			expect(result).toContain("notes_included: 10");
+			expect(result).toContain("tokens_dropped: 3400");
+		});
+
+		it("includes the token usage when reported", () => {
+			const result = renderReviewNote(llmResponse, basePeriod, {
+				...baseMetadata,
+				inputTokens: 5120,
+				outputTokens: 640,
+			});
+
+			expect(result).toContain(
+				"tokens_dropped: 3400\ninput_tokens: 5120\noutput_tokens: 640\n---"
+			);
+		});
+
+		it("omits the token usage when not reported", () => {
+			const result = renderReviewNote(llmResponse, basePeriod, baseMetadata);
+
+			expect(result).not.toContain("input_tokens");
+			expect(result).not.toContain("output_tokens");
+		});
+
 		it("wraps frontmatter with --- delimiters", () => {
 			const result = renderReviewNote(llmResponse, basePeriod, baseMetadata);
 
@@ -110,6 +147,78 @@ This was a productive week.
 		});
 	});
 
+	describe("reasoning", () => {
+		it("puts the reasoning in a collapsed callout between frontmatter and body", () => {
+			const result = renderReviewNote(llmResponse, basePeriod, baseMetadata, {
+				reasoning: "First pass.\n\nSecond pass.",
+			});
+
+			expect(result).toContain(
+				"---\n> [!abstract]- Reasoning\n> First pass.\n>\n> Second pass.\n\n## Summary"
+			);
+		});
+
+		it("adds no callout without reasoning", () => {
+			const result = renderReviewNote(llmResponse, basePeriod, baseMetadata, {
+				reasoning: "",
+			});
+
+			expect(result).not.toContain("[!abstract]");
+		});
+	});
+
+	describe("tool calls", () => {
+		it("lists the retrieved notes in the frontmatter", () => {
+			const result = renderReviewNote(llmResponse, basePeriod, {
+				...baseMetadata,
+				notesRetrieved: ["Projects/Alpha.md", "Ideas/#1: [draft].md"],
+			});
+
+			expect(result).toContain(
+				'tokens_dropped: 3400\nnotes_retrieved: \n  - Projects/Alpha.md\n  - "Ideas/#1: [draft].md"\n---'
+			);
+		});
+
+		it("lists the tool calls in a collapsed callout after the review", () => {
+			const result = renderReviewNote(llmResponse, basePeriod, baseMetadata, {
+				toolCalls: [
+					{
+						tool: "search_notes",
+						argument: "alpha",
+						notes: ["Projects/Alpha.md", "Log.md"],
+					},
+					{ tool: "read_note", argument: "Alpha", notes: ["Projects/Alpha.md"] },
+					{ tool: "list_backlinks", argument: "Projects/Alpha.md", notes: [] },
+					{
+						tool: "read_note",
+						argument: "Beta",
+						notes: [],
+						error: "Note not found: Beta",
+					},
+				],
+			});
+
+			expect(
+				result.endsWith(`- [[Note 2]]
+
+> [!info]- Notes looked up by the model
+> - Searched for "alpha": [[Projects/Alpha]], [[Log]]
+> - Read [[Projects/Alpha]]
+> - Backlinks of [[Projects/Alpha]]: nothing
+> - read_note "Beta" failed: Note not found: Beta`)
+			).toBe(true);
+		});
+
+		it("leaves both out when no tools were used", () => {
+			const result = renderReviewNote(llmResponse, basePeriod, baseMetadata, {
+				toolCalls: [],
+			});
+
+			expect(result).not.toContain("notes_retrieved");
+			expect(result).not.toContain("[!info]");
+		});
+	});
+
 	describe("empty scanned folders", () => {
 		it("handles empty scanned_folders array", () => {
 			const metadataWithEmptyFolders: ReviewNoteMetadata = {
@@ -121,6 +230,17 @@ This was a productive week.
 
 			expect(result).toContain("scanned_folders: []");
 		});
+
+		it("quotes patterns, tags and queries", () => {
+			const result = renderReviewNote(llmResponse, basePeriod, {
+				...baseMetadata,
+				scannedFolders: ["Projects/**", "!Templates", "#work", "query: type = meeting"],
+			});
+
+			expect(result).toContain(
+				'scanned_folders: \n  - "Projects/**"\n  - "!Templates"\n  - "#work"\n  - "query: type = meeting"\n'
+			);
+		});
 	});
 });
 
@@ -1,4 +1,14 @@
-import type { ReviewPeriod, ReviewNoteMetadata } from "./types";
+import type { ReviewPeriod, ReviewNoteMetadata, ToolCallRecord } from "./types";
+
+/**
+ * Parts of the review note besides the review itself.
+ */
+export interface ReviewNoteExtras {
+	/** The model's reasoning, kept in a collapsed callout above the review */
+	reasoning?: string;
+	/** The tool calls made for the review, listed in a collapsed callout below it */
+	toolCalls?: ToolCallRecord[];
+}
 
 /**
  * Renders the complete review note with frontmatter and LLM-generated body.
@@ -6,15 +16,67 @@ import type { ReviewPeriod, ReviewNoteMetadata } from "./types";
  * @param llmResponse - The markdown content from the LLM
  * @param period - The review period
  * @param metadata - Metadata for the frontmatter
+ * @param extras - Reasoning and tool calls to include
  * @returns Complete markdown note content
  */
 export function renderReviewNote(
 	llmResponse: string,
 	period: ReviewPeriod,
-	metadata: ReviewNoteMetadata
+	metadata: ReviewNoteMetadata,
+	extras: ReviewNoteExtras = {}
 ): string {
 	const frontmatter = renderFrontmatter(metadata);
-	return `${frontmatter}\n${llmResponse}`;
+	const reasoning = extras.reasoning ? `${renderReasoningCallout(extras.reasoning)}\n\n` : "";
+	const toolCalls = extras.toolCalls?.length
+		? `\n\n${renderToolCallsCallout(extras.toolCalls)}`
+		: "";
+	return `${frontmatter}\n${reasoning}${llmResponse}${toolCalls}`;
+}
+
+/**
+ * Renders the model's reasoning as a collapsed callout.
+ */
+function renderReasoningCallout(reasoning: string): string {
+	const lines = reasoning
+		.trim()
+		.split("\n")
+		.map((line) => (line ? `> ${line}` : ">"));
+	return ["> [!abstract]- Reasoning", ...lines].join("\n");
+}
+
+/**
+ * Renders the tool calls made for the review as a collapsed callout.
+ */
+function renderToolCallsCallout(calls: ToolCallRecord[]): string {
+	const lines = calls.map((call) => {
+		if (call.error) {
+			return `> - ${call.tool} "${call.argument}" failed: ${call.error}`;
+		}
+		if (call.tool === "read_note") {
+			return `> - Read ${call.notes.map(wikilink).join(", ")}`;
+		}
+		const found = call.notes.length > 0 ? call.notes.map(wikilink).join(", ") : "nothing";
+		if (call.tool === "search_notes") {
+			return `> - Searched for "${call.argument}": ${found}`;
+		}
+		return `> - Backlinks of ${wikilink(call.argument)}: ${found}`;
+	});
+	return ["> [!info]- Notes looked up by the model", ...lines].join("\n");
+}
+
+/**
+ * Links to a note by its path, without the extension.
+ */
+function wikilink(path: string): string {
+	return `[[${path.replace(/\.md$/, "")}]]`;
+}
+
+/**
+ * Quotes a string for YAML unless it is plain text, so patterns such as
+ * `!Templates/**`, `#work` or `status: active` keep their meaning.
+ */
+export function yamlString(value: string): string {
+	return /^[\w(][\w ./()-]*$/.test(value) ? value : JSON.stringify(value);
 }
 
 /**
@@ -24,7 +86,21 @@ function renderFrontmatter(metadata: ReviewNoteMetadata): string {
 	const scannedFoldersYaml =
 		metadata.scannedFolders.length === 0
 			? "[]"
-			: `\n${metadata.scannedFolders.map((f) => `  - ${f}`).join("\n")}`;
+			: `\n${metadata.scannedFolders.map((f) => `  - ${yamlString(f)}`).join("\n")}`;
+
+	// Token counts are left out when the provider did not report them
+	const usageYaml = [
+		metadata.inputTokens !== undefined ? `\ninput_tokens: ${metadata.inputTokens}` : "",
+		metadata.outputTokens !== undefined ? `\noutput_tokens: ${metadata.outputTokens}` : "",
+	].join("");
+
+	const retrievedYaml = metadata.notesRetrieved
+		? `\nnotes_retrieved: ${
+				metadata.notesRetrieved.length === 0
+					? "[]"
+					: `\n${metadata.notesRetrieved.map((p) => `  - ${yamlString(p)}`).join("\n")}`
+			}`
+		: "";
 
 	return `---
 week_start: ${metadata.weekStart}
@@ -33,7 +109,11 @@ period_end: ${metadata.periodEnd}
 period_preset: ${metadata.periodPreset}
 generated_at: ${metadata.generatedAt}
 scanned_folders: ${scannedFoldersYaml}
+provider: ${metadata.provider}
 model: ${metadata.model}
+notes_scanned: ${metadata.notesScanned}
+notes_included: ${metadata.notesIncluded}
+tokens_dropped: ${metadata.tokensDropped}${usageYaml}${retrievedYaml}
 ---`;
 }
 
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { computeBackoffDelay, getHeader, getRetryDelay, parseRetryAfter } from "./retry";
+import type { RetryPolicy } from "./types";
+
+const policy: RetryPolicy = {
+	maxAttempts: 4,
+	baseDelayMs: 1000,
+	maxDelayMs: 5000,
+	retryableStatuses: [429, 503],
+};
+
+describe("computeBackoffDelay", () => {
+	it("doubles the delay with each attempt", () => {
+		const max = () => 0.999999;
+		expect(computeBackoffDelay(policy, 1, max)).toBe(1000);
+		expect(computeBackoffDelay(policy, 2, max)).toBe(2000);
+		expect(computeBackoffDelay(policy, 3, max)).toBe(4000);
+	});
+
+	it("caps the delay at maxDelayMs", () => {
+		expect(computeBackoffDelay(policy, 10, () => 0.999999)).toBe(5000);
+	});
+
+	it("jitters into the upper half of the window", () => {
+		expect(computeBackoffDelay(policy, 2, () => 0)).toBe(1000);
+		expect(computeBackoffDelay(policy, 2, () => 0.5)).toBe(1500);
+	});
+});
+
+describe("parseRetryAfter", () => {
+	it("parses a delay in seconds", () => {
+		expect(parseRetryAfter("3")).toBe(3000);
+		expect(parseRetryAfter(" 1.5 ")).toBe(1500);
+	});
+
+	it("parses an HTTP date relative to now", () => {
+		const now = Date.parse("Wed, 21 Oct 2025 07:28:00 GMT");
+		expect(parseRetryAfter("Wed, 21 Oct 2025 07:28:04 GMT", now)).toBe(4000);
+	});
+
+	it("clamps dates in the past to zero", () => {
+		const now = Date.parse("Wed, 21 Oct 2025 07:28:00 GMT");
+		expect(parseRetryAfter("Wed, 21 Oct 2025 07:27:00 GMT", now)).toBe(0);
+	});
+
+	it("returns null for missing or invalid values", () => {
+		expect(parseRetryAfter(undefined)).toBeNull();
+		expect(parseRetryAfter("")).toBeNull();
+		expect(parseRetryAfter("soon")).toBeNull();
+	});
+});
+
+describe("getRetryDelay", () => {
+	it("returns a backoff delay for retryable statuses", () => {
+		expect(getRetryDelay(policy, 1, 503, undefined, 0, () => 0)).toBe(500);
+	});
+
+	it("returns null for non-retryable statuses", () => {
+		expect(getRetryDelay(policy, 1, 400, undefined)).toBeNull();
+		expect(getRetryDelay(policy, 1, 500, undefined)).toBeNull();
+	});
+
+	it("returns null once attempts are exhausted", () => {
+		expect(getRetryDelay(policy, 4, 429, undefined)).toBeNull();
+	});
+
+	it("honors Retry-After over the backoff delay", () => {
+		expect(getRetryDelay(policy, 1, 429, "2", 0, () => 0)).toBe(2000);
+	});
+
+	it("does not retry when Retry-After exceeds maxDelayMs", () => {
+		expect(getRetryDelay(policy, 1, 429, "60")).toBeNull();
+	});
+});
+
+describe("getHeader", () => {
+	it("looks up headers case-insensitively", () => {
+		expect(getHeader({ "Retry-After": "5" }, "retry-after")).toBe("5");
+	});
+
+	it("returns undefined for missing headers", () => {
+		expect(getHeader({}, "retry-after")).toBeUndefined();
+		expect(getHeader(undefined, "retry-after")).toBeUndefined();
+	});
+});
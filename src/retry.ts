@@ -0,0 +1,98 @@
+import type { RetryPolicy } from "./types";
+
+/**
+ * Computes the exponential backoff delay before the next attempt.
+ *
+ * The delay doubles with each attempt (capped at `maxDelayMs`) and is
+ * jittered into the upper half of that window so that concurrent clients
+ * don't retry in lockstep.
+ *
+ * @param policy - The retry policy
+ * @param attempt - The attempt that just failed (1-based)
+ * @param random - Random source in [0, 1), injectable for tests
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+	policy: RetryPolicy,
+	attempt: number,
+	random: () => number = Math.random
+): number {
+	const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+	return Math.round(exponential / 2 + (random() * exponential) / 2);
+}
+
+/**
+ * Parses a `Retry-After` header value, given either in seconds or as an HTTP date.
+ *
+ * @param value - The header value
+ * @param now - Current time in milliseconds
+ * @returns Delay in milliseconds, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(
+	value: string | undefined,
+	now: number = Date.now()
+): number | null {
+	if (!value) {
+		return null;
+	}
+
+	const trimmed = value.trim();
+	if (/^\d+(\.\d+)?$/.test(trimmed)) {
+		return Math.round(parseFloat(trimmed) * 1000);
+	}
+
+	const date = Date.parse(trimmed);
+	if (isNaN(date)) {
+		return null;
+	}
+	return Math.max(0, date - now);
+}
+
+/**
+ * Decides whether a failed HTTP request should be retried and how long to wait.
+ *
+ * A `Retry-After` header takes precedence over the backoff delay. If the
+ * server asks for a longer wait than `maxDelayMs`, the request is not retried
+ * so that the error surfaces (or falls back) instead of hanging.
+ *
+ * @param policy - The retry policy
+ * @param attempt - The attempt that just failed (1-based)
+ * @param status - The HTTP status of the failed attempt
+ * @param retryAfter - The `Retry-After` header value, if any
+ * @param now - Current time in milliseconds
+ * @param random - Random source in [0, 1), injectable for tests
+ * @returns Delay in milliseconds, or null if the request should not be retried
+ */
+export function getRetryDelay(
+	policy: RetryPolicy,
+	attempt: number,
+	status: number,
+	retryAfter: string | undefined,
+	now: number = Date.now(),
+	random: () => number = Math.random
+): number | null {
+	if (attempt >= policy.maxAttempts || !policy.retryableStatuses.includes(status)) {
+		return null;
+	}
+
+	const retryAfterMs = parseRetryAfter(retryAfter, now);
+	if (retryAfterMs !== null) {
+		return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : null;
+	}
+
+	return computeBackoffDelay(policy, attempt, random);
+}
+
+/**
+ * Looks up a header case-insensitively.
+ */
+export function getHeader(
+	headers: Record<string, string> | undefined,
+	name: string
+): string | undefined {
+	if (!headers) {
+		return undefined;
+	}
+	const key = Object.keys(headers).find((k) => k.toLowerCase() === name.toLowerCase());
+	return key === undefined ? undefined : headers[key];
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { LLMError } from "./llmClient";
+import {
+	isStructuredReview,
+	parseStructuredReview,
+	renderStructuredReview,
+	REVIEW_SCHEMA,
+	validateReview,
+} from "./reviewSchema";
+import type { StructuredReview } from "./types";
+
+const review: StructuredReview = {
+	summary: "Shipped the importer.",
+	notable_work: ["Finished the CSV importer", "Fixed the sync bug in [[Sync]]"],
+	priorities: [
+		{ title: "Release", rationale: "The importer is ready." },
+		{ title: "Docs", rationale: "Users ask how to import." },
+		{ title: "Tests", rationale: "Sync has no coverage." },
+	],
+	notes_reviewed: ["Importer", "Sync"],
+};
+
+describe("REVIEW_SCHEMA", () => {
+	it("requires every field and exactly 3 priorities", () => {
+		const schema = REVIEW_SCHEMA.schema as {
+			required: string[];
+			properties: { priorities: { minItems: number; maxItems: number } };
+		};
+
+		expect(schema.required).toEqual([
+			"summary",
+			"notable_work",
+			"priorities",
+			"notes_reviewed",
+		]);
+		expect(schema.properties.priorities.minItems).toBe(3);
+		expect(schema.properties.priorities.maxItems).toBe(3);
+	});
+});
+
+describe("parseStructuredReview", () => {
+	it("parses a valid review", () => {
+		expect(parseStructuredReview(JSON.stringify(review))).toEqual(review);
+	});
+
+	it("accepts JSON wrapped in a code fence", () => {
+		const text = "```json\n" + JSON.stringify(review, null, 2) + "\n```";
+
+		expect(parseStructuredReview(text)).toEqual(review);
+	});
+
+	it("rejects text that is not JSON", () => {
+		expect(() => parseStructuredReview("## Summary\nA good week.")).toThrow(/not valid JSON/);
+	});
+
+	it("rejects reviews with the wrong number of priorities", () => {
+		const text = JSON.stringify({ ...review, priorities: review.priorities.slice(0, 2) });
+
+		expect(() => parseStructuredReview(text)).toThrow(LLMError);
+		expect(() => parseStructuredReview(text)).toThrow(/exactly 3 priorities, got 2/);
+	});
+});
+
+describe("isStructuredReview", () => {
+	it("accepts only responses that parse as a review", () => {
+		expect(isStructuredReview(JSON.stringify(review))).toBe(true);
+		expect(isStructuredReview("## Summary\nA good week.")).toBe(false);
+	});
+});
+
+describe("validateReview", () => {
+	it("returns no problems for a valid review", () => {
+		expect(validateReview(review)).toEqual([]);
+	});
+
+	it("rejects non-objects", () => {
+		expect(validateReview([review])).toEqual(["expected a JSON object"]);
+		expect(validateReview(null)).toEqual(["expected a JSON object"]);
+	});
+
+	it("lists every problem found", () => {
+		const problems = validateReview({
+			summary: "",
+			notable_work: "Everything",
+			priorities: [{ title: "Release" }, review.priorities[1], review.priorities[2]],
+		});
+
+		expect(problems).toEqual([
+			"summary must be a non-empty string",
+			"notable_work must be an array of strings",
+			"notes_reviewed must be an array of strings",
+			"priorities[0] must have a title and a rationale",
+		]);
+	});
+});
+
+describe("renderStructuredReview", () => {
+	it("renders the review under the standard headings", () => {
+		expect(renderStructuredReview(review)).toBe(`## Summary
+Shipped the importer.
+
+## Notable Work
+- Finished the CSV importer
+- Fixed the sync bug in [[Sync]]
+
+## Priorities for Next Week
+1. **Release** - The importer is ready.
+2. **Docs** - Users ask how to import.
+3. **Tests** - Sync has no coverage.
+
+## Notes Reviewed
+- [[Importer]]
+- [[Sync]]
+`);
+	});
+
+	it("keeps note titles that are already linked", () => {
+		const result = renderStructuredReview({ ...review, notes_reviewed: ["[[Importer]]"] });
+
+		expect(result).toContain("- [[Importer]]\n");
+		expect(result).not.toContain("[[[[");
+	});
+
+	it("fills empty lists with a placeholder", () => {
+		const result = renderStructuredReview({ ...review, notable_work: [], notes_reviewed: [] });
+
+		expect(result).toContain("## Notable Work\nNothing notable this period.");
+		expect(result).toContain("## Notes Reviewed\nNo notes were reviewed.");
+	});
+});
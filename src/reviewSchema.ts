@@ -0,0 +1,189 @@
+import { LLMError } from "./llmClient";
+import type { ResponseSchema, StructuredReview } from "./types";
+
+/**
+ * Number of priorities a review must contain.
+ */
+export const PRIORITY_COUNT = 3;
+
+/**
+ * JSON schema for a structured review. Every field is required and no extra
+ * fields are allowed, as OpenAI's strict mode expects.
+ */
+export const REVIEW_SCHEMA: ResponseSchema = {
+	name: "weekly_review",
+	schema: {
+		type: "object",
+		properties: {
+			summary: {
+				type: "string",
+				description: "A brief summary of what was accomplished during the period.",
+			},
+			notable_work: {
+				type: "array",
+				description: "Significant work, achievements or progress, one item each.",
+				items: { type: "string" },
+			},
+			priorities: {
+				type: "array",
+				description: `Exactly ${PRIORITY_COUNT} priorities for the next week.`,
+				items: {
+					type: "object",
+					properties: {
+						title: { type: "string" },
+						rationale: { type: "string" },
+					},
+					required: ["title", "rationale"],
+					additionalProperties: false,
+				},
+				minItems: PRIORITY_COUNT,
+				maxItems: PRIORITY_COUNT,
+			},
+			notes_reviewed: {
+				type: "array",
+				description: "Titles of the provided notes that were reviewed.",
+				items: { type: "string" },
+			},
+		},
+		required: ["summary", "notable_work", "priorities", "notes_reviewed"],
+		additionalProperties: false,
+	},
+};
+
+/**
+ * Parses and validates a structured review returned by the model.
+ *
+ * Tolerates a markdown code fence around the JSON, which some models add
+ * even when asked for JSON only.
+ *
+ * @param text - The raw model response
+ * @returns The validated review
+ * @throws LLMError if the response is not valid JSON or does not match the schema
+ */
+export function parseStructuredReview(text: string): StructuredReview {
+	let json: unknown;
+	try {
+		json = JSON.parse(stripCodeFence(text));
+	} catch {
+		throw new LLMError("Invalid review JSON: the response is not valid JSON");
+	}
+
+	const problems = validateReview(json);
+	if (problems.length > 0) {
+		throw new LLMError(`Invalid review JSON: ${problems.join("; ")}`);
+	}
+	return json as StructuredReview;
+}
+
+/**
+ * Whether a model response is a valid structured review.
+ */
+export function isStructuredReview(text: string): boolean {
+	try {
+		parseStructuredReview(text);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Checks a parsed value against the review schema.
+ *
+ * @returns A description of each problem found (empty if valid)
+ */
+export function validateReview(value: unknown): string[] {
+	if (!isRecord(value)) {
+		return ["expected a JSON object"];
+	}
+
+	const problems: string[] = [];
+	if (typeof value.summary !== "string" || value.summary.trim() === "") {
+		problems.push("summary must be a non-empty string");
+	}
+	if (!isStringArray(value.notable_work)) {
+		problems.push("notable_work must be an array of strings");
+	}
+	if (!isStringArray(value.notes_reviewed)) {
+		problems.push("notes_reviewed must be an array of strings");
+	}
+
+	const priorities = value.priorities;
+	if (!Array.isArray(priorities)) {
+		problems.push("priorities must be an array");
+	} else {
+		if (priorities.length !== PRIORITY_COUNT) {
+			problems.push(
+				`expected exactly ${PRIORITY_COUNT} priorities, got ${priorities.length}`
+			);
+		}
+		priorities.forEach((priority, index) => {
+			if (
+				!isRecord(priority) ||
+				typeof priority.title !== "string" ||
+				typeof priority.rationale !== "string"
+			) {
+				problems.push(`priorities[${index}] must have a title and a rationale`);
+			}
+		});
+	}
+	return problems;
+}
+
+/**
+ * Renders a structured review to markdown with the same headings the
+ * markdown mode asks the model for.
+ *
+ * @param review - A validated review
+ * @returns The review body in markdown
+ */
+export function renderStructuredReview(review: StructuredReview): string {
+	const notableWork =
+		review.notable_work.length > 0
+			? review.notable_work.map((item) => `- ${item}`).join("\n")
+			: "Nothing notable this period.";
+	const priorities = review.priorities
+		.map((priority, index) => `${index + 1}. **${priority.title}** - ${priority.rationale}`)
+		.join("\n");
+	const notesReviewed =
+		review.notes_reviewed.length > 0
+			? review.notes_reviewed.map((title) => `- ${toWikilink(title)}`).join("\n")
+			: "No notes were reviewed.";
+
+	return `## Summary
+${review.summary.trim()}
+
+## Notable Work
+${notableWork}
+
+## Priorities for Next Week
+${priorities}
+
+## Notes Reviewed
+${notesReviewed}
+`;
+}
+
+/**
+ * Links a note title, keeping titles the model already linked as they are.
+ */
+function toWikilink(title: string): string {
+	const trimmed = title.trim();
+	return trimmed.startsWith("[[") ? trimmed : `[[${trimmed}]]`;
+}
+
+/**
+ * Removes a surrounding markdown code fence, if present.
+ */
+function stripCodeFence(text: string): string {
+	const match = /^\s*```(?:json)?\s*\n([\s\S]*?)\n\s*```\s*$/.exec(text);
+	return match ? match[1]! : text;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
@@ -1,26 +1,23 @@
 import { describe, it, expect } from "vitest";
-import { scanNotes } from "./scan";
+import { filterNotes, scanNotes } from "./scan";
+import { parseQuery } from "./noteQuery";
+import { ContentSnapshot } from "./contentSnapshot";
 import type { VaultAdapter } from "./types";
+import { memoryStore, mockVault } from "./testUtils";
 
 function createMockVault(
 	files: Array<{ path: string; mtime: Date; content: string }>
 ): VaultAdapter {
 	return {
+		...mockVault({}),
 		async listMarkdownFiles() {
-			return files.map((f) => ({ path: f.path, mtime: f.mtime }));
+			return files.map((f) => ({ path: f.path, mtime: f.mtime, ctime: f.mtime }));
 		},
 		async readFile(path: string) {
 			const file = files.find((f) => f.path === path);
 			if (!file) throw new Error(`File not found: ${path}`);
 			return file.content;
 		},
-		async createFile() {},
-		async fileExists() {
-			return false;
-		},
-		async listFilesInFolder() {
-			return [];
-		},
 	};
 }
 
@@ -93,6 +90,92 @@ describe("scanNotes", () => {
 		});
 	});
 
+	describe("pattern and tag filtering", () => {
+		const mtime = new Date("2025-01-15T10:00:00Z");
+		const start = new Date("2025-01-01T00:00:00Z");
+		const end = new Date("2025-01-31T23:59:59Z");
+		const files = {
+			"Projects/Alpha.md": { mtime, content: "", tags: ["work"] },
+			"Projects/Archive/Old.md": { mtime, content: "", tags: ["work"] },
+			"Projects/Diary.md": { mtime, content: "", tags: ["work", "private/health"] },
+			"Templates/Meeting.md": { mtime, content: "", tags: ["work"] },
+			"Journal/2025-01-15.md": { mtime, content: "", tags: [] },
+		};
+
+		it("applies include and exclude globs", async () => {
+			const result = await scanNotes(
+				mockVault(files),
+				["Projects/**", "Templates/**", "!**/Archive/**", "!Templates/**"],
+				start,
+				end
+			);
+
+			expect(result.map((n) => n.path).sort()).toEqual(["Projects/Alpha.md", "Projects/Diary.md"]);
+		});
+
+		it("requires and excludes tags, including nested tags", async () => {
+			const result = await scanNotes(mockVault(files), [], start, end, {
+				tagFilters: ["#work", "-#private"],
+			});
+
+			expect(result.map((n) => n.path).sort()).toEqual([
+				"Projects/Alpha.md",
+				"Projects/Archive/Old.md",
+				"Templates/Meeting.md",
+			]);
+		});
+
+		it("lists matching notes regardless of the time range", async () => {
+			const result = await filterNotes(
+				mockVault({
+					...files,
+					"Projects/Beta.md": { mtime: new Date("2020-01-01"), content: "", tags: [] },
+				}),
+				["Projects"],
+				["-#work"]
+			);
+
+			expect(result.map((n) => n.path)).toEqual(["Projects/Beta.md"]);
+		});
+	});
+
+	describe("frontmatter queries", () => {
+		const mtime = new Date("2025-01-15T10:00:00Z");
+		const files = {
+			"Standup.md": {
+				mtime,
+				content: "",
+				frontmatter: { type: "meeting", status: "active" },
+			},
+			"Retro.md": { mtime, content: "", frontmatter: { type: "meeting", status: "done" } },
+			"Apollo.md": { mtime, content: "", frontmatter: { type: "project" } },
+			"Scratch.md": { mtime, content: "" },
+		};
+
+		it("keeps notes whose frontmatter matches the query", async () => {
+			const result = await scanNotes(
+				mockVault(files),
+				[],
+				new Date("2025-01-01T00:00:00Z"),
+				new Date("2025-01-31T23:59:59Z"),
+				{ query: parseQuery("type = meeting and status != done") }
+			);
+
+			expect(result.map((n) => n.path)).toEqual(["Standup.md"]);
+		});
+
+		it("combines the query with path patterns", async () => {
+			const result = await filterNotes(
+				mockVault(files),
+				["!Standup.md"],
+				[],
+				parseQuery("type exists")
+			);
+
+			expect(result.map((n) => n.path)).toEqual(["Retro.md", "Apollo.md"]);
+		});
+	});
+
 	describe("mtime filtering", () => {
 		it("includes notes within the time range (inclusive)", async () => {
 			const start = new Date("2025-01-15T00:00:00Z");
@@ -129,6 +212,96 @@ describe("scanNotes", () => {
 		});
 	});
 
+	describe("date selection", () => {
+		// Bulk-edited on Jan 20, outside the period
+		const mtime = new Date(2025, 0, 20, 9, 0);
+		const start = new Date(2025, 0, 13);
+		const end = new Date(2025, 0, 19, 23, 59, 59);
+		const files = {
+			"Daily/2025-01-15.md": { mtime, content: "" },
+			"Daily/2025-01-02.md": { mtime, content: "" },
+			"Created.md": { mtime, ctime: new Date(2025, 0, 14, 8, 0), content: "" },
+			"Dated.md": { mtime, content: "", frontmatter: { created: "2025-01-17" } },
+			"Updated.md": {
+				mtime,
+				content: "",
+				frontmatter: { date: "2024-12-01", updated: "2025-01-18" },
+			},
+		};
+		const properties = ["date", "created", "updated"];
+
+		it("selects notes by the date in their filename", async () => {
+			const result = await scanNotes(mockVault(files), [], start, end, {
+				noteDates: { sources: ["filename"], properties },
+			});
+
+			expect(result.map((n) => n.path)).toEqual(["Daily/2025-01-15.md"]);
+		});
+
+		it("selects notes by the first date property they have", async () => {
+			const result = await scanNotes(mockVault(files), [], start, end, {
+				noteDates: { sources: ["property"], properties },
+			});
+
+			expect(result.map((n) => n.path)).toEqual(["Dated.md"]);
+		});
+
+		it("combines sources, newest date first", async () => {
+			const result = await scanNotes(mockVault(files), [], start, end, {
+				noteDates: { sources: ["ctime", "property", "filename"], properties },
+			});
+
+			expect(result.map((n) => n.path)).toEqual([
+				"Dated.md",
+				"Daily/2025-01-15.md",
+				"Created.md",
+			]);
+		});
+
+		it("ignores file times unless selected", async () => {
+			const result = await scanNotes(mockVault(files), [], start, new Date(2025, 0, 21), {
+				noteDates: { sources: ["filename"], properties },
+			});
+
+			expect(result.map((n) => n.path)).toEqual(["Daily/2025-01-15.md"]);
+		});
+	});
+
+	describe("content change tracking", () => {
+		const start = new Date("2025-01-13T00:00:00Z");
+		const end = new Date("2025-01-19T23:59:59Z");
+		const lastWeek = new Date("2025-01-08T10:00:00Z");
+		const bumped = new Date("2025-01-15T10:00:00Z");
+
+		it("skips notes saved in the period without new content", async () => {
+			const snapshot = new ContentSnapshot(memoryStore());
+			await snapshot.changedAt("Synced.md", "Same", lastWeek);
+			await snapshot.changedAt("Edited.md", "Before", lastWeek);
+			const vault = mockVault({
+				"Synced.md": { mtime: bumped, content: "Same" },
+				"Edited.md": { mtime: bumped, content: "After" },
+				"New.md": { mtime: bumped, content: "New" },
+			});
+
+			const result = await scanNotes(vault, [], start, end, { contentChanges: snapshot });
+
+			expect(result.map((n) => n.path).sort()).toEqual(["Edited.md", "New.md"]);
+		});
+
+		it("does not apply to other note dates", async () => {
+			const snapshot = new ContentSnapshot(memoryStore());
+			await snapshot.changedAt("2025-01-15.md", "Same", lastWeek);
+			const vault = mockVault({ "2025-01-15.md": { mtime: bumped, content: "Same" } });
+
+			const result = await scanNotes(vault, [], start, end, {
+				noteDates: { sources: ["filename"], properties: [] },
+				contentChanges: snapshot,
+			});
+
+			expect(result).toHaveLength(1);
+		});
+	});
+
 	describe("sorting", () => {
 		it("sorts notes by mtime descending (newest first)", async () => {
 			const files = [
@@ -183,6 +356,22 @@ describe("scanNotes", () => {
 			expect(result[0]!.title).toBe("My Custom Title");
 		});
 
+		it("prefers the title from the parsed frontmatter", async () => {
+			const files = {
+				"note.md": {
+					mtime: new Date("2025-01-15T10:00:00Z"),
+					content: "---\ntitle: >-\n  Folded\n---\nContent here",
+					frontmatter: { title: "Folded" },
+				},
+			};
+			const start = new Date("2025-01-01T00:00:00Z");
+			const end = new Date("2025-01-31T23:59:59Z");
+
+			const result = await scanNotes(mockVault(files), [], start, end);
+
+			expect(result[0]!.title).toBe("Folded");
+		});
+
 		it("uses filename when no frontmatter title", async () => {
 			const files = [
 				{
@@ -1,46 +1,79 @@
-import type { NoteMetadata, VaultAdapter } from "./types";
+import type { ContentSnapshot } from "./contentSnapshot";
+import { hasTagFilters, matchesPath, matchesTags, parseNoteFilter } from "./noteFilter";
+import { latestDateInPeriod, needsFrontmatter, noteDates } from "./noteDates";
+import { evaluateQuery, type QueryNode } from "./noteQuery";
+import {
+	DEFAULT_NOTE_DATE_SETTINGS,
+	type NoteDateSettings,
+	type NoteMetadata,
+	type VaultAdapter,
+} from "./types";
 
 /**
- * Scans the vault for notes matching folder and time range criteria.
+ * Optional criteria for scanning notes.
+ */
+export interface ScanOptions {
+	tagFilters?: string[]; // tags to require (`#tag`) or exclude (`-#tag`)
+	query?: QueryNode; // query the frontmatter of the notes must match
+	noteDates?: NoteDateSettings; // dates placing notes in the time range, mtime by default
+	contentChanges?: ContentSnapshot; // when set, the mtime of a note is its last content change
+}
+
+/**
+ * Scans the vault for notes matching path, tag, frontmatter and time range criteria.
  *
  * @param vault - The vault adapter to use for file operations
- * @param folders - Folders to scan (empty = scan whole vault)
+ * @param patterns - Folders or glob patterns to scan, `!` to exclude (empty = whole vault)
  * @param start - Start of the time range (inclusive)
  * @param end - End of the time range (inclusive)
- * @returns Notes matching the criteria, sorted by mtime descending
+ * @returns Notes matching the criteria, sorted by their latest date in the range, descending
  */
 export async function scanNotes(
 	vault: VaultAdapter,
-	folders: string[],
+	patterns: string[],
 	start: Date,
-	end: Date
+	end: Date,
+	options: ScanOptions = {}
 ): Promise<NoteMetadata[]> {
-	// Get all markdown files
-	const allFiles = await vault.listMarkdownFiles();
+	const dateSettings = options.noteDates ?? DEFAULT_NOTE_DATE_SETTINGS;
+	const files = await filterNotes(vault, patterns, options.tagFilters, options.query);
 
-	// Normalize folder paths (remove trailing slashes)
-	const normalizedFolders = folders.map((f) => f.replace(/\/$/, ""));
-
-	// Filter by folder
-	const folderFiltered =
-		normalizedFolders.length === 0
-			? allFiles
-			: allFiles.filter((file) => isInFolders(file.path, normalizedFolders));
-
-	// Filter by mtime
-	const mtimeFiltered = folderFiltered.filter((file) => {
-		const mtime = file.mtime.getTime();
-		return mtime >= start.getTime() && mtime <= end.getTime();
-	});
+	// Filter by the dates of the notes. With change tracking, a note modified
+	// without new content keeps the time its content last changed.
+	const tracker = dateSettings.sources.includes("mtime") ? options.contentChanges : undefined;
+	const contents = new Map<string, string>();
+	const dated = await Promise.all(
+		files.map(async (file) => {
+			let mtime = file.mtime;
+			// Content cannot have changed after the last modification
+			if (tracker && file.mtime >= start) {
+				const content = await vault.readFile(file.path);
+				contents.set(file.path, content);
+				mtime = await tracker.changedAt(file.path, content, file.mtime);
+			}
+			const frontmatter = needsFrontmatter(dateSettings)
+				? await vault.getFrontmatter(file.path)
+				: null;
+			const dates = noteDates({ ...file, mtime }, frontmatter, dateSettings);
+			return { ...file, date: latestDateInPeriod(dates, start, end) };
+		})
+	);
+	const inRange = dated.filter(
+		(file): file is typeof file & { date: Date } => file.date !== null
+	);
 
-	// Sort by mtime descending (newest first)
-	const sorted = mtimeFiltered.sort((a, b) => b.mtime.getTime() - a.mtime.getTime());
+	// Sort by date descending (newest first)
+	const sorted = inRange.sort((a, b) => b.date.getTime() - a.date.getTime());
 
 	// Load content and extract metadata for each note
 	const notes: NoteMetadata[] = await Promise.all(
 		sorted.map(async (file) => {
-			const content = await vault.readFile(file.path);
-			const title = extractTitle(content, file.path);
+			const content = contents.get(file.path) ?? (await vault.readFile(file.path));
+			const frontmatter = await vault.getFrontmatter(file.path);
+			const title =
+				typeof frontmatter?.title === "string" && frontmatter.title.trim()
+					? frontmatter.title.trim()
+					: extractTitle(content, file.path);
 			return {
 				path: file.path,
 				title,
@@ -54,13 +87,38 @@ export async function scanNotes(
 }
 
 /**
- * Checks if a file path is within any of the specified folders.
+ * Lists the notes of the vault matching path patterns, tag filters and a
+ * frontmatter query, regardless of when they were modified.
+ *
+ * @param vault - The vault adapter to use for file operations
+ * @param patterns - Folders or glob patterns, `!` to exclude (empty = whole vault)
+ * @param tagFilters - Tags to require (`#tag`) or exclude (`-#tag`)
+ * @param query - Query the frontmatter of the notes must match, if any
  */
-function isInFolders(filePath: string, folders: string[]): boolean {
-	return folders.some((folder) => {
-		// Check if the file path starts with the folder path
-		return filePath === folder || filePath.startsWith(folder + "/");
-	});
+export async function filterNotes(
+	vault: VaultAdapter,
+	patterns: string[],
+	tagFilters: string[] = [],
+	query?: QueryNode
+): Promise<Array<{ path: string; mtime: Date; ctime: Date }>> {
+	const filter = parseNoteFilter(patterns, tagFilters);
+	let files = (await vault.listMarkdownFiles()).filter((file) => matchesPath(filter, file.path));
+	if (hasTagFilters(filter)) {
+		const tagged = await Promise.all(
+			files.map(async (file) => matchesTags(filter, await vault.getNoteTags(file.path)))
+		);
+		files = files.filter((_, i) => tagged[i]);
+	}
+	if (query) {
+		const now = new Date();
+		const matched = await Promise.all(
+			files.map(async (file) =>
+				evaluateQuery(query, await vault.getFrontmatter(file.path), now)
+			)
+		);
+		files = files.filter((_, i) => matched[i]);
+	}
+	return files;
 }
 
 /**
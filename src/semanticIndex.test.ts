@@ -0,0 +1,214 @@
+import { describe, it, expect, vi } from "vitest";
+import { chunkByHeading, cosineSimilarity, SemanticIndex, type EmbedFn } from "./semanticIndex";
+import { memoryStore, mockVault } from "./testUtils";
+
+/**
+ * Embeds texts as counts of a few keywords, so similar texts get similar vectors.
+ */
+const keywordEmbed = vi.fn<EmbedFn>(async (texts) =>
+	texts.map((text) =>
+		["garden", "tomato", "budget", "invoice"].map(
+			(word) => text.toLowerCase().split(word).length - 1
+		)
+	)
+);
+
+describe("chunkByHeading", () => {
+	it("splits a note at its headings, without the frontmatter", () => {
+		const content =
+			"---\ntags: [x]\n---\nIntro line.\n\n## Plans\nPlant tomatoes.\n\n### Budget ##\nTen euros.";
+
+		expect(chunkByHeading(content)).toEqual([
+			{ heading: "", text: "Intro line." },
+			{ heading: "Plans", text: "Plant tomatoes." },
+			{ heading: "Budget", text: "Ten euros." },
+		]);
+	});
+
+	it("skips empty sections and headings inside code blocks", () => {
+		const content = "# Empty\n\n# Code\n```\n# not a heading\n```";
+
+		expect(chunkByHeading(content)).toEqual([
+			{ heading: "Code", text: "```\n# not a heading\n```" },
+		]);
+	});
+
+	it("splits long sections at paragraphs and cuts long paragraphs", () => {
+		const content = "# Long\naaaa\n\nbbbb\n\ncccccccccccc";
+
+		expect(chunkByHeading(content, 10)).toEqual([
+			{ heading: "Long", text: "aaaa\n\nbbbb" },
+			{ heading: "Long", text: "cccccccccc" },
+			{ heading: "Long", text: "cc" },
+		]);
+	});
+});
+
+describe("cosineSimilarity", () => {
+	it("compares the direction of vectors", () => {
+		expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+		expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+		expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+	});
+});
+
+describe("SemanticIndex", () => {
+	const files = {
+		"Garden.md": { content: "# Beds\nThe garden has tomato beds.", mtime: new Date(1) },
+		"Money.md": { content: "# Costs\nThe budget and the invoice.", mtime: new Date(1) },
+	};
+
+	it("finds the sections most similar to a query", async () => {
+		const index = new SemanticIndex(memoryStore(), "test-model", keywordEmbed);
+		await index.sync(mockVault(files));
+
+		const matches = await index.search("tomato garden", 1);
+
+		expect(matches).toEqual([
+			{
+				path: "Garden.md",
+				heading: "Beds",
+				text: "The garden has tomato beds.",
+				score: expect.closeTo(0.9487, 3) as number,
+			},
+		]);
+	});
+
+	it("passes the signal on to the query embedding", async () => {
+		const index = new SemanticIndex(memoryStore(), "test-model", keywordEmbed);
+		await index.sync(mockVault(files));
+		const controller = new AbortController();
+
+		await index.search("garden", 1, controller.signal);
+
+		expect(keywordEmbed).toHaveBeenLastCalledWith(["garden"], controller.signal);
+	});
+
+	it("embeds the note title and heading with each section", async () => {
+		keywordEmbed.mockClear();
+		const index = new SemanticIndex(memoryStore(), "test-model", keywordEmbed);
+
+		await index.sync(mockVault({ "Garden.md": files["Garden.md"] }));
+
+		expect(keywordEmbed).toHaveBeenCalledWith(["Garden > Beds\n\nThe garden has tomato beds."]);
+	});
+
+	it("re-embeds only notes whose content changed", async () => {
+		const store = memoryStore();
+		const index = new SemanticIndex(store, "test-model", keywordEmbed);
+		await index.sync(mockVault(files));
+		keywordEmbed.mockClear();
+
+		const result = await index.sync(
+			mockVault({
+				...files,
+				"Garden.md": { content: files["Garden.md"].content, mtime: new Date(2) },
+				"Money.md": { content: "# Costs\nA new invoice.", mtime: new Date(2) },
+			})
+		);
+
+		expect(result).toEqual({ embedded: 1, removed: 0 });
+		expect(keywordEmbed).toHaveBeenCalledTimes(1);
+		expect(keywordEmbed).toHaveBeenCalledWith(["Money > Costs\n\nA new invoice."]);
+	});
+
+	it("keeps the index across instances and drops deleted notes", async () => {
+		const store = memoryStore();
+		await new SemanticIndex(store, "test-model", keywordEmbed).sync(mockVault(files));
+		keywordEmbed.mockClear();
+
+		const index = new SemanticIndex(store, "test-model", keywordEmbed);
+		const result = await index.sync(mockVault({ "Garden.md": files["Garden.md"] }));
+
+		expect(result).toEqual({ embedded: 0, removed: 1 });
+		expect(keywordEmbed).not.toHaveBeenCalled();
+		expect(await index.stats()).toEqual({ notes: 1, chunks: 1 });
+		const [match] = await index.search("tomato", 1);
+		expect(match?.score).toBeCloseTo(0.4472, 3);
+	});
+
+	it("discards vectors of another embedding model", async () => {
+		const store = memoryStore();
+		await new SemanticIndex(store, "old-model", keywordEmbed).sync(mockVault(files));
+
+		const index = new SemanticIndex(store, "new-model", keywordEmbed);
+
+		expect(await index.stats()).toEqual({ notes: 0, chunks: 0 });
+	});
+
+	it("empties the index when the model changes", async () => {
+		const index = new SemanticIndex(memoryStore(), "old-model", keywordEmbed);
+		await index.sync(mockVault(files));
+
+		index.setModel("new-model");
+
+		expect(await index.stats()).toEqual({ notes: 0, chunks: 0 });
+	});
+
+	it("applies modified, renamed and deleted notes", async () => {
+		const vault = mockVault({
+			...files,
+			"Money.md": { content: "# Costs\nSpent the budget on the garden.", mtime: new Date(2) },
+		});
+		const index = new SemanticIndex(memoryStore(), "test-model", keywordEmbed);
+		await index.sync(mockVault(files));
+
+		await index.update(vault, { type: "modify", path: "Money.md" });
+		await index.update(vault, {
+			type: "rename",
+			path: "Archive/Garden.md",
+			oldPath: "Garden.md",
+		});
+
+		expect((await index.search("garden", 2)).map((match) => match.path)).toEqual([
+			"Archive/Garden.md",
+			"Money.md",
+		]);
+
+		await index.update(vault, { type: "delete", path: "Money.md" });
+
+		expect(await index.stats()).toEqual({ notes: 1, chunks: 1 });
+	});
+
+	it("keeps the progress of a failed sync", async () => {
+		const store = memoryStore();
+		const failing = vi.fn<EmbedFn>(async (texts) => {
+			if (texts.some((text) => text.includes("invoice"))) {
+				throw new Error("Server unavailable");
+			}
+			return keywordEmbed(texts);
+		});
+		const index = new SemanticIndex(store, "test-model", failing);
+
+		await expect(index.sync(mockVault(files))).rejects.toThrow("Server unavailable");
+
+		expect(await new SemanticIndex(store, "test-model", keywordEmbed).stats()).toEqual({
+			notes: 1,
+			chunks: 1,
+		});
+	});
+
+	it("stops a sync when the signal aborts", async () => {
+		const controller = new AbortController();
+		const index = new SemanticIndex(memoryStore(), "test-model", keywordEmbed);
+
+		const result = await index.sync(
+			mockVault(files),
+			() => controller.abort(),
+			controller.signal
+		);
+
+		expect(result).toEqual({ embedded: 1, removed: 0 });
+	});
+
+	it("clears the index and the stored file", async () => {
+		const store = memoryStore();
+		const index = new SemanticIndex(store, "test-model", keywordEmbed);
+		await index.sync(mockVault(files));
+
+		await index.clear();
+
+		expect(store.data).toBeNull();
+		expect(await index.search("garden", 5)).toEqual([]);
+	});
+});
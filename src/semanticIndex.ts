@@ -0,0 +1,388 @@
+import { hashString } from "./cache";
+import { stripFrontmatter } from "./evidence";
+import { JsonStore } from "./jsonStore";
+import type { FileStore, NoteChange, VaultAdapter } from "./types";
+
+/**
+ * Longest chunk, in characters. Longer sections are split at paragraphs.
+ */
+const MAX_CHUNK_CHARS = 2000;
+
+/**
+ * Chunks embedded per request.
+ */
+const EMBED_BATCH_SIZE = 32;
+
+/**
+ * Notes indexed by a sync between saves, so an interrupted sync keeps its progress.
+ */
+const SAVE_EVERY_NOTES = 50;
+
+/**
+ * A section of a note, embedded as one vector.
+ */
+export interface NoteChunk {
+	heading: string; // nearest heading above the text, "" before the first heading
+	text: string;
+}
+
+/**
+ * A chunk found by a search, with its cosine similarity to the query.
+ */
+export interface SemanticMatch extends NoteChunk {
+	path: string;
+	score: number;
+}
+
+/**
+ * Computes one embedding vector per text. The signal cancels the request.
+ */
+export type EmbedFn = (texts: string[], signal?: AbortSignal) => Promise<number[][]>;
+
+interface IndexedChunk extends NoteChunk {
+	vector: number[];
+}
+
+interface IndexedNote {
+	mtime: number; // 0 when indexed from a change event, checked again on the next sync
+	hash: string;
+	chunks: IndexedChunk[];
+}
+
+interface SerializedChunk extends NoteChunk {
+	vector: string; // base64 of the float32 values
+}
+
+interface SerializedIndex {
+	version: 1;
+	model: string;
+	notes: Record<string, { mtime: number; hash: string; chunks: SerializedChunk[] }>;
+}
+
+/**
+ * Vector index of the notes of the vault, chunked by heading.
+ *
+ * The index is kept in a JSON store and updated incrementally: a sync
+ * re-embeds only the notes whose content changed since they were indexed,
+ * and change events update single notes. Vectors from another embedding
+ * model are discarded. Embedding failures are thrown.
+ */
+export class SemanticIndex {
+	private model: string;
+	private embed: EmbedFn;
+	private notes: JsonStore<Map<string, IndexedNote>>;
+
+	constructor(store: FileStore, model: string, embed: EmbedFn) {
+		this.model = model;
+		this.embed = embed;
+		this.notes = new JsonStore<Map<string, IndexedNote>>(store, "the semantic index", {
+			empty: () => new Map(),
+			serialize: (notes) => serialize(notes, this.model),
+			deserialize: (json) => deserialize(json, this.model),
+		});
+	}
+
+	/**
+	 * Switches to another embedding model, dropping the vectors of the old
+	 * one. A sync still running for the old model stops saving.
+	 */
+	setModel(model: string): void {
+		if (model !== this.model) {
+			this.model = model;
+			this.notes.replace(new Map());
+		}
+	}
+
+	/**
+	 * Brings the index up to date with the vault: indexes new and changed
+	 * notes and drops deleted ones.
+	 *
+	 * @param onProgress - Called after each note with the count of notes checked
+	 * @param signal - Stops the sync after the current note; progress is kept
+	 * @returns The number of notes embedded and removed
+	 */
+	sync(
+		vault: VaultAdapter,
+		onProgress?: (checked: number, total: number) => void,
+		signal?: AbortSignal
+	): Promise<{ embedded: number; removed: number }> {
+		return this.notes.run(async (notes) => {
+			const files = await vault.listMarkdownFiles();
+			let embedded = 0;
+			let removed = 0;
+			// Notes touched without new content only need their mtime saved
+			let touched = false;
+			try {
+				const paths = new Set(files.map((file) => file.path));
+				for (const path of [...notes.keys()]) {
+					if (!paths.has(path)) {
+						notes.delete(path);
+						removed++;
+					}
+				}
+				for (const [i, file] of files.entries()) {
+					if (signal?.aborted) {
+						break;
+					}
+					const mtime = file.mtime.getTime();
+					if (notes.get(file.path)?.mtime !== mtime) {
+						touched = true;
+						if (
+							await this.indexNote(
+								notes,
+								file.path,
+								await vault.readFile(file.path),
+								mtime
+							)
+						) {
+							embedded++;
+							if (embedded % SAVE_EVERY_NOTES === 0) {
+								await this.notes.save(notes);
+							}
+						}
+					}
+					onProgress?.(i + 1, files.length);
+				}
+			} finally {
+				if (touched || removed > 0) {
+					await this.notes.save(notes);
+				}
+			}
+			return { embedded, removed };
+		});
+	}
+
+	/**
+	 * Applies a change to a note: re-embeds modified notes, drops deleted ones
+	 * and moves renamed ones.
+	 */
+	update(vault: VaultAdapter, change: NoteChange): Promise<void> {
+		return this.notes.run(async (notes) => {
+			switch (change.type) {
+				case "modify":
+					if (
+						!(await this.indexNote(
+							notes,
+							change.path,
+							await vault.readFile(change.path),
+							0
+						))
+					) {
+						return;
+					}
+					break;
+				case "delete":
+					if (!notes.delete(change.path)) {
+						return;
+					}
+					break;
+				case "rename": {
+					const note = notes.get(change.oldPath);
+					if (!note) {
+						return;
+					}
+					notes.delete(change.oldPath);
+					notes.set(change.path, note);
+					break;
+				}
+			}
+			await this.notes.save(notes);
+		});
+	}
+
+	/**
+	 * Finds the chunks most similar to a query.
+	 *
+	 * @param limit - Most chunks returned
+	 * @param signal - Cancels embedding the query
+	 * @returns Matches, most similar first
+	 */
+	async search(query: string, limit: number, signal?: AbortSignal): Promise<SemanticMatch[]> {
+		const notes = await this.notes.read();
+		if (notes.size === 0) {
+			return [];
+		}
+		const [queryVector] = await this.embed([query], signal);
+		if (!queryVector) {
+			return [];
+		}
+		const matches: SemanticMatch[] = [];
+		for (const [path, note] of notes) {
+			for (const { heading, text, vector } of note.chunks) {
+				matches.push({ path, heading, text, score: cosineSimilarity(queryVector, vector) });
+			}
+		}
+		return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+	}
+
+	/**
+	 * Counts the indexed notes and chunks.
+	 */
+	async stats(): Promise<{ notes: number; chunks: number }> {
+		const notes = await this.notes.read();
+		let chunks = 0;
+		for (const note of notes.values()) {
+			chunks += note.chunks.length;
+		}
+		return { notes: notes.size, chunks };
+	}
+
+	/**
+	 * Removes every note from the index, including the stored file.
+	 */
+	clear(): Promise<void> {
+		return this.notes.clear();
+	}
+
+	/**
+	 * Indexes a note unless its content is unchanged.
+	 *
+	 * @returns Whether the note was embedded
+	 */
+	private async indexNote(
+		notes: Map<string, IndexedNote>,
+		path: string,
+		content: string,
+		mtime: number
+	): Promise<boolean> {
+		const hash = hashString(content);
+		const existing = notes.get(path);
+		if (existing?.hash === hash) {
+			existing.mtime = mtime;
+			return false;
+		}
+		const chunks = chunkByHeading(content);
+		const vectors: number[][] = [];
+		for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+			const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+			vectors.push(...(await this.embed(batch.map((chunk) => embeddingText(path, chunk)))));
+		}
+		notes.set(path, {
+			mtime,
+			hash,
+			chunks: chunks.map((chunk, i) => ({ ...chunk, vector: vectors[i] ?? [] })),
+		});
+		return true;
+	}
+}
+
+/**
+ * Splits a note into chunks at its headings, leaving out the frontmatter and
+ * empty sections. Sections longer than `maxChars` are split at paragraphs,
+ * and paragraphs longer than that are cut.
+ */
+export function chunkByHeading(content: string, maxChars = MAX_CHUNK_CHARS): NoteChunk[] {
+	const sections: NoteChunk[] = [];
+	let current: NoteChunk = { heading: "", text: "" };
+	let inCodeBlock = false;
+	for (const line of stripFrontmatter(content).split("\n")) {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inCodeBlock = !inCodeBlock;
+		}
+		const heading = inCodeBlock ? null : line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+		if (heading) {
+			sections.push(current);
+			current = { heading: heading[1]!, text: "" };
+		} else {
+			current.text += `${line}\n`;
+		}
+	}
+	sections.push(current);
+
+	const chunks: NoteChunk[] = [];
+	for (const { heading, text } of sections) {
+		let chunk = "";
+		for (const paragraph of text.split(/\n\s*\n/)) {
+			const trimmed = paragraph.trim();
+			for (let start = 0; start < trimmed.length; start += maxChars) {
+				const piece = trimmed.slice(start, start + maxChars);
+				if (chunk && chunk.length + piece.length + 2 > maxChars) {
+					chunks.push({ heading, text: chunk });
+					chunk = "";
+				}
+				chunk = chunk ? `${chunk}\n\n${piece}` : piece;
+			}
+		}
+		if (chunk) {
+			chunks.push({ heading, text: chunk });
+		}
+	}
+	return chunks;
+}
+
+/**
+ * Cosine similarity of two vectors, 0 if either is empty or zero.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		dot += a[i]! * b[i]!;
+		normA += a[i]! * a[i]!;
+		normB += b[i]! * b[i]!;
+	}
+	return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Text embedded for a chunk: the note path and heading give the model context.
+ */
+function embeddingText(path: string, chunk: NoteChunk): string {
+	const title = path.replace(/\.md$/, "");
+	return `${chunk.heading ? `${title} > ${chunk.heading}` : title}\n\n${chunk.text}`;
+}
+
+function encodeVector(vector: number[]): string {
+	const bytes = new Uint8Array(Float32Array.from(vector).buffer);
+	let binary = "";
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+function decodeVector(data: string): number[] {
+	const binary = atob(data);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return Array.from(new Float32Array(bytes.buffer));
+}
+
+function serialize(notes: Map<string, IndexedNote>, model: string): SerializedIndex {
+	const data: SerializedIndex = { version: 1, model, notes: {} };
+	for (const [path, note] of notes) {
+		data.notes[path] = {
+			mtime: note.mtime,
+			hash: note.hash,
+			chunks: note.chunks.map((chunk) => ({ ...chunk, vector: encodeVector(chunk.vector) })),
+		};
+	}
+	return data;
+}
+
+/**
+ * Reads stored index data, or returns null if it is from another version or
+ * embedding model.
+ */
+function deserialize(json: unknown, model: string): Map<string, IndexedNote> | null {
+	const data = json as Partial<SerializedIndex>;
+	if (data.version !== 1 || data.model !== model || !data.notes) {
+		return null;
+	}
+	const notes = new Map<string, IndexedNote>();
+	for (const [path, note] of Object.entries(data.notes)) {
+		notes.set(path, {
+			mtime: note.mtime,
+			hash: note.hash,
+			chunks: note.chunks.map((chunk) => ({
+				heading: chunk.heading,
+				text: chunk.text,
+				vector: decodeVector(chunk.vector),
+			})),
+		});
+	}
+	return notes;
+}
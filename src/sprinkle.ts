@@ -1,21 +1,25 @@
+import type { LLMPrompt } from "./types";
+
 /**
  * Builds the prompt for the Sprinkle AI feature.
  *
  * @param userPrompt - The user's instruction for the LLM
  * @param selectedText - The text selected in the editor
- * @returns The prompt string to send to the LLM
+ * @returns The prompt to send to the LLM
  */
-export function buildSprinklePrompt(userPrompt: string, selectedText: string): string {
+export function buildSprinklePrompt(userPrompt: string, selectedText: string): LLMPrompt {
 	const instruction = userPrompt.trim()
 		? `## Instruction\n${userPrompt.trim()}\n\n`
 		: "";
 
-	return `You are a helpful writing assistant working inside a markdown note.
-
-${instruction}## Selected Text
-${selectedText}
+	const system = `You are a helpful writing assistant working inside a markdown note.
 
 ## Rules
 - Output markdown only — no code fences, no explanations, no preamble
 - Respond with just the content the user asked for`;
+
+	const user = `${instruction}## Selected Text
+${selectedText}`;
+
+	return { system, user };
 }
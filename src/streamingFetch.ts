@@ -0,0 +1,11 @@
+/**
+ * Type for the fetch function used for streaming, to support dependency injection.
+ */
+export type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Sends a request with the global fetch. Obsidian's requestUrl buffers the
+ * whole body, so streamed responses have to go through fetch; this module is
+ * the only one allowed to use it (see eslint.config.mts).
+ */
+export const streamingFetch: FetchFn = (url, init) => fetch(url, init);
@@ -5,33 +5,33 @@ describe("buildSummaryPrompt", () => {
 	it("includes note title in prompt", () => {
 		const prompt = buildSummaryPrompt("Some content here", "My Note Title");
 
-		expect(prompt).toContain("My Note Title");
+		expect(prompt.user).toContain("My Note Title");
 	});
 
 	it("includes note content in prompt", () => {
 		const content = "This is the note content with important information.";
 		const prompt = buildSummaryPrompt(content, "Title");
 
-		expect(prompt).toContain(content);
+		expect(prompt.user).toContain(content);
 	});
 
 	it("instructs model to output markdown only", () => {
 		const prompt = buildSummaryPrompt("content", "title");
 
-		expect(prompt.toLowerCase()).toContain("markdown");
+		expect(prompt.system.toLowerCase()).toContain("markdown");
 	});
 
 	it("instructs model to be concise", () => {
 		const prompt = buildSummaryPrompt("content", "title");
 
-		expect(prompt.toLowerCase()).toMatch(/concise|brief|short/);
+		expect(prompt.system.toLowerCase()).toMatch(/concise|brief|short/);
 	});
 
 	it("specifies summary length guidance", () => {
 		const prompt = buildSummaryPrompt("content", "title");
 
 		// Should mention sentence count or similar length guidance
-		expect(prompt).toMatch(/2-4 sentences|few sentences|2 to 4 sentences/i);
+		expect(prompt.system).toMatch(/2-4 sentences|few sentences|2 to 4 sentences/i);
 	});
 });
 
@@ -1,29 +1,31 @@
+import type { LLMPrompt } from "./types";
+
 /**
  * Builds the prompt for summarizing a note.
  *
  * @param noteContent - The full content of the note
  * @param noteTitle - The title of the note
- * @returns The prompt string to send to the LLM
+ * @returns The prompt to send to the LLM
  */
-export function buildSummaryPrompt(noteContent: string, noteTitle: string): string {
-	return `You are a helpful assistant that summarizes notes concisely.
+export function buildSummaryPrompt(noteContent: string, noteTitle: string): LLMPrompt {
+	const system = `You are a helpful assistant that summarizes notes concisely.
 
 ## Task
-Summarize the following note in 2-4 sentences. Focus on the key points and main takeaways.
+Summarize the note provided by the user in 2-4 sentences. Focus on the key points and main takeaways.
 
 ## Instructions
 - Output markdown only - no code blocks, no explanations, no preamble
 - Be concise and direct
 - Capture the essence of the note
-- Do not include a heading - just the summary text
+- Do not include a heading - just the summary text`;
 
-## Note Title
+	const user = `## Note Title
 ${noteTitle}
 
 ## Note Content
-${noteContent}
+${noteContent}`;
 
-## Summary`;
+	return { system, user };
 }
 
 /**
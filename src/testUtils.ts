@@ -0,0 +1,108 @@
+import type { FileStore, VaultAdapter } from "./types";
+
+/**
+ * In-memory store that exposes the saved data.
+ */
+export function memoryStore(initial: string | null = null): FileStore & { data: string | null } {
+	const store = {
+		data: initial,
+		load: async () => store.data,
+		save: async (value: string) => {
+			store.data = value;
+		},
+		remove: async () => {
+			store.data = null;
+		},
+	};
+	return store;
+}
+
+/**
+ * In-memory store whose first save finishes after the later ones, as a slow
+ * disk write can.
+ */
+export function slowFirstSaveStore(): FileStore & { data: string | null } {
+	const store = memoryStore();
+	let saves = 0;
+	store.save = async (value: string) => {
+		if (saves++ === 0) {
+			await new Promise((resolve) => setTimeout(resolve, 10));
+		}
+		store.data = value;
+	};
+	return store;
+}
+
+/**
+ * Store whose every operation fails.
+ */
+export function failingStore(): FileStore {
+	return {
+		load: () => Promise.reject(new Error("read failed")),
+		save: () => Promise.reject(new Error("write failed")),
+		remove: () => Promise.reject(new Error("remove failed")),
+	};
+}
+
+/**
+ * A note of a mock vault. Times default to the epoch.
+ */
+export interface MockNote {
+	content: string;
+	mtime?: Date;
+	ctime?: Date; // defaults to mtime
+	tags?: string[];
+	frontmatter?: Record<string, unknown>;
+	links?: string[]; // paths of the notes it links to
+}
+
+/**
+ * In-memory vault holding the given notes, by path. A note given as a string
+ * is its content.
+ */
+export function mockVault(notes: Record<string, string | MockNote>): VaultAdapter {
+	const note = (path: string): MockNote | undefined => {
+		const value = notes[path];
+		return typeof value === "string" ? { content: value } : value;
+	};
+	return {
+		async listMarkdownFiles() {
+			return Object.keys(notes).map((path) => {
+				const mtime = note(path)?.mtime ?? new Date(0);
+				return { path, mtime, ctime: note(path)?.ctime ?? mtime };
+			});
+		},
+		async readFile(path: string) {
+			const found = note(path);
+			if (!found) throw new Error(`File not found: ${path}`);
+			return found.content;
+		},
+		async createFile() {},
+		async fileExists() {
+			return false;
+		},
+		async listFilesInFolder() {
+			return [];
+		},
+		async resolveNotePath(link: string) {
+			const target = link.replace(/^\[\[|\]\]$/g, "");
+			return (
+				Object.keys(notes).find(
+					(path) => path === target || path.replace(/\.md$/, "").endsWith(target)
+				) ?? null
+			);
+		},
+		async getBacklinks(path: string) {
+			return Object.keys(notes).filter((source) => note(source)?.links?.includes(path));
+		},
+		async getNoteTags(path: string) {
+			return note(path)?.tags ?? [];
+		},
+		async getFrontmatter(path: string) {
+			return note(path)?.frontmatter ?? null;
+		},
+		onNoteChange() {
+			return () => {};
+		},
+	};
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { joinThinking, splitThinking } from "./thinking";
+
+describe("splitThinking", () => {
+	it("separates a leading think block from the answer", () => {
+		expect(splitThinking("<think>\nFirst, the notes.\n</think>\n\n## Summary")).toEqual({
+			content: "## Summary",
+			thinking: "First, the notes.",
+		});
+	});
+
+	it("collects every thinking block, with either tag name", () => {
+		expect(splitThinking("<thinking>A</thinking>Answer<think>B</think> continues")).toEqual({
+			content: "Answer continues",
+			thinking: "A\n\nB",
+		});
+	});
+
+	it("treats the rest of the response as reasoning when the block is not closed", () => {
+		expect(splitThinking("Answer<think>cut off by the token limit")).toEqual({
+			content: "Answer",
+			thinking: "cut off by the token limit",
+		});
+	});
+
+	it("handles a response that starts inside the reasoning", () => {
+		expect(splitThinking("The user wants a review.</think>\n## Summary")).toEqual({
+			content: "## Summary",
+			thinking: "The user wants a review.",
+		});
+	});
+
+	it("returns responses without reasoning unchanged", () => {
+		expect(splitThinking("  ## Summary\n")).toEqual({
+			content: "  ## Summary\n",
+			thinking: "",
+		});
+	});
+});
+
+describe("joinThinking", () => {
+	it("joins the non-empty pieces as paragraphs", () => {
+		expect(joinThinking([" A ", "", "B"])).toBe("A\n\nB");
+	});
+});
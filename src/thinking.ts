@@ -0,0 +1,54 @@
+/**
+ * Tags that reasoning models (deepseek-r1, qwen3, ...) wrap their reasoning in.
+ */
+const THINKING_BLOCK = /<(think|thinking)>([\s\S]*?)(?:<\/\1>|$)/g;
+
+/**
+ * A closing tag without an opening one: some chat templates put the opening
+ * tag in the prompt, so the response starts inside the reasoning.
+ */
+const LEADING_REASONING = /^([\s\S]*?)<\/(think|thinking)>/;
+
+/**
+ * Separates the reasoning of a model's response from its answer.
+ *
+ * Handles several reasoning blocks, a block cut off by the token limit (the
+ * rest of the response is reasoning) and a response that starts inside the
+ * reasoning.
+ *
+ * @param text - The response text
+ * @returns The answer without reasoning, and the reasoning (empty if none)
+ */
+export function splitThinking(text: string): { content: string; thinking: string } {
+	const thinking: string[] = [];
+
+	let rest = text;
+	const leading = LEADING_REASONING.exec(rest);
+	if (leading && !/<(think|thinking)>/.test(leading[1]!)) {
+		thinking.push(leading[1]!.trim());
+		rest = rest.slice(leading[0].length);
+	}
+
+	const content = rest.replace(THINKING_BLOCK, (_block, _tag, reasoning: string) => {
+		thinking.push(reasoning.trim());
+		return "";
+	});
+
+	if (thinking.length === 0) {
+		return { content: text, thinking: "" };
+	}
+	return {
+		content: content.trim(),
+		thinking: joinThinking(thinking),
+	};
+}
+
+/**
+ * Joins pieces of reasoning into one text, skipping empty ones.
+ */
+export function joinThinking(pieces: string[]): string {
+	return pieces
+		.map((piece) => piece.trim())
+		.filter((piece) => piece.length > 0)
+		.join("\n\n");
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import {
+	computeEvidenceBudget,
+	estimatePromptTokens,
+	estimateTokens,
+	resolveContextWindow,
+	resolveThinkingBudget,
+	smallestEvidenceBudget,
+} from "./tokens";
+import { DEFAULT_LLM_CONFIG, type LLMConfig } from "./types";
+
+describe("estimateTokens", () => {
+	it("counts about four ASCII characters per token", () => {
+		expect(estimateTokens("")).toBe(0);
+		expect(estimateTokens("abcd")).toBe(1);
+		expect(estimateTokens("a".repeat(4000))).toBe(1000);
+	});
+
+	it("rounds partial tokens up", () => {
+		expect(estimateTokens("abcde")).toBe(2);
+	});
+
+	it("counts each non-ASCII character as a token", () => {
+		expect(estimateTokens("日本語")).toBe(3);
+		expect(estimateTokens("café")).toBe(2);
+	});
+});
+
+describe("estimatePromptTokens", () => {
+	it("adds message overhead for each non-empty message", () => {
+		expect(estimatePromptTokens({ system: "", user: "abcd" })).toBe(5);
+		expect(estimatePromptTokens({ system: "abcd", user: "abcd" })).toBe(10);
+	});
+
+	it("includes few-shot examples", () => {
+		const prompt = {
+			system: "",
+			user: "abcd",
+			examples: [{ user: "abcd", assistant: "abcd" }],
+		};
+		expect(estimatePromptTokens(prompt)).toBe(15);
+	});
+});
+
+describe("resolveContextWindow", () => {
+	it("uses the configured context window", () => {
+		expect(resolveContextWindow({ ...DEFAULT_LLM_CONFIG, contextWindow: 32768 })).toBe(32768);
+	});
+
+	it("falls back to the provider's typical window", () => {
+		expect(resolveContextWindow(DEFAULT_LLM_CONFIG)).toBe(8192);
+		expect(resolveContextWindow({ ...DEFAULT_LLM_CONFIG, provider: "anthropic" })).toBe(200000);
+		expect(resolveContextWindow({ ...DEFAULT_LLM_CONFIG, contextWindow: 0 })).toBe(8192);
+	});
+});
+
+describe("computeEvidenceBudget", () => {
+	const config: LLMConfig = { ...DEFAULT_LLM_CONFIG, contextWindow: 10000, maxTokens: 1000 };
+
+	it("reserves a margin, the response and the rest of the prompt", () => {
+		// 10000 * 0.9 - 1000 - 500
+		expect(computeEvidenceBudget(config, 500)).toBe(7500);
+	});
+
+	it("never returns a negative budget", () => {
+		expect(computeEvidenceBudget({ ...config, maxTokens: 9500 }, 500)).toBe(0);
+	});
+
+	it("reserves the thinking budget when reasoning is on", () => {
+		const anthropic: LLMConfig = { ...config, provider: "anthropic", reasoningEffort: "low" };
+
+		// 10000 * 0.9 - (1000 + 1024) - 500
+		expect(computeEvidenceBudget(anthropic, 500)).toBe(6476);
+	});
+});
+
+describe("resolveThinkingBudget", () => {
+	it("returns the thinking budget of Anthropic and Gemini", () => {
+		expect(
+			resolveThinkingBudget({
+				...DEFAULT_LLM_CONFIG,
+				provider: "anthropic",
+				reasoningEffort: "high",
+			})
+		).toBe(16384);
+		expect(
+			resolveThinkingBudget({
+				...DEFAULT_LLM_CONFIG,
+				provider: "gemini",
+				reasoningEffort: "medium",
+			})
+		).toBe(8192);
+	});
+
+	it("returns 0 without reasoning or where it counts within max tokens", () => {
+		expect(resolveThinkingBudget({ ...DEFAULT_LLM_CONFIG, provider: "anthropic" })).toBe(0);
+		expect(
+			resolveThinkingBudget({
+				...DEFAULT_LLM_CONFIG,
+				provider: "anthropic",
+				reasoningEffort: "minimal",
+			})
+		).toBe(0);
+		expect(resolveThinkingBudget({ ...DEFAULT_LLM_CONFIG, reasoningEffort: "high" })).toBe(0);
+	});
+});
+
+describe("smallestEvidenceBudget", () => {
+	const large: LLMConfig = { ...DEFAULT_LLM_CONFIG, contextWindow: 100000, maxTokens: 1000 };
+	const small: LLMConfig = { ...DEFAULT_LLM_CONFIG, contextWindow: 10000, maxTokens: 1000 };
+
+	it("returns the budget of the config with the least room for notes", () => {
+		expect(smallestEvidenceBudget([large, small, large], 500)).toEqual({
+			config: small,
+			budget: 7500,
+		});
+	});
+
+	it("counts the reasoning budget of each config", () => {
+		const thinking: LLMConfig = {
+			...large,
+			provider: "gemini",
+			contextWindow: 20000,
+			reasoningEffort: "high",
+		};
+
+		// 20000 * 0.9 - (1000 + 24576) - 500 is below zero
+		expect(smallestEvidenceBudget([large, thinking], 500)).toEqual({
+			config: thinking,
+			budget: 0,
+		});
+	});
+
+	it("uses the only config of a chain without fallbacks", () => {
+		expect(smallestEvidenceBudget([small], 500)).toEqual({ config: small, budget: 7500 });
+	});
+});
@@ -0,0 +1,142 @@
+import { PROVIDER_DEFAULTS } from "./profiles";
+import type { LLMConfig, LLMPrompt, ReasoningEffort } from "./types";
+
+/**
+ * Average characters per token for English-like text.
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Tokens added by the chat format around each message (role markers etc.).
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Share of the context window kept free to absorb estimation errors.
+ */
+const SAFETY_MARGIN = 0.1;
+
+/**
+ * Estimates the number of tokens in a text without a model-specific tokenizer.
+ *
+ * ASCII text averages about four characters per token. Other scripts (CJK,
+ * emoji, accented text) tokenize far less efficiently, so each non-ASCII
+ * character is counted as a token of its own. The estimate errs on the high
+ * side for most text.
+ *
+ * @param text - The text to estimate
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+	let ascii = 0;
+	let other = 0;
+	for (const char of text) {
+		if (char.charCodeAt(0) < 128) {
+			ascii++;
+		} else {
+			other++;
+		}
+	}
+	return Math.ceil(ascii / CHARS_PER_TOKEN) + other;
+}
+
+/**
+ * Estimates the number of input tokens a prompt uses, including its messages'
+ * formatting overhead.
+ */
+export function estimatePromptTokens(prompt: LLMPrompt): number {
+	const messages = [prompt.system, prompt.user];
+	for (const example of prompt.examples ?? []) {
+		messages.push(example.user, example.assistant);
+	}
+	return messages
+		.filter((message) => message.length > 0)
+		.reduce((sum, message) => sum + estimateTokens(message) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+/**
+ * Returns the context window of a config, falling back to the provider's
+ * typical window when none is configured.
+ */
+export function resolveContextWindow(config: LLMConfig): number {
+	return config.contextWindow && config.contextWindow > 0
+		? config.contextWindow
+		: PROVIDER_DEFAULTS[config.provider].contextWindow;
+}
+
+/**
+ * Thinking token budgets of Anthropic's extended thinking per reasoning
+ * effort. Minimal leaves thinking off.
+ */
+const ANTHROPIC_THINKING_BUDGETS: Record<Exclude<ReasoningEffort, "minimal">, number> = {
+	low: 1024,
+	medium: 4096,
+	high: 16384,
+};
+
+/**
+ * Thinking token budgets of Gemini per reasoning effort. A budget of 0 turns
+ * thinking off on the models that allow it.
+ */
+const GEMINI_THINKING_BUDGETS: Record<ReasoningEffort, number> = {
+	minimal: 0,
+	low: 1024,
+	medium: 8192,
+	high: 24576,
+};
+
+/**
+ * Returns the tokens a config lets the model think on top of `maxTokens`:
+ * the thinking budget for Anthropic and Gemini. The other providers count
+ * reasoning within `maxTokens`.
+ */
+export function resolveThinkingBudget(config: LLMConfig): number {
+	const effort = config.reasoningEffort;
+	if (!effort) {
+		return 0;
+	}
+	if (config.provider === "anthropic") {
+		return effort === "minimal" ? 0 : ANTHROPIC_THINKING_BUDGETS[effort];
+	}
+	return config.provider === "gemini" ? GEMINI_THINKING_BUDGETS[effort] : 0;
+}
+
+/**
+ * Computes how many tokens of note content fit into a request.
+ *
+ * The budget is the context window minus a safety margin, the room reserved
+ * for the response (`maxTokens` and the thinking budget) and the tokens used
+ * by the rest of the prompt.
+ *
+ * @param config - LLM configuration
+ * @param promptTokens - Estimated tokens of the prompt without any notes
+ * @returns Token budget for note content (0 if nothing fits)
+ */
+export function computeEvidenceBudget(config: LLMConfig, promptTokens: number): number {
+	const contextWindow = resolveContextWindow(config);
+	const usable = Math.floor(contextWindow * (1 - SAFETY_MARGIN));
+	const response = config.maxTokens + resolveThinkingBudget(config);
+	return Math.max(0, usable - response - promptTokens);
+}
+
+/**
+ * Finds the smallest evidence budget among the configs a call may fall back
+ * through, so the notes fit whichever of them answers.
+ *
+ * @param configs - The fallback chain, primary first
+ * @param promptTokens - Estimated tokens of the prompt without any notes
+ * @returns The smallest budget and the config it belongs to
+ */
+export function smallestEvidenceBudget<T extends LLMConfig>(
+	configs: [T, ...T[]],
+	promptTokens: number
+): { config: T; budget: number } {
+	let smallest = { config: configs[0], budget: computeEvidenceBudget(configs[0], promptTokens) };
+	for (const config of configs.slice(1)) {
+		const budget = computeEvidenceBudget(config, promptTokens);
+		if (budget < smallest.budget) {
+			smallest = { config, budget };
+		}
+	}
+	return smallest;
+}
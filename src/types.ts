@@ -53,12 +53,14 @@ export interface EvidencePack {
 	notes: EvidenceNote[];
 	totalNotesScanned: number;
 	notesIncluded: number;
+	estimatedTokens: number; // of the included excerpts
+	tokensDropped: number; // estimated note content left out (dropped notes and truncation)
 }
 
 /**
  * Supported LLM API providers.
  */
-export type LLMProvider = "ollama" | "openai";
+export type LLMProvider = "ollama" | "openai" | "anthropic" | "gemini" | "azure";
 
 /**
  * LLM API configuration.
@@ -73,6 +75,227 @@ export interface LLMConfig {
 	temperature: number;
 	maxTokens: number;
 	timeoutSeconds: number;
+	contextWindow?: number; // tokens; the provider's typical window when unset
+	stream: boolean;
+	azureDeployment?: string;
+	azureApiVersion?: string;
+	reasoningEffort?: ReasoningEffort; // the model's default when unset
+	// Sampling options, sent only when set and where the provider supports them
+	topP?: number;
+	frequencyPenalty?: number; // not supported by Anthropic
+	seed?: number; // not supported by Anthropic
+	stopSequences?: string[];
+	keepAlive?: string; // Ollama only: how long the model stays loaded, e.g. "10m" or "-1"
+	extraRequestJson?: string; // JSON object deep-merged into the request body
+}
+
+/**
+ * How much reasoning a reasoning model does before answering, mapped to each
+ * provider's own parameter.
+ */
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high";
+
+/**
+ * A few-shot example: a user message and the ideal assistant reply.
+ */
+export interface PromptExample {
+	user: string;
+	assistant: string;
+}
+
+/**
+ * A chat prompt split into roles, mapped to each provider's native format.
+ */
+export interface LLMPrompt {
+	system: string; // instructions, sent in the system role (omitted when empty)
+	user: string; // the content to work on
+	examples?: PromptExample[]; // sent as earlier turns of the conversation
+	responseSchema?: ResponseSchema; // asks for JSON output following this schema
+}
+
+/**
+ * A tool the model can call, described by a JSON schema of its arguments.
+ */
+export interface ToolDefinition {
+	name: string;
+	description: string;
+	parameters: Record<string, unknown>;
+}
+
+/**
+ * A call of a tool requested by the model.
+ */
+export interface ToolCall {
+	name: string;
+	arguments: Record<string, unknown>;
+}
+
+/**
+ * A tool call made while generating a review, for the transcript in the note.
+ */
+export interface ToolCallRecord {
+	tool: string;
+	argument: string; // the path or query the tool was called with
+	notes: string[]; // paths of the notes the tool returned
+	error?: string;
+}
+
+/**
+ * A JSON schema for structured output, passed to providers that support it.
+ */
+export interface ResponseSchema {
+	name: string;
+	schema: Record<string, unknown>;
+}
+
+/**
+ * How the review is requested from the model: free markdown, or JSON that is
+ * validated and rendered to markdown by the plugin.
+ */
+export type ReviewOutputFormat = "markdown" | "json";
+
+/**
+ * What happens to a reasoning model's thinking in the review note: removed,
+ * or kept in a collapsed callout above the review.
+ */
+export type ReasoningOutput = "strip" | "callout";
+
+/**
+ * A priority in a structured review.
+ */
+export interface ReviewPriority {
+	title: string;
+	rationale: string;
+}
+
+/**
+ * A review returned as JSON in structured output mode.
+ */
+export interface StructuredReview {
+	summary: string;
+	notable_work: string[];
+	priorities: ReviewPriority[]; // exactly 3
+	notes_reviewed: string[]; // note titles
+}
+
+/**
+ * Retry behavior for LLM requests.
+ */
+export interface RetryPolicy {
+	maxAttempts: number; // including the first attempt
+	baseDelayMs: number; // backoff before the first retry, doubled each attempt
+	maxDelayMs: number; // cap for backoff and for honoring Retry-After
+	retryableStatuses: number[];
+}
+
+/**
+ * Response cache settings.
+ */
+export interface CacheSettings {
+	enabled: boolean;
+	ttlHours: number;
+	maxSizeMb: number;
+}
+
+/**
+ * Review mode in which the model can look up notes beyond the review period
+ * through tool calls.
+ */
+export interface ReviewToolSettings {
+	enabled: boolean;
+	maxRounds: number; // rounds of tool calls before the model must answer
+}
+
+/**
+ * Vector index of the vault, computed with an embedding model.
+ */
+export interface SemanticIndexSettings {
+	enabled: boolean;
+	profileId: string; // profile whose server computes the embeddings
+	model: string; // embedding model, used instead of the profile's model
+}
+
+/**
+ * Questions answered from the notes found in the semantic index.
+ */
+export interface AskVaultSettings {
+	outputFolder: string; // folder for answers saved as notes
+	maxSources: number; // note sections retrieved per question
+}
+
+/**
+ * Date of a note that places it in a review period: its modification or
+ * creation time, a date property in its frontmatter or a date in its filename.
+ */
+export type NoteDateSource = "mtime" | "ctime" | "property" | "filename";
+
+/**
+ * Dates that place notes in a review period. A note is reviewed when one of
+ * its dates from the selected sources falls in the period.
+ */
+export interface NoteDateSettings {
+	sources: NoteDateSource[];
+	properties: string[]; // frontmatter properties tried in order, e.g. "date"
+}
+
+/**
+ * A named query on frontmatter properties, e.g. `type = meeting and status = active`.
+ */
+export interface SavedQuery {
+	name: string;
+	query: string;
+}
+
+/**
+ * Debug log of the requests sent to and responses received from the LLM.
+ */
+export interface DebugLogSettings {
+	enabled: boolean;
+	folder: string; // vault folder for the log files
+	retentionDays: number; // log files of older days are deleted
+}
+
+/**
+ * A named LLM configuration that commands can be assigned to.
+ */
+export interface LLMProfile extends LLMConfig {
+	id: string;
+	name: string;
+}
+
+/**
+ * Commands that call the LLM and can each use their own profile.
+ */
+export type LLMCommand = "review" | "summarize" | "sprinkle" | "ask";
+
+/**
+ * Tokens used by a single LLM call, as reported by the provider.
+ */
+export interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+}
+
+/**
+ * A single LLM call recorded in the usage ledger.
+ */
+export interface UsageRecord {
+	timestamp: string; // ISO
+	command: LLMCommand;
+	provider: LLMProvider;
+	model: string;
+	inputTokens?: number; // missing if the provider did not report usage
+	outputTokens?: number;
+	latencyMs: number;
+}
+
+/**
+ * Price of a model, in dollars per million tokens.
+ */
+export interface ModelPrice {
+	model: string;
+	inputPerMillion: number;
+	outputPerMillion: number;
 }
 
 /**
@@ -80,7 +303,10 @@ export interface LLMConfig {
  */
 export interface ReviewSettings {
 	// Folders
-	foldersToScan: string[];
+	foldersToScan: string[]; // folders or glob patterns, "!" excludes
+	tagFilters: string[]; // "#tag" requires a tag, "-#tag" excludes it
+	savedQueries: SavedQuery[];
+	reviewQuery: string; // name of the saved query selecting the reviewed notes, "" = folders and tags
 	outputFolder: string;
 
 	// Review period
@@ -88,35 +314,150 @@ export interface ReviewSettings {
 	customStartDate?: string; // ISO string
 	customEndDate?: string; // ISO string
 	promptForPeriodOnRun: boolean;
+	noteDates: NoteDateSettings;
+	trackContentChanges: boolean; // modification times count only when the content changed
 
 	// LLM configuration
-	llm: LLMConfig;
+	llmProfiles: LLMProfile[];
+	commandProfiles: Record<LLMCommand, string>; // profile ids
+	fallbackProfileIds: string[]; // tried in order when the command's profile fails
+	fallbackStatuses: number[]; // HTTP statuses that trigger a fallback
+	retryPolicy: RetryPolicy;
+	responseCache: CacheSettings;
+	modelPrices: ModelPrice[];
+	debugLog: DebugLogSettings;
+	reviewTools: ReviewToolSettings;
+	semanticIndex: SemanticIndexSettings;
+	askVault: AskVaultSettings;
 
 	// Payload limits
 	maxNotes: number;
 	maxCharsPerNote: number;
 	systemPromptOverride?: string;
+	reviewOutputFormat: ReviewOutputFormat;
+	reasoningOutput: ReasoningOutput;
+}
+
+/**
+ * Persistent storage for plugin data that is saved as a single blob
+ * (the response cache, the usage ledger, the semantic index).
+ */
+export interface FileStore {
+	load(): Promise<string | null>;
+	save(data: string): Promise<void>;
+	remove(): Promise<void>;
 }
 
+/**
+ * Default LLM configuration (local Ollama).
+ */
+export const DEFAULT_LLM_CONFIG: LLMConfig = {
+	provider: "ollama",
+	baseUrl: "http://localhost:11434",
+	endpointPath: "/api/chat",
+	model: "llama3.1",
+	temperature: 0.2,
+	maxTokens: 1000,
+	timeoutSeconds: 60,
+	stream: true,
+};
+
+/**
+ * Default retry policy: one retry for network failures and transient
+ * HTTP errors (timeouts, rate limits, overloaded or unavailable servers).
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 2,
+	baseDelayMs: 1000,
+	maxDelayMs: 30000,
+	retryableStatuses: [408, 429, 502, 503, 504],
+};
+
+/**
+ * Default response cache: one week, up to 5 MB.
+ */
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+	enabled: true,
+	ttlHours: 168,
+	maxSizeMb: 5,
+};
+
+/**
+ * Default debug log: off, keeping a week of logs when turned on.
+ */
+export const DEFAULT_DEBUG_LOG_SETTINGS: DebugLogSettings = {
+	enabled: false,
+	folder: "Smart Nib Debug",
+	retentionDays: 7,
+};
+
+/**
+ * Default review tools: off, with up to 5 rounds of tool calls.
+ */
+export const DEFAULT_REVIEW_TOOL_SETTINGS: ReviewToolSettings = {
+	enabled: false,
+	maxRounds: 5,
+};
+
+/**
+ * Default semantic index: off, using a local Ollama embedding model.
+ */
+export const DEFAULT_SEMANTIC_INDEX_SETTINGS: SemanticIndexSettings = {
+	enabled: false,
+	profileId: "default",
+	model: "nomic-embed-text",
+};
+
+/**
+ * Default note dates: the modification time, with `date`, `created` and
+ * `updated` as the date properties once selected.
+ */
+export const DEFAULT_NOTE_DATE_SETTINGS: NoteDateSettings = {
+	sources: ["mtime"],
+	properties: ["date", "created", "updated"],
+};
+
+/**
+ * Default answers: eight sections per question, saved to "Vault Answers".
+ */
+export const DEFAULT_ASK_VAULT_SETTINGS: AskVaultSettings = {
+	outputFolder: "Vault Answers",
+	maxSources: 8,
+};
+
 /**
  * Default settings for the plugin.
  */
 export const DEFAULT_SETTINGS: ReviewSettings = {
 	foldersToScan: [],
+	tagFilters: [],
+	savedQueries: [],
+	reviewQuery: "",
 	outputFolder: "Weekly Reviews",
 	defaultPeriodPreset: "current_week",
 	promptForPeriodOnRun: true,
-	llm: {
-		provider: "ollama",
-		baseUrl: "http://localhost:11434",
-		endpointPath: "/api/chat",
-		model: "llama3.1",
-		temperature: 0.2,
-		maxTokens: 1000,
-		timeoutSeconds: 60,
+	noteDates: DEFAULT_NOTE_DATE_SETTINGS,
+	trackContentChanges: false,
+	llmProfiles: [{ ...DEFAULT_LLM_CONFIG, id: "default", name: "Default" }],
+	commandProfiles: {
+		review: "default",
+		summarize: "default",
+		sprinkle: "default",
+		ask: "default",
 	},
+	fallbackProfileIds: [],
+	fallbackStatuses: [429, 500, 502, 503, 504],
+	retryPolicy: DEFAULT_RETRY_POLICY,
+	responseCache: DEFAULT_CACHE_SETTINGS,
+	modelPrices: [],
+	debugLog: DEFAULT_DEBUG_LOG_SETTINGS,
+	reviewTools: DEFAULT_REVIEW_TOOL_SETTINGS,
+	semanticIndex: DEFAULT_SEMANTIC_INDEX_SETTINGS,
+	askVault: DEFAULT_ASK_VAULT_SETTINGS,
 	maxNotes: 50,
 	maxCharsPerNote: 6000,
+	reviewOutputFormat: "markdown",
+	reasoningOutput: "strip",
 };
 
 /**
@@ -129,16 +470,42 @@ export interface ReviewNoteMetadata {
 	periodPreset: PeriodPreset;
 	generatedAt: string; // ISO
 	scannedFolders: string[];
+	provider: LLMProvider;
 	model: string;
+	notesScanned: number;
+	notesIncluded: number;
+	tokensDropped: number;
+	inputTokens?: number; // missing if the provider did not report usage
+	outputTokens?: number;
+	notesRetrieved?: string[]; // paths of the notes the model read through tools
 }
 
+/**
+ * A note created, modified, deleted or renamed in the vault. Created notes
+ * are reported as modified.
+ */
+export type NoteChange =
+	| { type: "modify"; path: string }
+	| { type: "delete"; path: string }
+	| { type: "rename"; path: string; oldPath: string };
+
 /**
  * Abstraction over the Obsidian vault for testability.
  */
 export interface VaultAdapter {
-	listMarkdownFiles(): Promise<Array<{ path: string; mtime: Date }>>;
+	listMarkdownFiles(): Promise<Array<{ path: string; mtime: Date; ctime: Date }>>;
 	readFile(path: string): Promise<string>;
 	createFile(path: string, content: string): Promise<void>;
 	fileExists(path: string): Promise<boolean>;
 	listFilesInFolder(folder: string): Promise<string[]>;
+	/** Resolves a path, a path without extension or a wikilink target to a note path */
+	resolveNotePath(link: string): Promise<string | null>;
+	/** Paths of the notes that link to the note */
+	getBacklinks(path: string): Promise<string[]>;
+	/** Tags of the note from its frontmatter and its body, without the leading # */
+	getNoteTags(path: string): Promise<string[]>;
+	/** Parsed frontmatter of the note, null if it has none */
+	getFrontmatter(path: string): Promise<Record<string, unknown> | null>;
+	/** Calls the listener on every note change; returns a function that stops listening */
+	onNoteChange(listener: (change: NoteChange) => void): () => void;
 }
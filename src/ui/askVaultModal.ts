@@ -0,0 +1,58 @@
+import { App, Modal } from "obsidian";
+
+/**
+ * Asks for a question to answer from the vault.
+ */
+export class AskVaultModal extends Modal {
+	private result: string | null = null;
+	private onSubmit: (question: string | null) => void;
+
+	constructor(app: App, onSubmit: (question: string | null) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Ask your vault" });
+
+		const textarea = contentEl.createEl("textarea", {
+			cls: "sprinkle-prompt-textarea",
+			attr: { rows: "4", placeholder: "What do my notes say about..." },
+		});
+
+		const submit = () => {
+			if (!textarea.value.trim()) return;
+			this.result = textarea.value.trim();
+			this.close();
+		};
+		// Enter asks; Shift+Enter starts a new line
+		textarea.addEventListener("keydown", (event) => {
+			if (event.key === "Enter" && !event.shiftKey) {
+				event.preventDefault();
+				submit();
+			}
+		});
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+
+		const cancelBtn = buttonContainer.createEl("button", { text: "Cancel" });
+		cancelBtn.addEventListener("click", () => {
+			this.result = null;
+			this.close();
+		});
+
+		const askBtn = buttonContainer.createEl("button", { text: "Ask", cls: "mod-cta" });
+		askBtn.addEventListener("click", submit);
+
+		textarea.focus();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.onSubmit(this.result);
+	}
+}
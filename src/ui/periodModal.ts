@@ -1,5 +1,6 @@
-import { App, Modal, Setting } from "obsidian";
-import type { PeriodPreset, CustomRange } from "../types";
+import { App, Modal, Notice, Setting } from "obsidian";
+import { NOTE_DATE_SOURCES } from "../noteDates";
+import type { PeriodPreset, CustomRange, NoteDateSource } from "../types";
 
 const PERIOD_PRESETS: { value: PeriodPreset; label: string }[] = [
 	{ value: "current_week", label: "Current week" },
@@ -12,12 +13,14 @@ const PERIOD_PRESETS: { value: PeriodPreset; label: string }[] = [
 export interface PeriodModalResult {
 	preset: PeriodPreset;
 	customRange?: CustomRange;
+	dateSources: NoteDateSource[];
 	saveAsDefault: boolean;
 }
 
 export class PeriodModal extends Modal {
 	private result: PeriodModalResult | null = null;
 	private selectedPreset: PeriodPreset;
+	private dateSources: NoteDateSource[];
 	private customStartInput: string = "";
 	private customEndInput: string = "";
 	private saveAsDefault: boolean = false;
@@ -26,10 +29,12 @@ export class PeriodModal extends Modal {
 	constructor(
 		app: App,
 		defaultPreset: PeriodPreset,
+		defaultDateSources: NoteDateSource[],
 		onSubmit: (result: PeriodModalResult | null) => void
 	) {
 		super(app);
 		this.selectedPreset = defaultPreset;
+		this.dateSources = [...defaultDateSources];
 		this.onSubmit = onSubmit;
 	}
 
@@ -58,10 +63,25 @@ export class PeriodModal extends Modal {
 		this.customFieldsContainer = contentEl.createDiv();
 		this.renderCustomFields();
 
+		// Dates that place notes in the period, combined
+		new Setting(contentEl)
+			.setName("Note dates")
+			.setDesc("Review the notes with one of these dates in the period.")
+			.setHeading();
+		NOTE_DATE_SOURCES.forEach((source) => {
+			new Setting(contentEl).setName(source.label).addToggle((toggle) =>
+				toggle.setValue(this.dateSources.includes(source.value)).onChange((value) => {
+					this.dateSources = value
+						? [...this.dateSources, source.value]
+						: this.dateSources.filter((s) => s !== source.value);
+				})
+			);
+		});
+
 		// Save as default checkbox
 		new Setting(contentEl)
 			.setName("Save as default")
-			.setDesc("Remember this selection as the default for future reviews.")
+			.setDesc("Remember this period and these note dates as the default for future reviews.")
 			.addToggle((toggle) =>
 				toggle.setValue(this.saveAsDefault).onChange((value) => {
 					this.saveAsDefault = value;
@@ -133,9 +153,15 @@ export class PeriodModal extends Modal {
 			customRange = { start, end };
 		}
 
+		if (this.dateSources.length === 0) {
+			new Notice("Select at least one note date.");
+			return;
+		}
+
 		this.result = {
 			preset: this.selectedPreset,
 			customRange,
+			dateSources: this.dateSources,
 			saveAsDefault: this.saveAsDefault,
 		};
 
@@ -1,6 +1,37 @@
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { App, Notice, PluginSettingTab, Setting } from "obsidian";
 import type ReviewGeneratorPlugin from "../main";
-import type { LLMProvider, PeriodPreset } from "../types";
+import {
+	AZURE_DEFAULT_API_VERSION,
+	listModels,
+	parseExtraRequestJson,
+	supportsEmbeddings,
+	supportsModelListing,
+} from "../llmClient";
+import {
+	createProfile,
+	getProfile,
+	LLM_COMMANDS,
+	PROVIDER_DEFAULTS,
+	resolveCommandProfile,
+} from "../profiles";
+import {
+	DEFAULT_ASK_VAULT_SETTINGS,
+	DEFAULT_DEBUG_LOG_SETTINGS,
+	DEFAULT_NOTE_DATE_SETTINGS,
+	DEFAULT_SEMANTIC_INDEX_SETTINGS,
+	type LLMConfig,
+	type LLMProvider,
+	type PeriodPreset,
+	type ReasoningEffort,
+	type ReasoningOutput,
+	type ReviewOutputFormat,
+} from "../types";
+import { filterNotes } from "../scan";
+import { splitTagFilters } from "../noteFilter";
+import { parseQuery, type QueryNode } from "../noteQuery";
+import { NOTE_DATE_SOURCES } from "../noteDates";
+import { ObsidianVaultAdapter } from "../vaultAdapter";
+import { testConnection, type ConnectionFailure, type ConnectionTestResult } from "../diagnostics";
 
 const PERIOD_PRESETS: { value: PeriodPreset; label: string }[] = [
 	{ value: "current_week", label: "Current week" },
@@ -10,8 +41,48 @@ const PERIOD_PRESETS: { value: PeriodPreset; label: string }[] = [
 	{ value: "custom", label: "Custom" },
 ];
 
+const OUTPUT_FORMATS: { value: ReviewOutputFormat; label: string }[] = [
+	{ value: "markdown", label: "Markdown" },
+	{ value: "json", label: "Structured (JSON)" },
+];
+
+const REASONING_OUTPUTS: { value: ReasoningOutput; label: string }[] = [
+	{ value: "strip", label: "Remove" },
+	{ value: "callout", label: "Keep in a collapsed callout" },
+];
+
+// The empty value sends no reasoning parameter
+const REASONING_EFFORTS: { value: ReasoningEffort | ""; label: string }[] = [
+	{ value: "", label: "Model default" },
+	{ value: "minimal", label: "Minimal" },
+	{ value: "low", label: "Low" },
+	{ value: "medium", label: "Medium" },
+	{ value: "high", label: "High" },
+];
+
+const PROVIDERS: { value: LLMProvider; label: string }[] = [
+	{ value: "ollama", label: "Ollama" },
+	{ value: "openai", label: "Open AI" },
+	{ value: "anthropic", label: "Anthropic" },
+	{ value: "gemini", label: "Google Gemini" },
+	{ value: "azure", label: "Azure Open AI" },
+];
+
+const FAILURE_LABELS: Record<ConnectionFailure, string> = {
+	network: "server unreachable",
+	timeout: "timed out",
+	auth: "authentication failed",
+	model_not_found: "model not found",
+	wrong_endpoint: "wrong endpoint",
+	response_shape: "unexpected response format",
+	other: "request failed",
+};
+
 export class ReviewSettingsTab extends PluginSettingTab {
 	plugin: ReviewGeneratorPlugin;
+	private editingProfileId: string | undefined;
+	/** Models listed by each server, keyed by provider and base URL (null if listing failed) */
+	private modelLists = new Map<string, string[] | null>();
 
 	constructor(app: App, plugin: ReviewGeneratorPlugin) {
 		super(app, plugin);
@@ -28,28 +99,40 @@ export class ReviewSettingsTab extends PluginSettingTab {
 		new Setting(containerEl)
 			.setName("Folders to scan")
 			.setDesc(
-				"Comma-separated list of folders to scan for notes. Leave empty to scan the whole vault."
+				"One folder or glob pattern per line. Lines starting with an exclamation mark exclude the notes they match. Leave empty to scan the whole vault."
 			)
-			.addText((text) =>
+			.addTextArea((text) =>
 				text
 					.setPlaceholder("")
-					.setValue(this.plugin.settings.foldersToScan.join(", "))
+					.setValue(this.plugin.settings.foldersToScan.join("\n"))
 					.onChange(async (value) => {
 						this.plugin.settings.foldersToScan = value
-							.split(",")
+							.split("\n")
 							.map((s) => s.trim())
 							.filter((s) => s.length > 0);
 						await this.plugin.saveSettings();
-						this.display(); // Refresh to update warning
+						void this.renderMatchCount(matchCountEl);
 					})
 			);
 
-		if (this.plugin.settings.foldersToScan.length === 0) {
-			containerEl.createEl("p", {
-				text: "⚠️ no folders specified — the entire vault will be scanned",
-				cls: "mod-warning setting-item-description",
-			});
-		}
+		new Setting(containerEl)
+			.setName("Tags")
+			.setDesc(
+				"Only scan notes with one of these tags, such as #work, and skip notes with tags starting with -, such as -#private. Tags in the frontmatter and in the text both count."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(this.plugin.settings.tagFilters.join(" "))
+					.onChange(async (value) => {
+						this.plugin.settings.tagFilters = splitTagFilters(value);
+						await this.plugin.saveSettings();
+						void this.renderMatchCount(matchCountEl);
+					})
+			);
+
+		const matchCountEl = containerEl.createEl("p", { cls: "setting-item-description" });
+		void this.renderMatchCount(matchCountEl);
 
 		new Setting(containerEl)
 			.setName("Output folder")
@@ -64,6 +147,84 @@ export class ReviewSettingsTab extends PluginSettingTab {
 					})
 			);
 
+		// Note Queries Section
+		new Setting(containerEl).setName("Note queries").setHeading();
+
+		const queries = this.plugin.settings.savedQueries;
+		queries.forEach((saved, index) => {
+			const setting = new Setting(containerEl)
+				.setName(saved.name || "New query")
+				.addText((text) =>
+					text
+						.setPlaceholder("Name")
+						.setValue(saved.name)
+						.onChange(async (value) => {
+							const name = value.trim();
+							if (this.plugin.settings.reviewQuery === saved.name) {
+								this.plugin.settings.reviewQuery = name;
+							}
+							saved.name = name;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addTextArea((text) =>
+					text
+						.setPlaceholder("")
+						.setValue(saved.query)
+						.onChange(async (value) => {
+							saved.query = value;
+							await this.plugin.saveSettings();
+							void this.renderQueryMatchCount(setting, value);
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("x")
+						.setTooltip("Remove")
+						.onClick(async () => {
+							queries.splice(index, 1);
+							if (this.plugin.settings.reviewQuery === saved.name) {
+								this.plugin.settings.reviewQuery = "";
+							}
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+			void this.renderQueryMatchCount(setting, saved.query);
+		});
+
+		new Setting(containerEl)
+			.setName("Saved queries")
+			.setDesc(
+				"Select notes by their properties. Compare a property with =, !=, <, <=, > or >=, list values with in (a, b), or check that it exists. Combine conditions with and, or, not and parentheses. Dates are written 2025-01-15, today or today-7d."
+			)
+			.addButton((button) =>
+				button.setButtonText("Add query").onClick(async () => {
+					queries.push({ name: "", query: "" });
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Reviewed notes")
+			.setDesc(
+				"Review the notes selected by the folders and tags above, or by a saved query."
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption("", "Folders and tags");
+				queries
+					.filter((saved) => saved.name)
+					.forEach((saved) => {
+						dropdown.addOption(saved.name, saved.name);
+					});
+				dropdown.setValue(this.plugin.settings.reviewQuery);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.reviewQuery = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
 		// Review Period Section
 		new Setting(containerEl).setName("Review period").setHeading();
 
@@ -120,30 +281,153 @@ export class ReviewSettingsTab extends PluginSettingTab {
 				})
 			);
 
+		new Setting(containerEl)
+			.setName("Note dates")
+			.setDesc(
+				"Review the notes with one of the selected dates in the period. File times change with every sync or bulk edit, a date property or a date in the filename does not. The period dialog can change the selection for a single review."
+			);
+
+		NOTE_DATE_SOURCES.forEach((source) => {
+			new Setting(containerEl).setName(source.label).addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.noteDates.sources.includes(source.value))
+					.onChange(async (value) => {
+						const sources = this.plugin.settings.noteDates.sources.filter(
+							(s) => s !== source.value
+						);
+						if (!value && sources.length === 0) {
+							new Notice("Select at least one note date.");
+							toggle.setValue(true);
+							return;
+						}
+						this.plugin.settings.noteDates = {
+							...this.plugin.settings.noteDates,
+							sources: value ? [...sources, source.value] : sources,
+						};
+						await this.plugin.saveSettings();
+					})
+			);
+		});
+
+		new Setting(containerEl)
+			.setName("Date properties")
+			.setDesc(
+				"Frontmatter properties holding the date of a note, separated by commas. The first one set to a date is used."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_NOTE_DATE_SETTINGS.properties.join(", "))
+					.setValue(this.plugin.settings.noteDates.properties.join(", "))
+					.onChange(async (value) => {
+						const properties = value
+							.split(",")
+							.map((s) => s.trim())
+							.filter((s) => s.length > 0);
+						this.plugin.settings.noteDates = {
+							...this.plugin.settings.noteDates,
+							properties:
+								properties.length > 0
+									? properties
+									: DEFAULT_NOTE_DATE_SETTINGS.properties,
+						};
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Ignore unchanged notes")
+			.setDesc(
+				"Only count the modification time of a note when its content changed. Keeps a hash of the content of each note in the plugin folder, updated when notes are edited and when reviews run."
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.trackContentChanges).onChange(async (value) => {
+					this.plugin.settings.trackContentChanges = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
 		// LLM Configuration Section
 		new Setting(containerEl).setName("Model configuration").setHeading();
 
+		const profiles = this.plugin.settings.llmProfiles;
+		const profile = getProfile(this.plugin.settings, this.editingProfileId);
+		this.editingProfileId = profile.id;
+
+		new Setting(containerEl)
+			.setName("Profile")
+			.setDesc("Named model configurations. Pick one to edit it below.")
+			.addDropdown((dropdown) => {
+				profiles.forEach((p) => {
+					dropdown.addOption(p.id, p.name);
+				});
+				dropdown.setValue(profile.id);
+				dropdown.onChange((value) => {
+					this.editingProfileId = value;
+					this.display();
+				});
+			})
+			.addButton((button) =>
+				button.setButtonText("Add").onClick(async () => {
+					const created = createProfile(`Profile ${profiles.length + 1}`, profile);
+					profiles.push(created);
+					this.editingProfileId = created.id;
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Delete")
+					.setWarning()
+					.setDisabled(profiles.length <= 1)
+					.onClick(async () => {
+						this.plugin.settings.llmProfiles = profiles.filter((p) => p.id !== profile.id);
+						// Reassign commands that used the deleted profile
+						const fallbackId = this.plugin.settings.llmProfiles[0]!.id;
+						for (const { value } of LLM_COMMANDS) {
+							if (this.plugin.settings.commandProfiles[value] === profile.id) {
+								this.plugin.settings.commandProfiles[value] = fallbackId;
+							}
+						}
+						this.plugin.settings.fallbackProfileIds =
+							this.plugin.settings.fallbackProfileIds.filter((id) => id !== profile.id);
+						this.editingProfileId = undefined;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Profile name")
+			.setDesc("Shown when choosing a profile for a command.")
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(profile.name)
+					.onChange(async (value) => {
+						profile.name = value.trim() || profile.name;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Provider")
 			.setDesc("The model API provider to use.")
 			.addDropdown((dropdown) => {
-				dropdown.addOption("ollama", "Ollama");
-				dropdown.addOption("openai", "Open AI");
-				dropdown.setValue(this.plugin.settings.llm.provider);
+				PROVIDERS.forEach((provider) => {
+					dropdown.addOption(provider.value, provider.label);
+				});
+				dropdown.setValue(profile.provider);
 				dropdown.onChange(async (value) => {
 					const provider = value as LLMProvider;
-					this.plugin.settings.llm.provider = provider;
-					if (provider === "openai") {
-						this.plugin.settings.llm.baseUrl = "https://api.openai.com";
-						this.plugin.settings.llm.endpointPath = "/v1/chat/completions";
-						this.plugin.settings.llm.apiKeyHeaderName = "Authorization";
-						this.plugin.settings.llm.model = "gpt-5-mini";
-					} else {
-						this.plugin.settings.llm.baseUrl = "http://localhost:11434";
-						this.plugin.settings.llm.endpointPath = "/api/chat";
-						this.plugin.settings.llm.apiKeyHeaderName = undefined;
-						this.plugin.settings.llm.apiKeyHeaderValue = undefined;
-						this.plugin.settings.llm.model = "llama3.1";
+					const defaults = PROVIDER_DEFAULTS[provider];
+					profile.provider = provider;
+					profile.baseUrl = defaults.baseUrl;
+					profile.endpointPath = defaults.endpointPath;
+					profile.apiKeyHeaderName = defaults.apiKeyHeaderName;
+					profile.model = defaults.model;
+					if (!defaults.apiKeyHeaderName) {
+						profile.apiKeyHeaderValue = undefined;
 					}
 					await this.plugin.saveSettings();
 					this.display();
@@ -156,48 +440,111 @@ export class ReviewSettingsTab extends PluginSettingTab {
 			.addText((text) =>
 				text
 					.setPlaceholder("")
-					.setValue(this.plugin.settings.llm.baseUrl)
+					.setValue(profile.baseUrl)
 					.onChange(async (value) => {
-						this.plugin.settings.llm.baseUrl = value;
+						profile.baseUrl = value;
 						await this.plugin.saveSettings();
 					})
 			);
 
 		new Setting(containerEl)
 			.setName("Endpoint path")
-			.setDesc("The API endpoint path.")
+			.setDesc("The API endpoint path. {model} is replaced with the model name.")
 			.addText((text) =>
 				text
 					.setPlaceholder("")
-					.setValue(this.plugin.settings.llm.endpointPath)
+					.setValue(profile.endpointPath)
 					.onChange(async (value) => {
-						this.plugin.settings.llm.endpointPath = value;
+						profile.endpointPath = value;
 						await this.plugin.saveSettings();
 					})
 			);
 
-		new Setting(containerEl)
+		if (profile.provider === "azure") {
+			new Setting(containerEl)
+				.setName("Deployment name")
+				.setDesc("The deployment to call. Replaces {deployment} in the endpoint path.")
+				.addText((text) =>
+					text
+						.setPlaceholder("")
+						.setValue(profile.azureDeployment ?? "")
+						.onChange(async (value) => {
+							profile.azureDeployment = value.trim() || undefined;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("API version")
+				.setDesc("Sent as the version query parameter with each request.")
+				.addText((text) =>
+					text
+						.setPlaceholder(AZURE_DEFAULT_API_VERSION)
+						.setValue(profile.azureApiVersion ?? "")
+						.onChange(async (value) => {
+							profile.azureApiVersion = value.trim() || undefined;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		const canListModels = supportsModelListing(profile.provider);
+		const models = this.modelLists.get(modelListKey(profile));
+		const modelSetting = new Setting(containerEl)
 			.setName("Model name")
-			.setDesc("The model to use for generation.")
-			.addText((text) =>
-				text
-					.setPlaceholder("")
-					.setValue(this.plugin.settings.llm.model)
-					.onChange(async (value) => {
-						this.plugin.settings.llm.model = value;
-						await this.plugin.saveSettings();
-					})
+			.setDesc(
+				canListModels
+					? "The model to use for generation. Pick one the server lists, or type its name."
+					: "The model to use for generation."
+			);
+		if (models && models.length > 0) {
+			modelSetting.addDropdown((dropdown) => {
+				dropdown.addOption("", "Choose a model");
+				models.forEach((model) => {
+					dropdown.addOption(model, model);
+				});
+				dropdown.setValue(models.includes(profile.model) ? profile.model : "");
+				dropdown.onChange(async (value) => {
+					if (!value) return;
+					profile.model = value;
+					await this.plugin.saveSettings();
+					this.display();
+				});
+			});
+		}
+		// Manual entry stays available for servers that don't list their models
+		modelSetting.addText((text) =>
+			text
+				.setPlaceholder("")
+				.setValue(profile.model)
+				.onChange(async (value) => {
+					profile.model = value;
+					await this.plugin.saveSettings();
+				})
+		);
+		if (canListModels) {
+			modelSetting.addExtraButton((button) =>
+				button
+					.setIcon("refresh-cw")
+					.setTooltip("Refresh model list")
+					.onClick(() => this.refreshModels(profile, true))
 			);
+			if (!this.modelLists.has(modelListKey(profile))) {
+				void this.refreshModels(profile, false);
+			}
+		}
 
 		new Setting(containerEl)
 			.setName("API key header name")
-			.setDesc("Optional header name for API key authentication.")
+			.setDesc(
+				"Optional header name for API key authentication. If empty, the key is sent as a query parameter where the provider supports it."
+			)
 			.addText((text) =>
 				text
 					.setPlaceholder("")
-					.setValue(this.plugin.settings.llm.apiKeyHeaderName ?? "")
+					.setValue(profile.apiKeyHeaderName ?? "")
 					.onChange(async (value) => {
-						this.plugin.settings.llm.apiKeyHeaderName = value || undefined;
+						profile.apiKeyHeaderName = value || undefined;
 						await this.plugin.saveSettings();
 					})
 			);
@@ -209,9 +556,9 @@ export class ReviewSettingsTab extends PluginSettingTab {
 				text.inputEl.type = "password";
 				text
 					.setPlaceholder("")
-					.setValue(this.plugin.settings.llm.apiKeyHeaderValue ?? "")
+					.setValue(profile.apiKeyHeaderValue ?? "")
 					.onChange(async (value) => {
-						this.plugin.settings.llm.apiKeyHeaderValue = value || undefined;
+						profile.apiKeyHeaderValue = value || undefined;
 						await this.plugin.saveSettings();
 					});
 			});
@@ -222,10 +569,10 @@ export class ReviewSettingsTab extends PluginSettingTab {
 			.addSlider((slider) =>
 				slider
 					.setLimits(0, 1, 0.1)
-					.setValue(this.plugin.settings.llm.temperature)
+					.setValue(profile.temperature)
 					.setDynamicTooltip()
 					.onChange(async (value) => {
-						this.plugin.settings.llm.temperature = value;
+						profile.temperature = value;
 						await this.plugin.saveSettings();
 					})
 			);
@@ -236,78 +583,916 @@ export class ReviewSettingsTab extends PluginSettingTab {
 			.addText((text) =>
 				text
 					.setPlaceholder("")
-					.setValue(String(this.plugin.settings.llm.maxTokens))
+					.setValue(String(profile.maxTokens))
 					.onChange(async (value) => {
 						const num = parseInt(value, 10);
 						if (!isNaN(num) && num > 0) {
-							this.plugin.settings.llm.maxTokens = num;
+							profile.maxTokens = num;
 							await this.plugin.saveSettings();
 						}
 					})
 			);
 
 		new Setting(containerEl)
-			.setName("Timeout in seconds")
-			.setDesc("Maximum time to wait for response.")
-			.addText((text) =>
-				text
+			.setName("Reasoning effort")
+			.setDesc(
+				"For reasoning models only. Sets the reasoning effort or thinking budget; minimal turns thinking off where the model allows it."
+			)
+			.addDropdown((dropdown) => {
+				REASONING_EFFORTS.forEach((effort) => {
+					dropdown.addOption(effort.value, effort.label);
+				});
+				dropdown.setValue(profile.reasoningEffort ?? "");
+				dropdown.onChange(async (value) => {
+					profile.reasoningEffort = (value as ReasoningEffort) || undefined;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		this.addOptionalNumberSetting(
+			containerEl,
+			"Top P",
+			"Nucleus sampling: only the most likely tokens up to this total probability are considered (0 - 1). Leave empty for the model's default.",
+			() => profile.topP,
+			(value) => {
+				profile.topP = value;
+			}
+		);
+
+		if (profile.provider !== "anthropic") {
+			this.addOptionalNumberSetting(
+				containerEl,
+				"Frequency penalty",
+				"Discourages repeating the same words (-2 - 2). Leave empty for the model's default.",
+				() => profile.frequencyPenalty,
+				(value) => {
+					profile.frequencyPenalty = value;
+				}
+			);
+
+			this.addOptionalNumberSetting(
+				containerEl,
+				"Seed",
+				"Makes sampling repeatable where the model supports it. Leave empty for a random seed.",
+				() => profile.seed,
+				(value) => {
+					profile.seed = value === undefined ? undefined : Math.trunc(value);
+				}
+			);
+		}
+
+		new Setting(containerEl)
+			.setName("Stop sequences")
+			.setDesc("One per line. Generation stops when the model outputs one of them.")
+			.addTextArea((textarea) =>
+				textarea
 					.setPlaceholder("")
-					.setValue(String(this.plugin.settings.llm.timeoutSeconds))
+					.setValue((profile.stopSequences ?? []).join("\n"))
 					.onChange(async (value) => {
-						const num = parseInt(value, 10);
-						if (!isNaN(num) && num > 0) {
-							this.plugin.settings.llm.timeoutSeconds = num;
-							await this.plugin.saveSettings();
-						}
+						const sequences = value.split("\n").filter((line) => line.length > 0);
+						profile.stopSequences = sequences.length > 0 ? sequences : undefined;
+						await this.plugin.saveSettings();
 					})
 			);
 
-		// Payload Limits Section
-		new Setting(containerEl).setName("Payload limits").setHeading();
+		if (profile.provider === "ollama") {
+			new Setting(containerEl)
+				.setName("Keep alive")
+				.setDesc(
+					"How long the model stays loaded after a request, e.g. 10m, or -1 to keep it loaded. Leave empty for the server's default."
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("5m")
+						.setValue(profile.keepAlive ?? "")
+						.onChange(async (value) => {
+							profile.keepAlive = value.trim() || undefined;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		const extraSetting = new Setting(containerEl)
+			.setName("Extra request JSON")
+			.setDesc(
+				"An object merged into every request body, for options the plugin has no setting for. Nested objects are merged; other values replace the plugin's."
+			);
+		const extraErrorEl = extraSetting.descEl.createDiv({ cls: "smart-nib-setting-error" });
+		extraSetting.addTextArea((textarea) =>
+			textarea
+				.setPlaceholder('{"options": {"min_p": 0.05}}')
+				.setValue(profile.extraRequestJson ?? "")
+				.onChange(async (value) => {
+					try {
+						parseExtraRequestJson(value);
+					} catch (error) {
+						// Invalid JSON is not saved, so requests keep using the last valid value
+						extraErrorEl.setText(error instanceof Error ? error.message : String(error));
+						return;
+					}
+					extraErrorEl.setText("");
+					profile.extraRequestJson = value.trim() ? value : undefined;
+					await this.plugin.saveSettings();
+				})
+		);
 
 		new Setting(containerEl)
-			.setName("Max notes")
-			.setDesc("Maximum number of notes to include in the review.")
+			.setName("Context window")
+			.setDesc(
+				"Maximum tokens the model accepts, prompt and response combined. Notes are trimmed to fit. Leave empty for the provider's typical window."
+			)
 			.addText((text) =>
 				text
-					.setPlaceholder("")
-					.setValue(String(this.plugin.settings.maxNotes))
+					.setPlaceholder(String(PROVIDER_DEFAULTS[profile.provider].contextWindow))
+					.setValue(profile.contextWindow ? String(profile.contextWindow) : "")
 					.onChange(async (value) => {
 						const num = parseInt(value, 10);
-						if (!isNaN(num) && num > 0) {
-							this.plugin.settings.maxNotes = num;
-							await this.plugin.saveSettings();
+						if (value.trim() === "") {
+							profile.contextWindow = undefined;
+						} else if (!isNaN(num) && num > 0) {
+							profile.contextWindow = num;
+						} else {
+							return;
 						}
+						await this.plugin.saveSettings();
 					})
 			);
 
 		new Setting(containerEl)
-			.setName("Max characters per note")
-			.setDesc("Maximum characters to include from each note.")
+			.setName("Timeout in seconds")
+			.setDesc("Maximum time to wait for response.")
 			.addText((text) =>
 				text
 					.setPlaceholder("")
-					.setValue(String(this.plugin.settings.maxCharsPerNote))
+					.setValue(String(profile.timeoutSeconds))
 					.onChange(async (value) => {
 						const num = parseInt(value, 10);
 						if (!isNaN(num) && num > 0) {
-							this.plugin.settings.maxCharsPerNote = num;
+							profile.timeoutSeconds = num;
 							await this.plugin.saveSettings();
 						}
 					})
 			);
 
 		new Setting(containerEl)
-			.setName("System prompt override")
-			.setDesc("Optional custom system prompt to use instead of the default.")
-			.addTextArea((textarea) =>
-				textarea
-					.setPlaceholder("Leave empty to use the default system prompt")
-					.setValue(this.plugin.settings.systemPromptOverride ?? "")
-					.onChange(async (value) => {
-						this.plugin.settings.systemPromptOverride = value || undefined;
-						await this.plugin.saveSettings();
-					})
+			.setName("Stream responses")
+			.setDesc(
+				"Show generated text as it arrives. Falls back to a regular request if the server cannot stream."
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(profile.stream).onChange(async (value) => {
+					profile.stream = value;
+					await this.plugin.saveSettings();
+				})
 			);
-	}
+
+		let resultEl: HTMLElement | null = null;
+		new Setting(containerEl)
+			.setName("Test connection")
+			.setDesc("Send a short test prompt with this profile and show what the server returned.")
+			.addButton((button) =>
+				button.setButtonText("Test").onClick(async () => {
+					button.setDisabled(true).setButtonText("Testing...");
+					const result = await testConnection(profile);
+					button.setDisabled(false).setButtonText("Test");
+					if (resultEl) {
+						this.renderConnectionResult(resultEl, result);
+					}
+				})
+			);
+		resultEl = containerEl.createDiv({ cls: "smart-nib-connection-result" });
+
+		// Command Profiles Section
+		new Setting(containerEl).setName("Command profiles").setHeading();
+
+		for (const command of LLM_COMMANDS) {
+			new Setting(containerEl)
+				.setName(command.label)
+				.setDesc("Profile used by default for this command.")
+				.addDropdown((dropdown) => {
+					profiles.forEach((p) => {
+						dropdown.addOption(p.id, p.name);
+					});
+					dropdown.setValue(resolveCommandProfile(this.plugin.settings, command.value).id);
+					dropdown.onChange(async (value) => {
+						this.plugin.settings.commandProfiles[command.value] = value;
+						await this.plugin.saveSettings();
+					});
+				});
+		}
+
+		// Fallback Section
+		new Setting(containerEl).setName("Fallback").setHeading();
+
+		const fallbackIds = this.plugin.settings.fallbackProfileIds;
+		fallbackIds.forEach((id, index) => {
+			const fallback = profiles.find((p) => p.id === id);
+			if (!fallback) return;
+			new Setting(containerEl)
+				.setName(`${index + 1}. ${fallback.name}`)
+				.setDesc(`${fallback.provider} · ${fallback.model}`)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-up")
+						.setTooltip("Move up")
+						.setDisabled(index === 0)
+						.onClick(async () => {
+							fallbackIds.splice(index - 1, 0, ...fallbackIds.splice(index, 1));
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-down")
+						.setTooltip("Move down")
+						.setDisabled(index === fallbackIds.length - 1)
+						.onClick(async () => {
+							fallbackIds.splice(index + 1, 0, ...fallbackIds.splice(index, 1));
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("x")
+						.setTooltip("Remove")
+						.onClick(async () => {
+							fallbackIds.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		});
+
+		const available = profiles.filter((p) => !fallbackIds.includes(p.id));
+		if (available.length > 0) {
+			new Setting(containerEl)
+				.setName("Add fallback profile")
+				.setDesc(
+					"Profiles tried in order when a command's profile is unreachable or returns one of the statuses below."
+				)
+				.addDropdown((dropdown) => {
+					dropdown.addOption("", "Select a profile");
+					available.forEach((p) => {
+						dropdown.addOption(p.id, p.name);
+					});
+					dropdown.onChange(async (value) => {
+						if (!value) return;
+						fallbackIds.push(value);
+						await this.plugin.saveSettings();
+						this.display();
+					});
+				});
+		}
+
+		new Setting(containerEl)
+			.setName("Fallback statuses")
+			.setDesc("Comma-separated HTTP statuses that move on to the next profile.")
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(this.plugin.settings.fallbackStatuses.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.fallbackStatuses = value
+							.split(",")
+							.map((s) => parseInt(s.trim(), 10))
+							.filter((n) => !isNaN(n));
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Retries Section
+		new Setting(containerEl).setName("Retries").setHeading();
+
+		const retryPolicy = this.plugin.settings.retryPolicy;
+
+		new Setting(containerEl)
+			.setName("Max attempts")
+			.setDesc("Total attempts per request, including the first one.")
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(String(retryPolicy.maxAttempts))
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num > 0) {
+							retryPolicy.maxAttempts = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Base delay in milliseconds")
+			.setDesc("Wait before the first retry. Doubles with each attempt, with random jitter.")
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(String(retryPolicy.baseDelayMs))
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num >= 0) {
+							retryPolicy.baseDelayMs = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Max delay in milliseconds")
+			.setDesc(
+				"Longest wait between attempts. Requests asking for a longer wait via retry-after are not retried."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(String(retryPolicy.maxDelayMs))
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num >= 0) {
+							retryPolicy.maxDelayMs = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Retryable statuses")
+			.setDesc("Comma-separated HTTP statuses that are retried. Network errors are always retried.")
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(retryPolicy.retryableStatuses.join(", "))
+					.onChange(async (value) => {
+						retryPolicy.retryableStatuses = value
+							.split(",")
+							.map((s) => parseInt(s.trim(), 10))
+							.filter((n) => !isNaN(n));
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Response Cache Section
+		new Setting(containerEl).setName("Response cache").setHeading();
+
+		const responseCache = this.plugin.settings.responseCache;
+
+		new Setting(containerEl)
+			.setName("Cache responses")
+			.setDesc(
+				"Reuse the previous response when the same prompt is sent to the same model with the same parameters."
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(responseCache.enabled).onChange(async (value) => {
+					responseCache.enabled = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Time to live in hours")
+			.setDesc("Cached responses older than this are discarded.")
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(String(responseCache.ttlHours))
+					.onChange(async (value) => {
+						const num = parseFloat(value);
+						if (!isNaN(num) && num > 0) {
+							responseCache.ttlHours = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Max cache size in megabytes")
+			.setDesc("When the cache grows beyond this, the least recently used responses are removed.")
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(String(responseCache.maxSizeMb))
+					.onChange(async (value) => {
+						const num = parseFloat(value);
+						if (!isNaN(num) && num > 0) {
+							responseCache.maxSizeMb = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Clear cache")
+			.setDesc("Remove every cached response.")
+			.addButton((button) =>
+				button.setButtonText("Clear").onClick(async () => {
+					await this.plugin.clearCache();
+				})
+			);
+
+		// Usage Section
+		new Setting(containerEl).setName("Usage").setHeading();
+
+		const prices = this.plugin.settings.modelPrices;
+		prices.forEach((price, index) => {
+			new Setting(containerEl)
+				.setName(price.model || "New model")
+				.setDesc("Model name, then input and output price in dollars per million tokens.")
+				.addText((text) =>
+					text
+						.setPlaceholder("Model")
+						.setValue(price.model)
+						.onChange(async (value) => {
+							price.model = value.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Input")
+						.setValue(String(price.inputPerMillion))
+						.onChange(async (value) => {
+							const num = parseFloat(value);
+							if (!isNaN(num) && num >= 0) {
+								price.inputPerMillion = num;
+								await this.plugin.saveSettings();
+							}
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Output")
+						.setValue(String(price.outputPerMillion))
+						.onChange(async (value) => {
+							const num = parseFloat(value);
+							if (!isNaN(num) && num >= 0) {
+								price.outputPerMillion = num;
+								await this.plugin.saveSettings();
+							}
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("x")
+						.setTooltip("Remove")
+						.onClick(async () => {
+							prices.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl)
+			.setName("Model prices")
+			.setDesc(
+				"Prices used to estimate the cost of each request. Models without a price are counted but not priced."
+			)
+			.addButton((button) =>
+				button.setButtonText("Add price").onClick(async () => {
+					prices.push({ model: "", inputPerMillion: 0, outputPerMillion: 0 });
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+
+		const usageEl = containerEl.createDiv({ cls: "smart-nib-usage" });
+		void this.renderUsage(usageEl);
+
+		new Setting(containerEl)
+			.setName("Clear usage history")
+			.setDesc("Remove every recorded request from the usage totals.")
+			.addButton((button) =>
+				button.setButtonText("Clear").onClick(async () => {
+					await this.plugin.usageLedger?.clear();
+					await this.renderUsage(usageEl);
+				})
+			);
+
+		// Debug Log Section
+		new Setting(containerEl).setName("Debug log").setHeading();
+
+		const debugLog = this.plugin.settings.debugLog;
+
+		new Setting(containerEl)
+			.setName("Log requests")
+			.setDesc(
+				"Write every request and response, with the full prompt and timings, to a log file in the vault. API keys are redacted."
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(debugLog.enabled).onChange(async (value) => {
+					debugLog.enabled = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Log folder")
+			.setDesc("Vault folder for the log files, one per day.")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_DEBUG_LOG_SETTINGS.folder)
+					.setValue(debugLog.folder)
+					.onChange(async (value) => {
+						debugLog.folder = value.trim() || DEFAULT_DEBUG_LOG_SETTINGS.folder;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Keep logs for days")
+			.setDesc("Log files of older days are deleted.")
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(String(debugLog.retentionDays))
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num > 0) {
+							debugLog.retentionDays = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		// Review Tools Section
+		new Setting(containerEl).setName("Note lookup").setHeading();
+		const reviewTools = this.plugin.settings.reviewTools;
+
+		new Setting(containerEl)
+			.setName("Let the model look up notes")
+			.setDesc(
+				"During reviews, the model can read notes, search the vault and list backlinks for context. Needs a provider with tool calling; these reviews are not cached."
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(reviewTools.enabled).onChange(async (value) => {
+					reviewTools.enabled = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Max lookup rounds")
+			.setDesc("Rounds of lookups after which the model must write the review.")
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(String(reviewTools.maxRounds))
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num > 0) {
+							reviewTools.maxRounds = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		// Semantic Index Section
+		new Setting(containerEl).setName("Semantic index").setHeading();
+		const semanticIndex = this.plugin.settings.semanticIndex;
+
+		new Setting(containerEl)
+			.setName("Index the vault")
+			.setDesc(
+				"Embed every note, section by section, so related notes can be found by meaning. The index is kept in the plugin folder and updated as notes change."
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(semanticIndex.enabled).onChange(async (value) => {
+					semanticIndex.enabled = value;
+					await this.plugin.saveSettings();
+					if (value) {
+						void this.plugin.syncSemanticIndex();
+					} else {
+						await this.plugin.stopSemanticIndexSync();
+					}
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Embedding profile")
+			.setDesc(
+				"Profile whose server computes the embeddings. Only profiles of providers with an embeddings endpoint are listed."
+			)
+			.addDropdown((dropdown) => {
+				profiles
+					.filter((p) => supportsEmbeddings(p.provider))
+					.forEach((p) => {
+						dropdown.addOption(p.id, p.name);
+					});
+				dropdown.setValue(semanticIndex.profileId);
+				dropdown.onChange(async (value) => {
+					semanticIndex.profileId = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Embedding model")
+			.setDesc("Changing the model empties the index until it is rebuilt.")
+			.addText((text) => {
+				text.setPlaceholder(DEFAULT_SEMANTIC_INDEX_SETTINGS.model).setValue(
+					semanticIndex.model
+				);
+				// Applied when editing ends, not per keystroke: a new model empties the index
+				text.inputEl.addEventListener("change", () => {
+					semanticIndex.model = text.getValue().trim();
+					void this.plugin.saveSettings();
+				});
+			});
+
+		const indexStats = new Setting(containerEl)
+			.setName("Rebuild index")
+			.setDesc("Embed every note again.")
+			.addButton((button) =>
+				button.setButtonText("Rebuild").onClick(async () => {
+					await this.plugin.rebuildSemanticIndex();
+					await this.renderIndexStats(indexStats);
+				})
+			);
+		void this.renderIndexStats(indexStats);
+
+		// Ask Your Vault Section
+		new Setting(containerEl).setName("Ask your vault").setHeading();
+		const askVault = this.plugin.settings.askVault;
+
+		new Setting(containerEl)
+			.setName("Answer folder")
+			.setDesc("Folder where answers saved as notes are created.")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_ASK_VAULT_SETTINGS.outputFolder)
+					.setValue(askVault.outputFolder)
+					.onChange(async (value) => {
+						askVault.outputFolder = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Sources per question")
+			.setDesc("Note sections from the semantic index sent with each question.")
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(String(askVault.maxSources))
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num > 0) {
+							askVault.maxSources = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		// Payload Limits Section
+		new Setting(containerEl).setName("Payload limits").setHeading();
+
+		new Setting(containerEl)
+			.setName("Max notes")
+			.setDesc("Maximum number of notes to include in the review.")
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(String(this.plugin.settings.maxNotes))
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num > 0) {
+							this.plugin.settings.maxNotes = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Max characters per note")
+			.setDesc("Maximum characters to include from each note.")
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(String(this.plugin.settings.maxCharsPerNote))
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num > 0) {
+							this.plugin.settings.maxCharsPerNote = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("System prompt override")
+			.setDesc("Optional custom system prompt to use instead of the default.")
+			.addTextArea((textarea) =>
+				textarea
+					.setPlaceholder("Leave empty to use the default system prompt")
+					.setValue(this.plugin.settings.systemPromptOverride ?? "")
+					.onChange(async (value) => {
+						this.plugin.settings.systemPromptOverride = value || undefined;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Review output format")
+			.setDesc(
+				"The structured format asks the model for a fixed set of fields, checks that there are exactly 3 priorities and formats the result into the usual sections."
+			)
+			.addDropdown((dropdown) => {
+				OUTPUT_FORMATS.forEach((format) => {
+					dropdown.addOption(format.value, format.label);
+				});
+				dropdown.setValue(this.plugin.settings.reviewOutputFormat);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.reviewOutputFormat = value as ReviewOutputFormat;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Reasoning in reviews")
+			.setDesc(
+				"What to do with the thinking of reasoning models. It is always removed from summaries and sprinkles."
+			)
+			.addDropdown((dropdown) => {
+				REASONING_OUTPUTS.forEach((output) => {
+					dropdown.addOption(output.value, output.label);
+				});
+				dropdown.setValue(this.plugin.settings.reasoningOutput);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.reasoningOutput = value as ReasoningOutput;
+					await this.plugin.saveSettings();
+				});
+			});
+	}
+
+	/**
+	 * Adds a number setting that can be left empty. Values that are not
+	 * numbers are ignored until corrected.
+	 */
+	private addOptionalNumberSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		get: () => number | undefined,
+		set: (value: number | undefined) => void
+	) {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText((text) =>
+				text
+					.setPlaceholder("")
+					.setValue(get()?.toString() ?? "")
+					.onChange(async (value) => {
+						const num = parseFloat(value);
+						if (value.trim() === "") {
+							set(undefined);
+						} else if (!isNaN(num)) {
+							set(num);
+						} else {
+							return;
+						}
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
+	/**
+	 * Shows the token usage and estimated cost per month.
+	 */
+	private async renderUsage(el: HTMLElement) {
+		const months = (await this.plugin.usageLedger?.monthlyTotals(this.plugin.settings.modelPrices)) ?? [];
+		el.empty();
+		if (months.length === 0) {
+			el.createEl("p", { text: "No requests recorded yet." });
+			return;
+		}
+
+		const table = el.createEl("table");
+		const header = table.createEl("thead").createEl("tr");
+		for (const label of ["Month", "Requests", "Input tokens", "Output tokens", "Cost"]) {
+			header.createEl("th", { text: label });
+		}
+		const body = table.createEl("tbody");
+		for (const month of months) {
+			const row = body.createEl("tr");
+			row.createEl("td", { text: month.month });
+			row.createEl("td", { text: String(month.requests) });
+			row.createEl("td", { text: month.inputTokens.toLocaleString() });
+			row.createEl("td", { text: month.outputTokens.toLocaleString() });
+			const cost = `$${month.cost.toFixed(2)}`;
+			row.createEl("td", {
+				text: month.unpricedRequests > 0 ? `${cost} (${month.unpricedRequests} unpriced)` : cost,
+			});
+		}
+	}
+
+	/**
+	 * Shows how many notes the folder and tag filters currently select.
+	 */
+	private async renderMatchCount(el: HTMLElement) {
+		const { foldersToScan, tagFilters } = this.plugin.settings;
+		const notes = await filterNotes(new ObsidianVaultAdapter(this.app), foldersToScan, tagFilters);
+		const total = this.app.vault.getMarkdownFiles().length;
+		const unfiltered = foldersToScan.length === 0 && tagFilters.length === 0;
+		el.setText(
+			unfiltered
+				? `⚠️ no filters — all ${total} notes of the vault will be scanned`
+				: `${notes.length} of ${total} notes match.`
+		);
+		el.toggleClass("mod-warning", unfiltered || notes.length === 0);
+	}
+
+	/**
+	 * Shows how many notes a saved query selects, or why it is invalid, in a
+	 * setting's description.
+	 */
+	private async renderQueryMatchCount(setting: Setting, text: string) {
+		if (!text.trim()) {
+			setting.setDesc("Enter a query.");
+			return;
+		}
+		let query: QueryNode;
+		try {
+			query = parseQuery(text);
+		} catch (error) {
+			setting.setDesc(`⚠️ ${error instanceof Error ? error.message : String(error)}`);
+			return;
+		}
+		const notes = await filterNotes(new ObsidianVaultAdapter(this.app), [], [], query);
+		setting.setDesc(`${notes.length} notes match.`);
+	}
+
+	/**
+	 * Shows the size of the semantic index in a setting's description.
+	 */
+	private async renderIndexStats(setting: Setting) {
+		const stats = await this.plugin.semanticIndex?.stats();
+		if (stats) {
+			setting.setDesc(
+				`Embed every note again. The index holds ${stats.chunks} sections of ${stats.notes} notes.`
+			);
+		}
+	}
+
+	/**
+	 * Shows the outcome of a connection test, with fix hints on failure.
+	 */
+	private renderConnectionResult(el: HTMLElement, result: ConnectionTestResult) {
+		el.empty();
+		el.createEl("p", {
+			text: result.ok
+				? "Connection succeeded."
+				: `Connection failed: ${FAILURE_LABELS[result.failure ?? "other"]}.`,
+			cls: result.ok ? "smart-nib-connection-ok" : "smart-nib-connection-failed",
+		});
+
+		const details = el.createEl("ul");
+		details.createEl("li", { text: `URL: ${result.url || "(could not be built)"}` });
+		details.createEl("li", { text: `Status: ${result.status ?? "no response"}` });
+		details.createEl("li", { text: `Latency: ${result.latencyMs} ms` });
+		if (result.response !== undefined) {
+			details.createEl("li", { text: `Response: ${result.response.slice(0, 200)}` });
+		}
+		if (result.error) {
+			details.createEl("li", { text: `Error: ${result.error}` });
+		}
+
+		if (result.hints.length > 0) {
+			el.createEl("p", { text: "How to fix:" });
+			const hints = el.createEl("ul");
+			for (const hint of result.hints) {
+				hints.createEl("li", { text: hint });
+			}
+		}
+	}
+
+	/**
+	 * Fetches the model list for a config and redraws the settings.
+	 *
+	 * @param notify - Show a notice when listing fails (for explicit refreshes)
+	 */
+	private async refreshModels(config: LLMConfig, notify: boolean) {
+		const key = modelListKey(config);
+		// Mark as attempted so a redraw doesn't start another request
+		this.modelLists.set(key, this.modelLists.get(key) ?? null);
+		try {
+			this.modelLists.set(key, await listModels(config));
+		} catch (error) {
+			this.modelLists.set(key, null);
+			if (notify) {
+				const message = error instanceof Error ? error.message : String(error);
+				new Notice(`Could not list models: ${message}`);
+			}
+		}
+		this.display();
+	}
+}
+
+/**
+ * Cache key for a server's model list.
+ */
+function modelListKey(config: LLMConfig): string {
+	return `${config.provider}|${config.baseUrl}`;
 }
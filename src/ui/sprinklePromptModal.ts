@@ -1,13 +1,29 @@
-import { App, Modal } from "obsidian";
+import { App, Modal, Setting } from "obsidian";
+import type { LLMProfile } from "../types";
+
+export interface SprinklePromptResult {
+	prompt: string;
+	profileId: string;
+}
 
 export class SprinklePromptModal extends Modal {
-	private result: string | null = null;
+	private result: SprinklePromptResult | null = null;
 	private initialValue: string;
-	private onSubmit: (result: string | null) => void;
+	private profiles: LLMProfile[];
+	private profileId: string;
+	private onSubmit: (result: SprinklePromptResult | null) => void;
 
-	constructor(app: App, initialValue: string, onSubmit: (result: string | null) => void) {
+	constructor(
+		app: App,
+		initialValue: string,
+		profiles: LLMProfile[],
+		profileId: string,
+		onSubmit: (result: SprinklePromptResult | null) => void
+	) {
 		super(app);
 		this.initialValue = initialValue;
+		this.profiles = profiles;
+		this.profileId = profileId;
 		this.onSubmit = onSubmit;
 	}
 
@@ -23,6 +39,22 @@ export class SprinklePromptModal extends Modal {
 		});
 		textarea.value = this.initialValue;
 
+		// Only offer a choice when there is something to choose from
+		if (this.profiles.length > 1) {
+			new Setting(contentEl)
+				.setName("Profile")
+				.setDesc("Model profile for this request only.")
+				.addDropdown((dropdown) => {
+					this.profiles.forEach((profile) => {
+						dropdown.addOption(profile.id, profile.name);
+					});
+					dropdown.setValue(this.profileId);
+					dropdown.onChange((value) => {
+						this.profileId = value;
+					});
+				});
+		}
+
 		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
 
 		const cancelBtn = buttonContainer.createEl("button", { text: "Cancel" });
@@ -36,7 +68,7 @@ export class SprinklePromptModal extends Modal {
 			cls: "mod-cta",
 		});
 		submitBtn.addEventListener("click", () => {
-			this.result = textarea.value;
+			this.result = { prompt: textarea.value, profileId: this.profileId };
 			this.close();
 		});
 	}
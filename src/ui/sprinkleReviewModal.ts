@@ -4,12 +4,15 @@ export type SprinkleReviewResult = "accept" | "retry" | "reject";
 
 export class SprinkleReviewModal extends Modal {
 	private result: SprinkleReviewResult = "reject";
-	private response: string;
+	private response = "";
+	private complete = false;
+	private pre: HTMLElement | null = null;
+	private acceptBtn: HTMLButtonElement | null = null;
+	private retryBtn: HTMLButtonElement | null = null;
 	private onSubmit: (result: SprinkleReviewResult) => void;
 
-	constructor(app: App, response: string, onSubmit: (result: SprinkleReviewResult) => void) {
+	constructor(app: App, onSubmit: (result: SprinkleReviewResult) => void) {
 		super(app);
-		this.response = response;
 		this.onSubmit = onSubmit;
 	}
 
@@ -21,8 +24,8 @@ export class SprinkleReviewModal extends Modal {
 
 		const container = contentEl.createDiv({ cls: "sprinkle-review-container" });
 
-		const pre = container.createEl("pre");
-		pre.textContent = this.response;
+		this.pre = container.createEl("pre");
+		this.pre.textContent = this.response;
 
 		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
 
@@ -32,25 +35,57 @@ export class SprinkleReviewModal extends Modal {
 			this.close();
 		});
 
-		const retryBtn = buttonContainer.createEl("button", { text: "Retry" });
-		retryBtn.addEventListener("click", () => {
+		this.retryBtn = buttonContainer.createEl("button", { text: "Retry" });
+		this.retryBtn.addEventListener("click", () => {
 			this.result = "retry";
 			this.close();
 		});
 
-		const acceptBtn = buttonContainer.createEl("button", {
+		this.acceptBtn = buttonContainer.createEl("button", {
 			text: "Accept",
 			cls: "mod-cta",
 		});
-		acceptBtn.addEventListener("click", () => {
+		this.acceptBtn.addEventListener("click", () => {
 			this.result = "accept";
 			this.close();
 		});
+
+		this.updateButtons();
+	}
+
+	/**
+	 * Appends streamed text to the response preview.
+	 */
+	appendText(token: string) {
+		this.response += token;
+		if (this.pre) {
+			this.pre.textContent = this.response;
+		}
+	}
+
+	/**
+	 * Marks the response as complete and enables the accept/retry actions.
+	 */
+	setComplete(response: string) {
+		this.response = response;
+		this.complete = true;
+		if (this.pre) {
+			this.pre.textContent = this.response;
+		}
+		this.updateButtons();
+	}
+
+	private updateButtons() {
+		if (this.acceptBtn) this.acceptBtn.disabled = !this.complete;
+		if (this.retryBtn) this.retryBtn.disabled = !this.complete;
 	}
 
 	onClose() {
 		const { contentEl } = this;
 		contentEl.empty();
+		this.pre = null;
+		this.acceptBtn = null;
+		this.retryBtn = null;
 		this.onSubmit(this.result);
 	}
 }
@@ -0,0 +1,55 @@
+import { App, Modal } from "obsidian";
+
+/**
+ * Read-only modal that shows generated text as it streams in. Closing it
+ * before the text is complete cancels the generation.
+ */
+export class StreamingPreviewModal extends Modal {
+	private title: string;
+	private text = "";
+	private pre: HTMLElement | null = null;
+	private complete = false;
+	private onCancel: () => void;
+
+	constructor(app: App, title: string, onCancel: () => void) {
+		super(app);
+		this.title = title;
+		this.onCancel = onCancel;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: this.title });
+
+		const container = contentEl.createDiv({ cls: "sprinkle-review-container" });
+		this.pre = container.createEl("pre");
+		this.pre.textContent = this.text;
+	}
+
+	appendText(token: string) {
+		this.text += token;
+		if (this.pre) {
+			this.pre.textContent = this.text;
+			this.pre.scrollIntoView({ block: "end" });
+		}
+	}
+
+	/**
+	 * Closes the modal once the text is complete, without cancelling.
+	 */
+	finish() {
+		this.complete = true;
+		this.close();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.pre = null;
+		if (!this.complete) {
+			this.onCancel();
+		}
+	}
+}
@@ -0,0 +1,120 @@
+import { App, Component, MarkdownRenderer, Modal } from "obsidian";
+
+export type VaultAnswerResult = "insert" | "save" | "close";
+
+/**
+ * Shows an answer as it streams in, then renders it as markdown so its
+ * citations can be clicked, with actions to keep it.
+ */
+export class VaultAnswerModal extends Modal {
+	private result: VaultAnswerResult = "close";
+	private question: string;
+	private canInsert: boolean;
+	private answer = "";
+	private complete = false;
+	private container: HTMLElement | null = null;
+	private pre: HTMLElement | null = null;
+	private insertBtn: HTMLButtonElement | null = null;
+	private saveBtn: HTMLButtonElement | null = null;
+	/** Owns the rendered markdown, unloaded when the modal closes */
+	private renderer = new Component();
+	private onSubmit: (result: VaultAnswerResult) => void;
+
+	constructor(
+		app: App,
+		question: string,
+		canInsert: boolean,
+		onSubmit: (result: VaultAnswerResult) => void
+	) {
+		super(app);
+		this.question = question;
+		this.canInsert = canInsert;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.renderer.load();
+
+		contentEl.createEl("h2", { text: this.question });
+
+		this.container = contentEl.createDiv({ cls: "sprinkle-review-container" });
+		this.pre = this.container.createEl("pre");
+		this.pre.textContent = this.answer;
+		// Rendered internal links only navigate when handled explicitly
+		this.container.addEventListener("click", (event) => {
+			const link = (event.target as HTMLElement).closest("a.internal-link");
+			const target = link?.getAttribute("data-href");
+			if (target) {
+				event.preventDefault();
+				void this.app.workspace.openLinkText(target, "");
+				this.close();
+			}
+		});
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+
+		const closeBtn = buttonContainer.createEl("button", { text: "Close" });
+		closeBtn.addEventListener("click", () => {
+			this.result = "close";
+			this.close();
+		});
+
+		if (this.canInsert) {
+			this.insertBtn = buttonContainer.createEl("button", { text: "Insert into note" });
+			this.insertBtn.addEventListener("click", () => {
+				this.result = "insert";
+				this.close();
+			});
+		}
+
+		this.saveBtn = buttonContainer.createEl("button", { text: "Save as note", cls: "mod-cta" });
+		this.saveBtn.addEventListener("click", () => {
+			this.result = "save";
+			this.close();
+		});
+
+		this.updateButtons();
+	}
+
+	/**
+	 * Appends streamed text to the answer preview.
+	 */
+	appendText(token: string) {
+		this.answer += token;
+		if (this.pre) {
+			this.pre.textContent = this.answer;
+		}
+	}
+
+	/**
+	 * Renders the complete answer and enables the actions.
+	 */
+	async setComplete(answer: string) {
+		this.answer = answer;
+		this.complete = true;
+		this.updateButtons();
+		if (this.container) {
+			this.container.empty();
+			this.pre = null;
+			await MarkdownRenderer.render(this.app, answer, this.container, "", this.renderer);
+		}
+	}
+
+	private updateButtons() {
+		if (this.insertBtn) this.insertBtn.disabled = !this.complete;
+		if (this.saveBtn) this.saveBtn.disabled = !this.complete;
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.renderer.unload();
+		this.container = null;
+		this.pre = null;
+		this.insertBtn = null;
+		this.saveBtn = null;
+		this.onSubmit(this.result);
+	}
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from "vitest";
+import { addTokenUsage, estimateCost, findPrice, UsageLedger } from "./usage";
+import type { ModelPrice, UsageRecord } from "./types";
+import { memoryStore, slowFirstSaveStore } from "./testUtils";
+
+function record(timestamp: Date, overrides: Partial<UsageRecord> = {}): UsageRecord {
+	return {
+		timestamp: timestamp.toISOString(),
+		command: "review",
+		provider: "openai",
+		model: "gpt-5-mini",
+		inputTokens: 1000,
+		outputTokens: 200,
+		latencyMs: 1500,
+		...overrides,
+	};
+}
+
+const prices: ModelPrice[] = [{ model: "gpt-5-mini", inputPerMillion: 0.25, outputPerMillion: 2 }];
+
+describe("UsageLedger", () => {
+	const now = new Date(2025, 5, 15);
+
+	it("sums requests, tokens and cost per month, newest first", async () => {
+		const ledger = new UsageLedger(memoryStore(), () => now);
+		await ledger.record(record(new Date(2025, 4, 20)));
+		await ledger.record(record(new Date(2025, 5, 1)));
+		await ledger.record(record(new Date(2025, 5, 2), { inputTokens: 3000, outputTokens: 800 }));
+
+		const months = await ledger.monthlyTotals(prices);
+
+		expect(months).toEqual([
+			{
+				month: "2025-06",
+				requests: 2,
+				inputTokens: 4000,
+				outputTokens: 1000,
+				cost: 0.003,
+				unpricedRequests: 0,
+			},
+			{
+				month: "2025-05",
+				requests: 1,
+				inputTokens: 1000,
+				outputTokens: 200,
+				cost: 0.00065,
+				unpricedRequests: 0,
+			},
+		]);
+	});
+
+	it("counts requests without a price or token counts as unpriced", async () => {
+		const ledger = new UsageLedger(memoryStore(), () => now);
+		await ledger.record(record(now, { provider: "ollama", model: "llama3.1" }));
+		await ledger.record(record(now, { inputTokens: undefined, outputTokens: undefined }));
+
+		const [month] = await ledger.monthlyTotals(prices);
+
+		expect(month).toMatchObject({
+			requests: 2,
+			inputTokens: 1000,
+			cost: 0,
+			unpricedRequests: 2,
+		});
+	});
+
+	it("drops records older than a year", async () => {
+		const ledger = new UsageLedger(memoryStore(), () => now);
+		await ledger.record(record(new Date(2024, 5, 30)));
+		await ledger.record(record(new Date(2024, 6, 1)));
+		await ledger.record(record(now));
+
+		const months = await ledger.monthlyTotals(prices);
+
+		expect(months.map((m) => m.month)).toEqual(["2025-06", "2024-07"]);
+	});
+
+	it("drops old records by the current date by default", async () => {
+		vi.useFakeTimers({ now });
+		const ledger = new UsageLedger(memoryStore());
+		await ledger.record(record(new Date(2024, 5, 30)));
+		await ledger.record(record(now));
+
+		const months = await ledger.monthlyTotals(prices);
+
+		expect(months.map((m) => m.month)).toEqual(["2025-06"]);
+		vi.useRealTimers();
+	});
+
+	it("persists records across instances", async () => {
+		const store = memoryStore();
+		await new UsageLedger(store, () => now).record(record(now));
+
+		const months = await new UsageLedger(store, () => now).monthlyTotals(prices);
+
+		expect(months).toHaveLength(1);
+	});
+
+	it("keeps every record of calls made at the same time", async () => {
+		const store = slowFirstSaveStore();
+		const ledger = new UsageLedger(store, () => now);
+
+		await Promise.all([ledger.record(record(now)), ledger.record(record(now))]);
+
+		const [month] = await new UsageLedger(store, () => now).monthlyTotals(prices);
+		expect(month?.requests).toBe(2);
+	});
+
+	it("clears every record and the stored data", async () => {
+		const store = memoryStore();
+		const ledger = new UsageLedger(store, () => now);
+		await ledger.record(record(now));
+
+		await ledger.clear();
+
+		expect(await ledger.monthlyTotals(prices)).toEqual([]);
+		expect(store.data).toBeNull();
+	});
+});
+
+describe("findPrice", () => {
+	it("matches model names ignoring case and surrounding spaces", () => {
+		expect(findPrice(prices, " GPT-5-mini ")).toBe(prices[0]);
+		expect(findPrice(prices, "gpt-5")).toBeUndefined();
+	});
+});
+
+describe("estimateCost", () => {
+	it("prices input and output tokens per million", () => {
+		const cost = estimateCost(
+			record(new Date(), { inputTokens: 2_000_000, outputTokens: 500_000 }),
+			prices
+		);
+
+		expect(cost).toBe(1.5);
+	});
+
+	it("returns null for unknown models", () => {
+		expect(estimateCost(record(new Date(), { model: "other" }), prices)).toBeNull();
+	});
+});
+
+describe("addTokenUsage", () => {
+	it("adds the counts, keeping those missing from both calls missing", () => {
+		expect(addTokenUsage({ inputTokens: 100, outputTokens: 10 }, { inputTokens: 50 })).toEqual({
+			inputTokens: 150,
+			outputTokens: 10,
+		});
+		expect(addTokenUsage({}, {})).toEqual({ inputTokens: undefined, outputTokens: undefined });
+	});
+});
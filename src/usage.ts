@@ -0,0 +1,159 @@
+import { JsonStore } from "./jsonStore";
+import type { FileStore, ModelPrice, TokenUsage, UsageRecord } from "./types";
+
+/**
+ * Number of months of records kept in the ledger, including the current one.
+ */
+const RETENTION_MONTHS = 12;
+
+/**
+ * Usage totals for one calendar month.
+ */
+export interface MonthlyUsage {
+	month: string; // YYYY-MM, local time
+	requests: number;
+	inputTokens: number;
+	outputTokens: number;
+	cost: number; // dollars, for the requests with a known price
+	unpricedRequests: number; // requests whose model has no price, or without token counts
+}
+
+interface SerializedLedger {
+	version: 1;
+	records: UsageRecord[];
+}
+
+/**
+ * Persistent ledger of LLM calls, for usage and cost totals.
+ *
+ * Records are kept in a JSON store and written back after every change;
+ * records older than a year are dropped.
+ */
+export class UsageLedger {
+	private now: () => Date;
+	private records: JsonStore<UsageRecord[]>;
+
+	constructor(store: FileStore, now: () => Date = () => new Date()) {
+		this.now = now;
+		this.records = new JsonStore<UsageRecord[]>(store, "the usage ledger", {
+			empty: () => [],
+			serialize: (records): SerializedLedger => ({ version: 1, records }),
+			deserialize,
+		});
+	}
+
+	/**
+	 * Adds a record and drops records older than the retention period.
+	 */
+	record(record: UsageRecord): Promise<void> {
+		return this.records.run(async (records) => {
+			records.push(record);
+			const now = this.now();
+			const oldestMonth = monthKey(
+				new Date(now.getFullYear(), now.getMonth() - (RETENTION_MONTHS - 1), 1)
+			);
+			const kept = records.filter((r) => monthKey(new Date(r.timestamp)) >= oldestMonth);
+			records.splice(0, records.length, ...kept);
+			await this.records.save(records);
+		});
+	}
+
+	/**
+	 * Sums the records per month, pricing them with the given price table.
+	 *
+	 * @param prices - Price table to compute costs with
+	 * @returns Totals per month, newest first
+	 */
+	monthlyTotals(prices: ModelPrice[]): Promise<MonthlyUsage[]> {
+		return this.records.run((records) => {
+			const months = new Map<string, MonthlyUsage>();
+			for (const record of records) {
+				const month = monthKey(new Date(record.timestamp));
+				let totals = months.get(month);
+				if (!totals) {
+					totals = {
+						month,
+						requests: 0,
+						inputTokens: 0,
+						outputTokens: 0,
+						cost: 0,
+						unpricedRequests: 0,
+					};
+					months.set(month, totals);
+				}
+				totals.requests++;
+				totals.inputTokens += record.inputTokens ?? 0;
+				totals.outputTokens += record.outputTokens ?? 0;
+
+				const cost = estimateCost(record, prices);
+				if (cost === null) {
+					totals.unpricedRequests++;
+				} else {
+					totals.cost += cost;
+				}
+			}
+			return [...months.values()].sort((a, b) => b.month.localeCompare(a.month));
+		});
+	}
+
+	/**
+	 * Removes every record, including the stored file.
+	 */
+	clear(): Promise<void> {
+		return this.records.clear();
+	}
+}
+
+/**
+ * Finds the price of a model. Names are matched ignoring case.
+ */
+export function findPrice(prices: ModelPrice[], model: string): ModelPrice | undefined {
+	const name = model.trim().toLowerCase();
+	return prices.find((price) => price.model.trim().toLowerCase() === name);
+}
+
+/**
+ * Estimates the cost of a call in dollars.
+ *
+ * @returns The cost, or null if the model has no price or the provider did
+ * not report token counts
+ */
+export function estimateCost(record: UsageRecord, prices: ModelPrice[]): number | null {
+	const price = findPrice(prices, record.model);
+	if (!price || record.inputTokens === undefined || record.outputTokens === undefined) {
+		return null;
+	}
+	return (
+		(record.inputTokens * price.inputPerMillion +
+			record.outputTokens * price.outputPerMillion) /
+		1_000_000
+	);
+}
+
+/**
+ * Adds up the token counts of two calls. A count stays missing only when
+ * neither call reported it.
+ */
+export function addTokenUsage(a: Partial<TokenUsage>, b: Partial<TokenUsage>): Partial<TokenUsage> {
+	const sum = (x: number | undefined, y: number | undefined) =>
+		x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0);
+	return {
+		inputTokens: sum(a.inputTokens, b.inputTokens),
+		outputTokens: sum(a.outputTokens, b.outputTokens),
+	};
+}
+
+/**
+ * Formats a date as a YYYY-MM month key in local time.
+ */
+function monthKey(date: Date): string {
+	return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Reads stored ledger data, or null if it has another format.
+ */
+function deserialize(json: unknown): UsageRecord[] | null {
+	const data = json as Partial<SerializedLedger>;
+	return data.version === 1 && Array.isArray(data.records) ? data.records : null;
+}
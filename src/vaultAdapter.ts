@@ -1,6 +1,7 @@
-import { TFile } from "obsidian";
-import type { App } from "obsidian";
-import type { VaultAdapter } from "./types";
+import { getAllTags, TFile } from "obsidian";
+import type { App, EventRef, TAbstractFile } from "obsidian";
+import type { LogFileStore } from "./debugLog";
+import type { FileStore, NoteChange, VaultAdapter } from "./types";
 
 /**
  * Obsidian implementation of the VaultAdapter interface.
@@ -12,11 +13,12 @@ export class ObsidianVaultAdapter implements VaultAdapter {
 		this.app = app;
 	}
 
-	async listMarkdownFiles(): Promise<Array<{ path: string; mtime: Date }>> {
+	async listMarkdownFiles(): Promise<Array<{ path: string; mtime: Date; ctime: Date }>> {
 		const files = this.app.vault.getMarkdownFiles();
 		return files.map((file: TFile) => ({
 			path: file.path,
 			mtime: new Date(file.stat.mtime),
+			ctime: new Date(file.stat.ctime),
 		}));
 	}
 
@@ -57,4 +59,122 @@ export class ObsidianVaultAdapter implements VaultAdapter {
 			.filter((f: TFile) => f.path.startsWith(normalizedFolder + "/"))
 			.map((f: TFile) => f.path);
 	}
+
+	async resolveNotePath(link: string): Promise<string | null> {
+		// Accept [[Target#Heading|Alias]] as well as plain paths and titles
+		const target = link
+			.replace(/^\[\[|\]\]$/g, "")
+			.split("|")[0]!
+			.split("#")[0]!
+			.trim();
+		const file = this.app.vault.getAbstractFileByPath(target);
+		if (file instanceof TFile) {
+			return file.path;
+		}
+		return this.app.metadataCache.getFirstLinkpathDest(target, "")?.path ?? null;
+	}
+
+	async getBacklinks(path: string): Promise<string[]> {
+		return Object.entries(this.app.metadataCache.resolvedLinks)
+			.filter(([, links]) => path in links)
+			.map(([source]) => source);
+	}
+
+	async getNoteTags(path: string): Promise<string[]> {
+		const cache = this.app.metadataCache.getCache(path);
+		const tags = cache ? (getAllTags(cache) ?? []) : [];
+		return [...new Set(tags.map((tag) => tag.replace(/^#/, "")))];
+	}
+
+	async getFrontmatter(path: string): Promise<Record<string, unknown> | null> {
+		const frontmatter = this.app.metadataCache.getCache(path)?.frontmatter;
+		return frontmatter ? { ...frontmatter } : null;
+	}
+
+	onNoteChange(listener: (change: NoteChange) => void): () => void {
+		const { vault } = this.app;
+		const isNote = (file: TAbstractFile): file is TFile =>
+			file instanceof TFile && file.extension === "md";
+		const refs: EventRef[] = [
+			vault.on("create", (file) => {
+				if (isNote(file)) listener({ type: "modify", path: file.path });
+			}),
+			vault.on("modify", (file) => {
+				if (isNote(file)) listener({ type: "modify", path: file.path });
+			}),
+			vault.on("delete", (file) => {
+				if (isNote(file)) listener({ type: "delete", path: file.path });
+			}),
+			vault.on("rename", (file, oldPath) => {
+				if (isNote(file)) listener({ type: "rename", path: file.path, oldPath });
+			}),
+		];
+		return () => refs.forEach((ref) => vault.offref(ref));
+	}
+}
+
+/**
+ * Stores plugin data in a file in the plugin's folder.
+ */
+export class PluginFileStore implements FileStore {
+	private app: App;
+	private path: string;
+
+	constructor(app: App, path: string) {
+		this.app = app;
+		this.path = path;
+	}
+
+	async load(): Promise<string | null> {
+		const { adapter } = this.app.vault;
+		return (await adapter.exists(this.path)) ? adapter.read(this.path) : null;
+	}
+
+	async save(data: string): Promise<void> {
+		await this.app.vault.adapter.write(this.path, data);
+	}
+
+	async remove(): Promise<void> {
+		const { adapter } = this.app.vault;
+		if (await adapter.exists(this.path)) {
+			await adapter.remove(this.path);
+		}
+	}
+}
+
+/**
+ * Stores log files in a vault folder, creating the folder on first write.
+ */
+export class VaultLogFileStore implements LogFileStore {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	async append(path: string, data: string): Promise<void> {
+		const { adapter } = this.app.vault;
+		const folderPath = path.split("/").slice(0, -1).join("/");
+		if (folderPath && !(await adapter.exists(folderPath))) {
+			await adapter.mkdir(folderPath);
+		}
+		if (await adapter.exists(path)) {
+			await adapter.append(path, data);
+		} else {
+			await adapter.write(path, data);
+		}
+	}
+
+	async list(folder: string): Promise<string[]> {
+		const { adapter } = this.app.vault;
+		const folderPath = folder.replace(/\/+$/, "") || "/";
+		if (!(await adapter.exists(folderPath))) {
+			return [];
+		}
+		return (await adapter.list(folderPath)).files;
+	}
+
+	async remove(path: string): Promise<void> {
+		await this.app.vault.adapter.remove(path);
+	}
 }
@@ -22,6 +22,25 @@ export default defineConfig({
 				"src/llmClient.ts",
 				"src/render.ts",
 				"src/filenames.ts",
+				"src/profiles.ts",
+				"src/fallback.ts",
+				"src/retry.ts",
+				"src/diagnostics.ts",
+				"src/tokens.ts",
+				"src/cache.ts",
+				"src/reviewSchema.ts",
+				"src/usage.ts",
+				"src/debugLog.ts",
+				"src/thinking.ts",
+				"src/noteTools.ts",
+				"src/semanticIndex.ts",
+				"src/askVault.ts",
+				"src/noteFilter.ts",
+				"src/noteQuery.ts",
+				"src/noteDates.ts",
+				"src/contentSnapshot.ts",
+				"src/streamingFetch.ts",
+				"src/jsonStore.ts",
 			],
 			thresholds: {
 				lines: 95,